@@ -1,6 +1,7 @@
 import { k } from "../kaplayCtx";
 import { EnemyDatabase } from "./systems/EnemyDatabase";
 import { ItemDatabase } from "./systems/ItemDatabase";
+import { BiomeDatabase } from "./systems/BiomeDatabase";
 import { UI } from "./config";
 
 export async function loadAssets(): Promise<void> {
@@ -102,6 +103,7 @@ export async function loadAssets(): Promise<void> {
       apple: 82,
       cement: 83,
       bricks: 84,
+      key: 120,
     }
   });
 
@@ -221,3 +223,10 @@ export const itemDatabase = new ItemDatabase();
 export async function loadItemDatabase(): Promise<void> {
   await itemDatabase.load("items.json");
 }
+
+// Global biome database instance
+export const biomeDatabase = new BiomeDatabase();
+
+export async function loadBiomeDatabase(): Promise<void> {
+  await biomeDatabase.load("biomes.json");
+}
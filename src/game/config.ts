@@ -1,15 +1,70 @@
+import type { BehaviorRule, CostProfile, DecayAction, DecayProfile, RivalDifficulty } from "./types";
+
 export const TILE_SIZE = 32;
 export const DOOR_SIZE = 8;
+// Default grid size (tutorial, boss room and any level without an entry in LEVEL_GRID_SIZES)
 export const GRID_COLS = 7;
 export const GRID_ROWS = 7;
 
+// Grid size per level - first entry with level >= minLevel wins (levels count down to 0)
+// Sizes must be odd and at least 3 so that the grid has immovable corners and edges
+export const LEVEL_GRID_SIZES = [
+  { minLevel: 9, rows: 5, cols: 5 },
+  { minLevel: 6, rows: 7, cols: 7 },
+  { minLevel: 3, rows: 9, cols: 9 },
+  { minLevel: 1, rows: 7, cols: 11 },
+] as const;
+
+// Get grid size for a given level
+export function getGridSizeForLevel(level: number): { rows: number; cols: number } {
+  const entry = LEVEL_GRID_SIZES.find(size => level >= size.minLevel);
+  return entry ? { rows: entry.rows, cols: entry.cols } : { rows: GRID_ROWS, cols: GRID_COLS };
+}
+
+// Boards per floor - first entry with level >= minLevel wins (levels count down to 0)
+// Boards of a floor share the level's grid size and are linked west to east by doorways
+// They also share the level's enemy budget (see ENEMY_BUDGET_MODIFIER), split evenly between them
+export const LEVEL_BOARD_COUNTS = [
+  { minLevel: 7, boards: 1 },
+  { minLevel: 4, boards: 2 },
+  { minLevel: 1, boards: 3 },
+] as const;
+
+// Get the number of boards of the floor at a given level
+export function getBoardCountForLevel(level: number): number {
+  return LEVEL_BOARD_COUNTS.find(entry => level >= entry.minLevel)?.boards ?? 1;
+}
+
+// Rival mason per level - first entry with level >= minLevel wins (levels count down to 0)
+// Rivals only race on single-board floors, where the exit is on the board they start on
+export const LEVEL_RIVALS: readonly { minLevel: number; difficulty: RivalDifficulty | null }[] = [
+  { minLevel: 10, difficulty: null },
+  { minLevel: 9, difficulty: "Easy" },
+  { minLevel: 8, difficulty: "Normal" },
+  { minLevel: 7, difficulty: "Hard" },
+];
+
+// Get the difficulty of the rival that may race the player at a given level (null for none)
+export function getRivalDifficultyForLevel(level: number): RivalDifficulty | null {
+  return LEVEL_RIVALS.find(entry => level >= entry.minLevel)?.difficulty ?? null;
+}
+
+// Multi-room floors
+export const FLOOR = {
+  FOLLOW_DISTANCE: 3,  // Enemies that can reach a doorway within this many moves follow the player through it
+  PAN_DURATION: 0.35,  // Duration in seconds of the camera pan between boards
+} as const;
+
 export const GRID_OFFSET_X = 40;
-export const GRID_OFFSET_Y = Math.floor((360 - GRID_ROWS * TILE_SIZE) / 2);
+
+// Get vertical grid offset that centers a grid with the given number of rows on screen
+export function getGridOffsetY(rows: number): number {
+  return Math.floor((360 - rows * TILE_SIZE) / 2);
+}
 
 export const PLOT_SIZE = TILE_SIZE;
 export const ARROW_SIZE = 16;
 
-export const PREVIEW_X = GRID_OFFSET_X + GRID_COLS * TILE_SIZE + TILE_SIZE * 3;
 export const PREVIEW_Y = 100;
 
 export const COLORS = {
@@ -20,14 +75,32 @@ export const COLORS = {
   arrowGreen: [80, 255, 80] as [number, number, number],
   plotBg: [40, 40, 40] as [number, number, number],
   overlay: [0, 0, 0] as [number, number, number],
+  pit: [12, 8, 6] as [number, number, number],
+  oneWay: [230, 200, 90] as [number, number, number],
+  bridge: [120, 80, 45] as [number, number, number],
+  lock: [210, 170, 60] as [number, number, number],
+  water: [60, 110, 200] as [number, number, number],
+  spikes: [190, 190, 205] as [number, number, number],
+  rubble: [110, 95, 80] as [number, number, number],
+  teleport: [170, 90, 230] as [number, number, number],
+  doorway: [120, 200, 230] as [number, number, number],
+  reachable: [100, 200, 255] as [number, number, number],
+  riskyRoute: [255, 150, 60] as [number, number, number],  // Reachable only over tiles that may give way or hurt
+  hint: [255, 230, 120] as [number, number, number],
+  rival: [255, 140, 140] as [number, number, number],  // Tint of the rival mason's sprite
 };
 
+// Default tile and decay tables - used by the tutorial, the editor and any depth
+// without an entry in public/biomes.json (biomes override them field by field)
 export const TILE_WEIGHTS = {
   CulDeSac: 5,
   Straight: 12,
   L: 20,
   T: 18,
   Cross: 5,
+  OneWay: 2,
+  Bridge: 2,
+  LockedDoor: 1,
 } as const;
 
 export const DECAY_WEIGHTS = {
@@ -41,10 +114,53 @@ export const DECAY_WEIGHTS = {
 
 // Decay Progression Configuration
 export const DECAY_PROGRESSION = {
-  MAX_DECAY: 5,                    // Maximum decay level a tile can reach
-  ON_TILE_PLACEMENT: 2,            // Number of tiles to decay when placing a tile
-  ON_WALL_BREAK: 1,                // Number of tiles to decay when breaking a wall
-  ON_TILE_ROTATION: 2,             // Number of tiles to decay when rotating player's tile
+  MAX_DECAY: 5,                    // Maximum decay level a tile can reach (same for every biome)
+} as const;
+
+// Decay caused by each action - amounts map a decay increase to its weight
+// Tiles that were just pushed or rotated (hitAmounts) are the least likely to decay
+export const DECAY_PROFILES: Record<DecayAction, DecayProfile> = {
+  Push:      { area: "Line", amounts: { 0: 5, 1: 4, 2: 1 }, hitAmounts: { 0: 9, 1: 1 } },      // Pushed row/column, new tile is the hit
+  Rotate:    { area: "Neighbours", amounts: { 0: 4, 1: 4, 2: 1 }, hitAmounts: { 0: 19, 1: 1 } },  // Rotated tile and its neighbours
+  WallBump:  { area: "Target", amounts: { 0: 1, 1: 1 } },                                       // Both tiles of the bumped wall
+  Explosion: { area: "Target", amounts: { 1: 3, 2: 1 } },                                       // Every tile the blast reaches
+  EnemyStep: { area: "Target", amounts: { 0: 19, 1: 1 } },                                      // Tile an enemy ended its move on
+  Idle:      { area: "Random", amounts: { 0: 1, 1: 1 }, count: 1 },                              // A random tile when the player skips a turn
+  Spread:    { area: "Target", amounts: { 1: 1 } },                                             // Tiles weakened in the structural pass
+  Hint:      { area: "Random", amounts: { 0: 1, 1: 2 }, count: 2 },                              // Random tiles when the player asks for a hint
+};
+
+// Structural pass at the end of each round - critical tiles weaken their neighbours
+// Immovable edge tiles are load-bearing anchors that slow the spread
+export const STRUCTURE = {
+  CRITICAL_DECAY: 4,         // Tiles at or above this decay weaken their neighbours
+  SPREAD_CHANCE: 0.2,        // Chance per critical neighbour that a tile decays
+  ANCHOR_SPREAD: 0.25,       // Spread chance multiplier for anchor tiles themselves
+  NEAR_ANCHOR_SPREAD: 0.5,   // Spread chance multiplier for tiles next to an anchor
+  CASCADE_SIZE: 3,           // Connected critical tiles (not anchors) needed for a cascade
+  CASCADE_CHANCE: 0.5,       // Chance per round that such a cluster collapses at once
+} as const;
+
+// Surface features - spawned on generated levels from the biome's tables
+export const SURFACE_FEATURES = {
+  CHANCE: 0.06,       // Chance that a tile of a generated level gets a feature
+  WATER_COST: 2,      // Movement points spent to wade into shallow water (always allowed as a move's first step)
+  SPIKE_DAMAGE: 2,    // Damage dealt to grounded mobs stepping onto spikes
+} as const;
+
+export const FEATURE_WEIGHTS = {
+  Water: 4,
+  Spikes: 2,
+  Rubble: 3,
+  Teleport: 1,
+} as const;
+
+// Weight of each grid shape of generated levels (see GridShape), biomes may allow other shapes
+export const GRID_SHAPE_WEIGHTS = {
+  Rectangle: 1,
+  Cross: 0,
+  Ring: 0,
+  Pillar: 0,
 } as const;
 
 // Decay Fall Chance Configuration - maps decay level to probability of falling through floor
@@ -57,10 +173,10 @@ export const DECAY_FALL_CHANCE: Record<number, number> = {
   5: 1.0,   // Maximum decay - 100% chance of falling (and beyond)
 };
 
-// Get fall chance for a given decay level
-export function getFallChance(decayLevel: number): number {
+// Get fall chance for a given decay level (of the given biome table)
+export function getFallChance(decayLevel: number, fallChance: Record<number, number> = DECAY_FALL_CHANCE): number {
   if (decayLevel >= 5) return 1.0;
-  return DECAY_FALL_CHANCE[decayLevel] ?? 0.0;
+  return fallChance[decayLevel] ?? 0.0;
 }
 
 // Combat Configuration
@@ -72,11 +188,92 @@ export const COMBAT = {
   CRIT_MULT: 2,           // Critical hit damage multiplier
 } as const;
 
+// Game Rules - optional board-game style rule toggles
+export const RULES = {
+  EJECTED_TILE_BECOMES_CURRENT: false,  // The tile pushed off the grid becomes the next tile in hand instead of being discarded
+  FORBID_REVERSE_PUSH: false,           // Pushing from the plot opposite the last push (undoing it) is not allowed
+};
+
+// Hand Configuration
+export const HAND = {
+  DEFAULT_SIZE: 3,    // Tiles in hand, including the active one (levels may override)
+  MAX_SIZE: 4,        // Largest hand a level may ask for
+  UPCOMING_COUNT: 3,  // Tiles shown from the top of the deck
+};
+
 // AI Configuration
 export const AI = {
   FALL_AVOIDANCE_THRESHOLD: 0.75,  // Non-flying enemies avoid tiles with fall chance >= this value
 } as const;
 
+// Pathfinding cost profiles - a step costs its movement points plus the profile's penalties
+// decayWeight: extra cost of entering a tile at max decay (scaled by the tile's decay)
+// hazardCost: extra cost of entering a tile with a harmful feature
+// maxFallChance: tiles with at least this fall chance are never entered
+export const COST_PROFILES: Record<CostProfile, { decayWeight: number; hazardCost: number; maxFallChance: number }> = {
+  Player:   { decayWeight: 0.5, hazardCost: 0.5, maxFallChance: Infinity },
+  Cautious: { decayWeight: 4, hazardCost: 6, maxFallChance: AI.FALL_AVOIDANCE_THRESHOLD },
+  Brute:    { decayWeight: 0.5, hazardCost: 1, maxFallChance: Infinity },
+  Flyer:    { decayWeight: 0, hazardCost: 0, maxFallChance: Infinity },
+};
+
+// Deck Building - the player's tile deck persists through a run
+export const DECK_BUILDING = {
+  STARTING_DECK: { CulDeSac: 1, Straight: 3, L: 4, T: 3, Cross: 1 },  // Tiles the player starts a run with
+  MIN_SIZE: 6,     // Tiles can't be removed below this deck size
+  OFFER_COUNT: 3,  // Tile types offered to add between floors
+  CHANGES_PER_FLOOR: 1,  // Adds, removals and upgrades allowed between floors
+  UPGRADES: { CulDeSac: "Straight", Straight: "L", L: "T", T: "Cross" } as Record<string, string>,  // Tile type an upgraded tile becomes
+} as const;
+
+// Level Solver Configuration - generated levels must be provably solvable
+export const SOLVER = {
+  MAX_ACTIONS: 24,                 // Levels whose exit needs more player actions than this count as unsolvable
+  MAX_STATES: 20000,               // Search budget per level, the solver gives up beyond this
+  MAX_GENERATION_ATTEMPTS: 5,      // Grids generated before falling back to repairing the last one
+} as const;
+
+// Route planner - searches pushes, rotations and moves towards a goal (hints, AI opponents)
+export const PLANNER = {
+  MAX_PUSHES: 2,                   // Pushes a plan may use
+  MAX_TURNS: 8,                    // Plans longer than this many turns aren't looked for
+  MAX_STATES: 10000,               // Search budget per plan, the planner gives up beyond this
+} as const;
+
+// Behavior of an enemy whose definition in enemies.json declares none (see BehaviorRule)
+export const DEFAULT_ENEMY_BEHAVIOR: BehaviorRule[] = [{ action: "Hunt" }];
+
+// Kiting enemies (Kite behavior) - where they like to shoot from
+export const KITE = {
+  PREFERRED_RANGE: 3,              // Tiles between the enemy and the player it aims for, unless the rule sets a range
+} as const;
+
+// Saboteur enemies (TileAction behavior) - how they score a board before pushing or rotating a tile
+export const SABOTEUR = {
+  EXIT_WEIGHT: 1,                  // Score per point of the player's path cost to the exit
+  CHASE_WEIGHT: 1,                 // Score lost per point of the saboteur's path cost to the player
+  UNREACHABLE_COST: 30,            // Path cost counted when there is no way at all
+  MIN_GAIN: 2,                     // A push or rotation must beat leaving the board be by more than this
+} as const;
+
+// Rival mason - races the player to the exit with a deck of its own (see Rival)
+export const RIVAL = {
+  SPAWN_CHANCE: 0.5,               // Chance a level with a rival difficulty in LEVEL_RIVALS gets a rival
+  DECK_SIZE: 40,                   // Tiles in the rival's deck (drawn with the biome's tile weights)
+} as const;
+
+// How far ahead a rival plans, per difficulty (limits as in PLANNER)
+export const RIVAL_DIFFICULTIES: Record<RivalDifficulty, { maxPushes: number; maxTurns: number; maxStates: number; blunderChance: number }> = {
+  Easy:   { maxPushes: 0, maxTurns: 4, maxStates: 1000, blunderChance: 0.35 },  // Blunders move somewhere at random
+  Normal: { maxPushes: 1, maxTurns: 6, maxStates: 4000, blunderChance: 0.15 },
+  Hard:   { maxPushes: 2, maxTurns: 8, maxStates: 10000, blunderChance: 0 },
+};
+
+// Route hints - what asking for one costs (the decay it causes is DECAY_PROFILES.Hint)
+export const HINT = {
+  MAX_USES: 3,                     // Hints per level (Infinity for no limit)
+} as const;
+
 // Start Level Sequence Configuration
 export const START_LEVEL = {
   GRID_REVEAL_DURATION: 1.1,     // Duration in seconds to reveal the grid
@@ -86,8 +283,8 @@ export const START_LEVEL = {
 } as const;
 
 // UI Configuration - Main position of the entire UI panel
+// X depends on the grid width, see getUIX() in UIRenderer
 export const UI = {
-  X: GRID_OFFSET_X + GRID_COLS * TILE_SIZE + (640 - (GRID_OFFSET_X + GRID_COLS * TILE_SIZE)) / 2 - 10,
   Y: 50, 
   PATCH_SIZE: 8,  // 9-patch border size
   PADDING: 8,     // Padding inside the UI border
@@ -125,6 +322,11 @@ export const STARTING_ITEMS = ["apple"];  // Items given to player at game start
 export const ENEMY_BUDGET_MODIFIER = 1.0;  // Multiplier for enemy budget per level (budget = level * modifier)
 export const ITEM_DROP_PROBABILITY = 0.04;  // Probability (0.0 - 1.0) of an item spawning on each empty tile
 
+// Hand-authored levels - maps a level number to a level file (see LevelLoader), all other levels are generated
+export const HANDCRAFTED_LEVELS: Record<number, string> = {
+  5: "levels/vault.json",
+};
+
 // Logging Configuration
 export const LOG_LEVEL = {
   NONE: 0,
@@ -0,0 +1,405 @@
+import { Direction, TileType, type GridPosition, type Orientation, type TileInstance } from "../types";
+import { canEnterTile, canLeaveTile, getOppositeDirection, getTileEdges } from "./Tile";
+
+const DIRECTIONS: Direction[] = [Direction.North, Direction.East, Direction.South, Direction.West];
+const OFFSETS: Record<Direction, GridPosition> = {
+  [Direction.North]: { row: -1, col: 0 },
+  [Direction.East]: { row: 0, col: 1 },
+  [Direction.South]: { row: 1, col: 0 },
+  [Direction.West]: { row: 0, col: -1 },
+};
+const EDGE_KEYS = ["north", "east", "south", "west"] as const;  // Indexed by Direction
+
+const exists = (tile: TileInstance | undefined): tile is TileInstance => !!tile && !tile.void;
+
+interface DoorMasks {
+  leave: number;  // Sides a mover that started on the tile may leave through
+  enter: number;  // Sides a mover may step onto the tile through
+  open: number;  // Open sides
+}
+
+// Doors only depend on a tile's shape, so each type and orientation is worked out once
+const doorMasks = new Map<string, DoorMasks>();
+
+function getDoorMasks(type: TileType, orientation: Orientation): DoorMasks {
+  const key = `${type}${orientation}`;
+  let masks = doorMasks.get(key);
+  if (!masks) {
+    masks = { leave: 0, enter: 0, open: 0 };
+    const edges = getTileEdges(type, orientation);
+    for (const direction of DIRECTIONS) {
+      if (canLeaveTile(type, orientation, direction)) masks.leave |= 1 << direction;
+      if (canEnterTile(type, orientation, direction)) masks.enter |= 1 << direction;
+      if (edges[EDGE_KEYS[direction]]) masks.open |= 1 << direction;
+    }
+    doorMasks.set(key, masks);
+  }
+  return masks;
+}
+
+/**
+ * Door-level connectivity of a grid: which sides of each cell lead into the neighbouring cell
+ *
+ * Two kinds of doors are kept per cell and direction:
+ * - passages: a mover may step that way (one-way gates and locked doors apply)
+ * - openings: both tiles are open towards each other (what sight and connected tiles follow)
+ *
+ * Only tile shapes matter here. Pits, features and objects change from turn to turn and are
+ * left to the pathfinder. Connected components, straight sight lines and reachable sets are
+ * cached and dropped whenever a door changes.
+ *
+ * Doors are updated incrementally (see updateConnectivity() and deriveConnectivity()). A cell
+ * edited in place without an update is caught by comparing its tile with the one its doors
+ * were computed for, before any query uses it.
+ */
+export class ConnectivityGraph {
+  private readonly grid: TileInstance[][];
+  private readonly rows: number;
+  private readonly cols: number;
+  private tiles: (TileInstance | undefined)[];  // Tile each cell's doors were computed for
+  private types: (TileType | undefined)[];
+  private orientations: (Orientation | undefined)[];
+  private voids: boolean[];
+  private passages: Uint8Array;  // Bit per direction
+  private openings: Uint8Array;  // Bit per direction
+  private components: Int32Array | null = null;  // Component label per cell, -1 for void cells
+  private sightRuns: Uint8Array[] | null = null;  // Per direction: open steps in a straight line from each cell
+  private reachable = new Map<number, Set<number>>();  // Cells reachable from a source cell
+
+  constructor(grid: TileInstance[][], source?: ConnectivityGraph) {
+    this.grid = grid;
+    this.rows = grid.length;
+    this.cols = grid[0]?.length ?? 0;
+
+    if (source && source.rows === this.rows && source.cols === this.cols) {
+      // Start from another grid's doors, the caller updates the cells that differ
+      this.tiles = [...source.tiles];
+      this.types = [...source.types];
+      this.orientations = [...source.orientations];
+      this.voids = [...source.voids];
+      this.passages = source.passages.slice();
+      this.openings = source.openings.slice();
+      return;
+    }
+
+    const size = this.rows * this.cols;
+    this.tiles = new Array(size);
+    this.types = new Array(size);
+    this.orientations = new Array(size);
+    this.voids = new Array(size).fill(false);
+    this.passages = new Uint8Array(size);
+    this.openings = new Uint8Array(size);
+    for (let i = 0; i < size; i++) {
+      this.record(i);
+    }
+    for (let i = 0; i < size; i++) {
+      this.computeDoors(i);
+    }
+  }
+
+  /**
+   * Returns true if a mover may step from a cell to its neighbour in a direction
+   * Bridges are open to every side here, the mover's turning rule is checked by the caller.
+   */
+  canStep(from: GridPosition, direction: Direction): boolean {
+    const index = this.indexOf(from);
+    if (index === null) return false;
+
+    const neighbour = this.neighbourOf(index, direction);
+    if (neighbour !== null) this.refreshIfStale(neighbour);
+    this.refreshIfStale(index);
+
+    return (this.passages[index] & (1 << direction)) !== 0;
+  }
+
+  /**
+   * Returns true if a cell and its neighbour in a direction are open towards each other
+   */
+  isOpen(from: GridPosition, direction: Direction): boolean {
+    const index = this.indexOf(from);
+    if (index === null) return false;
+
+    const neighbour = this.neighbourOf(index, direction);
+    if (neighbour !== null) this.refreshIfStale(neighbour);
+    this.refreshIfStale(index);
+
+    return (this.openings[index] & (1 << direction)) !== 0;
+  }
+
+  /**
+   * Returns every cell joined to a position through matching openings, itself included
+   * (empty for a void cell or a position off the grid)
+   */
+  getComponent(pos: GridPosition): GridPosition[] {
+    const index = this.indexOf(pos);
+    if (index === null) return [];
+
+    const components = this.getComponents();
+    const label = components[index];
+    if (label < 0) return [];
+
+    const cells: GridPosition[] = [];
+    components.forEach((other, i) => {
+      if (other === label) cells.push(this.positionOf(i));
+    });
+    return cells;
+  }
+
+  /**
+   * Returns true if two positions are joined through matching openings
+   */
+  areConnected(a: GridPosition, b: GridPosition): boolean {
+    const from = this.indexOf(a);
+    const to = this.indexOf(b);
+    if (from === null || to === null) return false;
+
+    const components = this.getComponents();
+    return components[from] >= 0 && components[from] === components[to];
+  }
+
+  /**
+   * Returns true if there's a straight line of openings between two positions
+   * Sight follows tile openings, not movement rules: one-way gates are barred, not closed, so
+   * they're seen through both ways, a straight line never turns on a bridge, and locked doors block it.
+   * Nobody sees across a void cell.
+   */
+  hasLineOfSight(from: GridPosition, to: GridPosition): boolean {
+    const start = this.indexOf(from);
+    if (start === null || this.indexOf(to) === null) return false;
+    if (from.row !== to.row && from.col !== to.col) return false;
+    if (from.row === to.row && from.col === to.col) return true;
+
+    const direction = from.row === to.row
+      ? (to.col > from.col ? Direction.East : Direction.West)
+      : (to.row > from.row ? Direction.South : Direction.North);
+    const distance = Math.abs(to.row - from.row) + Math.abs(to.col - from.col);
+
+    return this.getSightRuns()[direction][start] >= distance;
+  }
+
+  /**
+   * Returns true if a mover could walk from one position to another, following one-way gates,
+   * bridges and locked doors (pits, features and other mobs are not taken into account)
+   */
+  canReach(from: GridPosition, to: GridPosition): boolean {
+    const start = this.indexOf(from);
+    const target = this.indexOf(to);
+    if (start === null || target === null) return false;
+
+    this.sync();
+    let cells = this.reachable.get(start);
+    if (!cells) {
+      cells = this.floodReachable(start);
+      this.reachable.set(start, cells);
+    }
+    return cells.has(target);
+  }
+
+  /**
+   * Recomputes the doors of cells whose tiles changed, and of their neighbours
+   */
+  update(positions: GridPosition[]): void {
+    for (const pos of positions) {
+      const index = this.indexOf(pos);
+      if (index !== null) this.refresh(index);
+    }
+  }
+
+  private indexOf(pos: GridPosition): number | null {
+    if (pos.row < 0 || pos.row >= this.rows || pos.col < 0 || pos.col >= this.cols) return null;
+    return pos.row * this.cols + pos.col;
+  }
+
+  private positionOf(index: number): GridPosition {
+    return { row: Math.floor(index / this.cols), col: index % this.cols };
+  }
+
+  private neighbourOf(index: number, direction: Direction): number | null {
+    const { row, col } = this.positionOf(index);
+    const offset = OFFSETS[direction];
+    return this.indexOf({ row: row + offset.row, col: col + offset.col });
+  }
+
+  private tileAt(index: number): TileInstance | undefined {
+    return this.grid[Math.floor(index / this.cols)]?.[index % this.cols];
+  }
+
+  private record(index: number): void {
+    const tile = this.tileAt(index);
+    this.tiles[index] = tile;
+    this.types[index] = tile?.type;
+    this.orientations[index] = tile?.orientation;
+    this.voids[index] = tile?.void === true;
+  }
+
+  private isStale(index: number): boolean {
+    const tile = this.tileAt(index);
+    return tile !== this.tiles[index] ||
+      tile?.type !== this.types[index] ||
+      tile?.orientation !== this.orientations[index] ||
+      (tile?.void === true) !== this.voids[index];
+  }
+
+  private refreshIfStale(index: number): void {
+    if (this.isStale(index)) this.refresh(index);
+  }
+
+  /**
+   * Refreshes every cell whose tile changed behind the graph's back
+   */
+  private sync(): void {
+    for (let i = 0; i < this.tiles.length; i++) {
+      this.refreshIfStale(i);
+    }
+  }
+
+  private refresh(index: number): void {
+    this.record(index);
+    this.computeDoors(index);
+    for (const direction of DIRECTIONS) {
+      const neighbour = this.neighbourOf(index, direction);
+      if (neighbour !== null) this.computeDoors(neighbour);
+    }
+  }
+
+  private computeDoors(index: number): void {
+    const tile = this.tileAt(index);
+    let passages = 0;
+    let openings = 0;
+
+    if (exists(tile)) {
+      const masks = getDoorMasks(tile.type, tile.orientation);
+      for (const direction of DIRECTIONS) {
+        const neighbour = this.neighbourOf(index, direction);
+        const other = neighbour === null ? undefined : this.tileAt(neighbour);
+        if (!exists(other)) continue;
+
+        const otherMasks = getDoorMasks(other.type, other.orientation);
+        const bit = 1 << direction;
+        const oppositeBit = 1 << getOppositeDirection(direction);
+        if ((masks.leave & bit) && (otherMasks.enter & oppositeBit)) passages |= bit;
+        if ((masks.open & bit) && (otherMasks.open & oppositeBit)) openings |= bit;
+      }
+    }
+
+    if (passages !== this.passages[index] || openings !== this.openings[index]) {
+      this.passages[index] = passages;
+      this.openings[index] = openings;
+      this.components = null;
+      this.sightRuns = null;
+      this.reachable.clear();
+    }
+  }
+
+  private getComponents(): Int32Array {
+    this.sync();
+    if (this.components) return this.components;
+
+    const components = new Int32Array(this.tiles.length).fill(-1);
+    let label = 0;
+    for (let start = 0; start < components.length; start++) {
+      if (components[start] >= 0 || !exists(this.tileAt(start))) continue;
+
+      components[start] = label;
+      const queue = [start];
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        for (const direction of DIRECTIONS) {
+          if (!(this.openings[current] & (1 << direction))) continue;
+          const neighbour = this.neighbourOf(current, direction)!;
+          if (components[neighbour] >= 0) continue;
+          components[neighbour] = label;
+          queue.push(neighbour);
+        }
+      }
+      label++;
+    }
+
+    this.components = components;
+    return components;
+  }
+
+  private getSightRuns(): Uint8Array[] {
+    this.sync();
+    if (this.sightRuns) return this.sightRuns;
+
+    const runs = DIRECTIONS.map(() => new Uint8Array(this.tiles.length));
+    for (const direction of DIRECTIONS) {
+      // Walk each line from the far end, so a cell's run builds on its neighbour's
+      const reversed = direction === Direction.East || direction === Direction.South;
+      for (let n = 0; n < this.tiles.length; n++) {
+        const index = reversed ? this.tiles.length - 1 - n : n;
+        if (!(this.openings[index] & (1 << direction))) continue;
+        runs[direction][index] = 1 + runs[direction][this.neighbourOf(index, direction)!];
+      }
+    }
+
+    this.sightRuns = runs;
+    return runs;
+  }
+
+  /**
+   * Returns the cells reachable from a source, a bridge is crossed straight on
+   */
+  private floodReachable(start: number): Set<number> {
+    const cells = new Set<number>([start]);
+    const seen = new Set<string>([`${start}:`]);
+    const queue: { index: number; enteredThrough: Direction | null }[] = [{ index: start, enteredThrough: null }];
+
+    for (let head = 0; head < queue.length; head++) {
+      const { index, enteredThrough } = queue[head];
+      const tile = this.tileAt(index)!;
+      for (const direction of DIRECTIONS) {
+        if (!(this.passages[index] & (1 << direction))) continue;
+        if (!canLeaveTile(tile.type, tile.orientation, direction, enteredThrough)) continue;
+
+        const neighbour = this.neighbourOf(index, direction)!;
+        const entered = getOppositeDirection(direction);
+        const key = this.tileAt(neighbour)!.type === TileType.Bridge ? `${neighbour}:${entered}` : `${neighbour}:`;
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        cells.add(neighbour);
+        queue.push({ index: neighbour, enteredThrough: entered });
+      }
+    }
+
+    return cells;
+  }
+}
+
+// Graphs are owned by the grid they describe and go away with it
+const graphs = new WeakMap<TileInstance[][], ConnectivityGraph>();
+
+/**
+ * Returns the connectivity graph of a grid, building it on first use
+ */
+export function getConnectivity(grid: TileInstance[][]): ConnectivityGraph {
+  let graph = graphs.get(grid);
+  if (!graph) {
+    graph = new ConnectivityGraph(grid);
+    graphs.set(grid, graph);
+  }
+  return graph;
+}
+
+/**
+ * Updates the graph of a grid after tiles were replaced or turned in place
+ * (nothing to do if the grid has no graph yet, it's built up to date on first use)
+ */
+export function updateConnectivity(grid: TileInstance[][], positions: GridPosition[]): void {
+  graphs.get(grid)?.update(positions);
+}
+
+/**
+ * Gives a grid made from another one (a push) a graph derived from the other's,
+ * so only the cells that changed are recomputed
+ */
+export function deriveConnectivity(grid: TileInstance[][], newGrid: TileInstance[][], changed: GridPosition[]): void {
+  const graph = graphs.get(grid);
+  if (!graph) return;
+
+  const derived = new ConnectivityGraph(newGrid, graph);
+  derived.update(changed);
+  graphs.set(newGrid, derived);
+}
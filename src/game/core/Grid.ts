@@ -1,15 +1,18 @@
-import { Direction, TileType, ObjectType, type TileInstance, type PlotPosition, type Orientation } from "../types";
-import { GRID_COLS, GRID_ROWS, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, DECAY_WEIGHTS, DECAY_PROGRESSION } from "../config";
+import { Direction, GridShape, TileType, type TileInstance, type PlotPosition, type Orientation, type GridPosition } from "../types";
+import { GRID_OFFSET_X, TILE_SIZE, DECAY_WEIGHTS, RULES, getGridOffsetY } from "../config";
 import { TileDeck } from "./TileDeck";
+import { getRunRandom } from "./Random";
+import { deriveConnectivity } from "./Connectivity";
 
 /**
- * Generates a random decay value based on configured weights.
+ * Generates a random decay value based on the given weights.
+ * Used for the starting decay of generated tiles and for decay increases.
  */
-function getRandomDecay(): number {
-  const entries = Object.entries(DECAY_WEIGHTS) as [string, number][];
+export function getRandomDecay(decayWeights: Record<number, number>): number {
+  const entries = Object.entries(decayWeights) as [string, number][];
   const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
 
-  let random = Math.random() * totalWeight;
+  let random = getRunRandom().next() * totalWeight;
 
   for (const [decayStr, weight] of entries) {
     random -= weight;
@@ -22,134 +25,38 @@ function getRandomDecay(): number {
 }
 
 /**
- * Increases the decay level of a random tile in the grid.
- * The decay level will not exceed DECAY_PROGRESSION.MAX_DECAY.
- * Tiles with map objects (player, enemies, items, exits) are excluded from decay.
- *
- * @param grid The game grid
- * @param objectManager Optional MapObjectManager to check for objects on tiles
+ * Returns the positions of the row or column a plot pushes into.
+ * North/South pushes affect a column, East/West pushes affect a row.
  */
-export function increaseRandomDecay(grid: TileInstance[][], objectManager?: { getObjectsAtPosition(row: number, col: number): any[] }): void {
-  // Collect all tiles that can have their decay increased
-  const tiles: { row: number; col: number }[] = [];
-
-  for (let row = 0; row < grid.length; row++) {
-    for (let col = 0; col < grid[row].length; col++) {
-      const tile = grid[row][col];
-
-      // Skip tiles at max decay
-      if (!tile || tile.decay >= DECAY_PROGRESSION.MAX_DECAY) {
-        continue;
-      }
-
-      // Skip tiles with exit objects only
-      if (objectManager) {
-        const objectsAtPosition = objectManager.getObjectsAtPosition(row, col);
-        const hasExit = objectsAtPosition.some(obj => obj.type === ObjectType.Exit);
-        if (hasExit) {
-          continue;
-        }
-      }
-
-      tiles.push({ row, col });
-    }
-  }
-
-  // If there are no tiles that can decay further, return
-  if (tiles.length === 0) {
-    return;
-  }
-
-  // Pick a random tile and increase its decay
-  const randomIndex = Math.floor(Math.random() * tiles.length);
-  const { row, col } = tiles[randomIndex];
-  grid[row][col].decay = Math.min(grid[row][col].decay + 1, DECAY_PROGRESSION.MAX_DECAY);
-}
-
-/**
- * Increases decay on all tiles in the pushed row or column.
- * Each tile gets a random decay increase from 0 to maxIncrease.
- * Tiles with map objects are excluded from decay.
- *
- * @param grid The game grid
- * @param plot The plot position that was pushed (determines which row/column)
- * @param maxIncrease Maximum random decay value to add (0 to this value)
- * @param objectManager Optional MapObjectManager to check for objects on tiles
- */
-export function increaseDecayInPushedLine(
-  grid: TileInstance[][],
-  plot: PlotPosition,
-  maxIncrease: number,
-  objectManager?: { getObjectsAtPosition(row: number, col: number): any[] }
-): void {
-  // North/South pushes affect a column, East/West pushes affect a row
+export function getPushedLinePositions(grid: TileInstance[][], plot: PlotPosition): GridPosition[] {
+  const { rows, cols } = getGridSize(grid);
   const isColumn = plot.direction === Direction.North || plot.direction === Direction.South;
+  const positions: GridPosition[] = [];
 
   if (isColumn) {
-    // Apply decay to all tiles in the column
-    for (let row = 0; row < GRID_ROWS; row++) {
-      applyRandomDecayToTile(grid, row, plot.col, maxIncrease, objectManager);
+    for (let row = 0; row < rows; row++) {
+      positions.push({ row, col: plot.col });
     }
   } else {
-    // Apply decay to all tiles in the row
-    for (let col = 0; col < GRID_COLS; col++) {
-      applyRandomDecayToTile(grid, plot.row, col, maxIncrease, objectManager);
-    }
-  }
-}
-
-/**
- * Helper function to apply random decay to a single tile.
- *
- * @param grid The game grid
- * @param row Row of the tile
- * @param col Column of the tile
- * @param maxIncrease Maximum random decay value to add (0 to this value)
- * @param objectManager Optional MapObjectManager to check for objects on tiles
- */
-export function applyRandomDecayToTile(
-  grid: TileInstance[][],
-  row: number,
-  col: number,
-  maxIncrease: number,
-  objectManager?: { getObjectsAtPosition(row: number, col: number): any[] }
-): void {
-  const tile = grid[row][col];
-
-  if (!tile) {
-    return;
-  }
-
-  // Skip tiles with exit objects only
-  if (objectManager) {
-    const objectsAtPosition = objectManager.getObjectsAtPosition(row, col);
-    const hasExit = objectsAtPosition.some(obj => obj.type === ObjectType.Exit);
-    if (hasExit) {
-      return;
+    for (let col = 0; col < cols; col++) {
+      positions.push({ row: plot.row, col });
     }
   }
 
-  // Random decay increase from 0 to maxIncrease (inclusive)
-  const decayIncrease = Math.floor(Math.random() * (maxIncrease + 1));
-
-  if (decayIncrease === 0) {
-    return;
-  }
-
-  tile.decay = Math.min(tile.decay + decayIncrease, DECAY_PROGRESSION.MAX_DECAY);
+  return positions;
 }
 
 /**
  * Returns the appropriate L-shaped corner tile for grid corners.
  * Each corner has a specific orientation to form the grid perimeter.
  */
-function getCornerTile(row: number, col: number, rows: number, cols: number, isBossRoom: boolean = false): TileInstance | null {
+function getCornerTile(row: number, col: number, rows: number, cols: number, isBossRoom: boolean, decayWeights: Record<number, number>): TileInstance | null {
   const isTopLeft = row === 0 && col === 0;
   const isTopRight = row === 0 && col === cols - 1;
   const isBottomLeft = row === rows - 1 && col === 0;
   const isBottomRight = row === rows - 1 && col === cols - 1;
 
-  const decay = isBossRoom ? 0 : getRandomDecay();
+  const decay = isBossRoom ? 0 : getRandomDecay(decayWeights);
 
   if (isTopLeft) {
     return { type: TileType.L, orientation: 1 as Orientation, decay };
@@ -166,9 +73,10 @@ function getCornerTile(row: number, col: number, rows: number, cols: number, isB
 
 /**
  * Determines if a grid position is an immovable edge tile.
- * Immovable edges are at even positions on the grid perimeter (excluding corners).
+ * Immovable edges are at even positions on the grid perimeter (corners included).
+ * They are never pushed, so they also act as load-bearing anchors in the structural pass.
  */
-function isImmovableEdge(row: number, col: number, rows: number, cols: number): boolean {
+export function isImmovableEdge(row: number, col: number, rows: number, cols: number): boolean {
   const isTopOrBottomEdge = row === 0 || row === rows - 1;
   const isLeftOrRightEdge = col === 0 || col === cols - 1;
   const hasEvenCol = col % 2 === 0;
@@ -181,8 +89,8 @@ function isImmovableEdge(row: number, col: number, rows: number, cols: number):
  * Returns a T-shaped tile with the closed side facing outward for edge positions.
  * T tile orientations: 0=south closed, 1=west closed, 2=north closed, 3=east closed
  */
-function getEdgeTTile(row: number, col: number, rows: number, cols: number, isBossRoom: boolean = false): TileInstance {
-  const decay = isBossRoom ? 0 : getRandomDecay();
+function getEdgeTTile(row: number, col: number, rows: number, cols: number, isBossRoom: boolean, decayWeights: Record<number, number>): TileInstance {
+  const decay = isBossRoom ? 0 : getRandomDecay(decayWeights);
 
   // Determine which edge and set orientation so closed side faces outward
   if (row === 0) {
@@ -214,8 +122,9 @@ export interface ImmovableEdgeTile {
 /**
  * Returns all immovable edge tile positions on the grid perimeter.
  * Used for placing objects like exits at fixed edge locations.
+ * @param grid Optional grid, its void cells are left out
  */
-export function getImmovableEdgeTiles(rows: number, cols: number): ImmovableEdgeTile[] {
+export function getImmovableEdgeTiles(rows: number, cols: number, grid?: TileInstance[][]): ImmovableEdgeTile[] {
   const tiles: ImmovableEdgeTile[] = [];
   
   for (let c = 0; c < cols; c++) {
@@ -236,7 +145,7 @@ export function getImmovableEdgeTiles(rows: number, cols: number): ImmovableEdge
     }
   }
   
-  return tiles;
+  return grid ? tiles.filter(t => !isVoid(grid[t.row][t.col])) : tiles;
 }
 
 /**
@@ -255,9 +164,10 @@ export function getOppositeSide(side: EdgeSide): EdgeSide {
 /**
  * Returns a random tile position on the specified side of the grid.
  * Falls back to center position if no immovable edges exist on that side.
+ * @param grid Optional grid, its void cells are never picked
  */
-export function getRandomTileOnSide(side: EdgeSide, rows: number, cols: number): { row: number; col: number } {
-  const tiles = getImmovableEdgeTiles(rows, cols).filter(t => t.side === side);
+export function getRandomTileOnSide(side: EdgeSide, rows: number, cols: number, grid?: TileInstance[][]): { row: number; col: number } {
+  const tiles = getImmovableEdgeTiles(rows, cols, grid).filter(t => t.side === side);
   if (tiles.length === 0) {
     switch (side) {
       case "top": return { row: 0, col: Math.floor(cols / 2) };
@@ -266,7 +176,7 @@ export function getRandomTileOnSide(side: EdgeSide, rows: number, cols: number):
       case "right": return { row: Math.floor(rows / 2), col: cols - 1 };
     }
   }
-  const tile = tiles[Math.floor(Math.random() * tiles.length)];
+  const tile = getRunRandom().pick(tiles);
   return { row: tile.row, col: tile.col };
 }
 
@@ -282,37 +192,112 @@ function isInteriorImmovable(row: number, col: number, rows: number, cols: numbe
   return hasEvenRow && hasEvenCol && isInterior;
 }
 
+/**
+ * Returns true if a grid shape cuts a cell away.
+ * Cross cuts square corners a third of the shorter side wide, Ring cuts a hole that leaves
+ * a band two cells wide and Pillar cuts the middle cell.
+ */
+export function isCutByShape(shape: GridShape, row: number, col: number, rows: number, cols: number): boolean {
+  switch (shape) {
+    case GridShape.Rectangle:
+      return false;
+    case GridShape.Cross: {
+      const size = Math.floor((Math.min(rows, cols) - 1) / 3);
+      const isCornerRow = row < size || row >= rows - size;
+      const isCornerCol = col < size || col >= cols - size;
+      return isCornerRow && isCornerCol;
+    }
+    case GridShape.Ring:
+      return row >= 2 && row <= rows - 3 && col >= 2 && col <= cols - 3;
+    case GridShape.Pillar:
+      return row === Math.floor(rows / 2) && col === Math.floor(cols / 2);
+  }
+}
+
+/**
+ * Picks a grid shape based on the given weights.
+ */
+export function getRandomGridShape(shapeWeights: Record<GridShape, number>): GridShape {
+  const entries = Object.entries(shapeWeights) as [GridShape, number][];
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let random = getRunRandom().next() * totalWeight;
+  for (const [shape, weight] of entries) {
+    random -= weight;
+    if (random <= 0 && weight > 0) {
+      return shape;
+    }
+  }
+
+  return GridShape.Rectangle; // Fallback
+}
+
+/**
+ * Returns a cell that doesn't exist, used for the cells a grid shape cuts away.
+ */
+export function createVoidTile(): TileInstance {
+  return { type: TileType.Cross, orientation: 0, decay: 0, void: true };
+}
+
+/**
+ * Returns the dimensions of a grid.
+ * The grid size is a property of the level, so every module reads it from the grid itself.
+ */
+export function getGridSize(grid: TileInstance[][]): { rows: number; cols: number } {
+  return { rows: grid.length, cols: grid[0]?.length ?? 0 };
+}
+
 /**
  * Creates the initial game grid with fixed corners, immovable edges, and random interior tiles.
  * Ensures immovable tiles (edges and interior) are never CulDeSac tiles to maintain accessibility.
+ * Rows and cols must be odd and at least 3.
  * @param isBossRoom If true, all tiles are created with decay 0 (no decay in boss room)
+ * @param decayWeights Weights of the starting decay levels (from the level's biome)
+ * @param shape Shape of the grid, the cells it cuts away are void (see isCutByShape())
  */
-export function createGrid(rows: number, cols: number, deck: TileDeck, isBossRoom: boolean = false): TileInstance[][] {
+export function createGrid(
+  rows: number,
+  cols: number,
+  deck: TileDeck,
+  isBossRoom: boolean = false,
+  decayWeights: Record<number, number> = DECAY_WEIGHTS,
+  shape: GridShape = GridShape.Rectangle
+): TileInstance[][] {
+  if (rows < 3 || cols < 3 || rows % 2 === 0 || cols % 2 === 0) {
+    throw new Error(`Invalid grid size ${rows}x${cols}: rows and cols must be odd and at least 3`);
+  }
+
   const grid: TileInstance[][] = [];
   for (let r = 0; r < rows; r++) {
     const row: TileInstance[] = [];
     for (let c = 0; c < cols; c++) {
-      // Check if this position is one of the four corners (0,0), (0,6), (6,0), (6,6)
-      const cornerTile = getCornerTile(r, c, rows, cols, isBossRoom);
+      if (isCutByShape(shape, r, c, rows, cols)) {
+        row.push(createVoidTile());
+        continue;
+      }
+
+      // Check if this position is one of the four corners
+      const cornerTile = getCornerTile(r, c, rows, cols, isBossRoom, decayWeights);
       if (cornerTile) {
         // Corner position: place L-shaped tile with specific orientation
         row.push(cornerTile);
       } else if (isImmovableEdge(r, c, rows, cols)) {
         // Edge position at even row/col (but not corner): place T tile with closed side facing outward
-        row.push(getEdgeTTile(r, c, rows, cols, isBossRoom));
+        row.push(getEdgeTTile(r, c, rows, cols, isBossRoom, decayWeights));
       } else if (isInteriorImmovable(r, c, rows, cols)) {
         // Interior immovable position (even row AND even col, not on perimeter): draw random tile but never CulDeSac
+        // or LockedDoor, these pillars can't be pushed out of the way
         let tile = deck.draw();
-        while (tile.type === TileType.CulDeSac) {
+        while (tile.type === TileType.CulDeSac || tile.type === TileType.LockedDoor) {
           deck.discard(tile);
           tile = deck.draw();
         }
-        tile.decay = isBossRoom ? 0 : getRandomDecay();
+        tile.decay = isBossRoom ? 0 : getRandomDecay(decayWeights);
         row.push(tile);
       } else {
         // Movable position (odd row OR odd col): draw any random tile from deck
         const tile = deck.draw();
-        tile.decay = isBossRoom ? 0 : getRandomDecay();
+        tile.decay = isBossRoom ? 0 : getRandomDecay(decayWeights);
         row.push(tile);
       }
     }
@@ -324,6 +309,7 @@ export function createGrid(rows: number, cols: number, deck: TileDeck, isBossRoo
 /**
  * Returns all plot positions (tile insertion points) around the grid perimeter.
  * Plots are placed at odd-numbered positions outside the grid.
+ * On a shaped grid some of them lead into a void cell, see isPlotBlocked().
  */
 export function getPlotPositions(rows: number, cols: number): PlotPosition[] {
   const plots: PlotPosition[] = [];
@@ -346,77 +332,163 @@ export function getPlotPositions(rows: number, cols: number): PlotPosition[] {
 }
 
 /**
- * Pushes a new tile into the grid from a plot position, shifting all tiles in that row/column.
- * Returns the updated grid and the tile that was ejected from the opposite end.
+ * Returns true if a tile has collapsed into a pit.
+ */
+export function isPit(tile: TileInstance | undefined): boolean {
+  return tile?.collapsed === true;
+}
+
+/**
+ * Returns true if a cell doesn't exist (cut away by the grid shape or the level author).
+ */
+export function isVoid(tile: TileInstance | undefined): boolean {
+  return tile?.void === true;
+}
+
+/**
+ * Returns the pushed row or column in push order (from the plot to the far edge).
+ */
+function getLineInPushOrder(grid: TileInstance[][], plot: PlotPosition): GridPosition[] {
+  const positions = getPushedLinePositions(grid, plot);
+  return plot.direction === Direction.North || plot.direction === Direction.West ? positions.reverse() : positions;
+}
+
+/**
+ * Returns the positions whose tiles move when pushing from a plot, in push order.
+ * Without a pit this is the whole line. A push stops at the first pit: only the tiles
+ * in front of it move, and the last of them drops into the pit and fills it.
+ *
+ * A void cell is an edge of the grid: only the cells in front of the first void shift,
+ * and the last of them is pushed into the void and ejected like a tile pushed off the grid.
+ * Empty if the line starts with a void (there is no plot, see isPlotBlocked()).
+ */
+export function getShiftedPositions(grid: TileInstance[][], plot: PlotPosition): GridPosition[] {
+  const line = getLineInPushOrder(grid, plot);
+  const voidIndex = line.findIndex(({ row, col }) => isVoid(grid[row][col]));
+  const run = voidIndex === -1 ? line : line.slice(0, voidIndex);
+  const pitIndex = run.findIndex(({ row, col }) => isPit(grid[row][col]));
+  return pitIndex === -1 ? run : run.slice(0, pitIndex + 1);
+}
+
+/**
+ * Returns the first pit of the pushed line (seen from the plot), or null if there is none.
+ */
+export function getPitInPushedLine(grid: TileInstance[][], plot: PlotPosition): GridPosition | null {
+  const shifted = getShiftedPositions(grid, plot);
+  const last = shifted[shifted.length - 1];
+  return last && isPit(grid[last.row][last.col]) ? last : null;
+}
+
+/**
+ * Pushes a new tile into the grid from a plot position, shifting the tiles in that row/column.
+ * Returns the updated grid and the tile that was ejected from the opposite end (or into a void).
+ * If the line has a pit, the push stops there: the tile in front of the pit fills it,
+ * the pit is gone and nothing is ejected.
  */
 export function pushTileIntoGrid(
   grid: TileInstance[][],
   plot: PlotPosition,
   tile: TileInstance
-): { newGrid: TileInstance[][]; ejectedTile: TileInstance } {
-  const rows = grid.length;
-  const cols = grid[0].length;
+): { newGrid: TileInstance[][]; ejectedTile: TileInstance | null; filledPit: GridPosition | null } {
   const newGrid = grid.map(row => [...row]);
+  const shifted = getShiftedPositions(grid, plot);
+  const filledPit = getPitInPushedLine(grid, plot);
+
+  const last = shifted[shifted.length - 1];
+  const ejectedTile = filledPit ? null : grid[last.row][last.col];
 
-  let ejectedTile: TileInstance;
+  for (let i = shifted.length - 1; i > 0; i--) {
+    const to = shifted[i];
+    const from = shifted[i - 1];
+    newGrid[to.row][to.col] = grid[from.row][from.col];
+  }
+  newGrid[shifted[0].row][shifted[0].col] = tile;
 
+  // Only the shifted line changed, the rest of the connectivity graph carries over
+  deriveConnectivity(grid, newGrid, shifted);
+
+  return { newGrid, ejectedTile, filledPit };
+}
+
+/**
+ * Returns the grid position a tile pushed in from a plot ends up on
+ * (the edge tile next to the plot).
+ */
+export function getPushedTilePosition(plot: PlotPosition, rows: number, cols: number): GridPosition {
+  return {
+    row: Math.min(Math.max(plot.row, 0), rows - 1),
+    col: Math.min(Math.max(plot.col, 0), cols - 1),
+  };
+}
+
+/**
+ * Returns true if a tile a push from this plot would shift is fixed.
+ * Fixed tiles can never be shifted, so such plots are not available.
+ */
+function isPlotBlockedByFixedTile(grid: TileInstance[][], plot: PlotPosition): boolean {
+  return getShiftedPositions(grid, plot).some(({ row, col }) => grid[row][col].fixed);
+}
+
+/**
+ * Returns true if a plot is not available: it leads into a void cell (on a shaped grid
+ * the plot isn't there at all) or the push would shift a fixed tile.
+ */
+export function isPlotBlocked(grid: TileInstance[][], plot: PlotPosition): boolean {
+  const { rows, cols } = getGridSize(grid);
+  const { row, col } = getPushedTilePosition(plot, rows, cols);
+  return isVoid(grid[row][col]) || isPlotBlockedByFixedTile(grid, plot);
+}
+
+/**
+ * Returns the plot on the opposite side of the grid, which pushes the same line the other way.
+ */
+export function getOppositePlot(plot: PlotPosition, rows: number, cols: number): PlotPosition {
   switch (plot.direction) {
     case Direction.South:
-      ejectedTile = newGrid[rows - 1][plot.col];
-      for (let r = rows - 1; r > 0; r--) {
-        newGrid[r][plot.col] = newGrid[r - 1][plot.col];
-      }
-      newGrid[0][plot.col] = tile;
-      break;
-
+      return { row: rows, col: plot.col, direction: Direction.North };
     case Direction.North:
-      ejectedTile = newGrid[0][plot.col];
-      for (let r = 0; r < rows - 1; r++) {
-        newGrid[r][plot.col] = newGrid[r + 1][plot.col];
-      }
-      newGrid[rows - 1][plot.col] = tile;
-      break;
-
+      return { row: -1, col: plot.col, direction: Direction.South };
     case Direction.East:
-      ejectedTile = newGrid[plot.row][cols - 1];
-      for (let c = cols - 1; c > 0; c--) {
-        newGrid[plot.row][c] = newGrid[plot.row][c - 1];
-      }
-      newGrid[plot.row][0] = tile;
-      break;
-
+      return { row: plot.row, col: cols, direction: Direction.West };
     case Direction.West:
-      ejectedTile = newGrid[plot.row][0];
-      for (let c = 0; c < cols - 1; c++) {
-        newGrid[plot.row][c] = newGrid[plot.row][c + 1];
-      }
-      newGrid[plot.row][cols - 1] = tile;
-      break;
+      return { row: plot.row, col: -1, direction: Direction.East };
   }
+}
 
-  return { newGrid, ejectedTile };
+/**
+ * Returns true if pushing from a plot would undo the last push and RULES.FORBID_REVERSE_PUSH is on.
+ */
+export function isReversePush(grid: TileInstance[][], plot: PlotPosition, lastPushedPlot: PlotPosition | null): boolean {
+  if (!RULES.FORBID_REVERSE_PUSH || !lastPushedPlot) {
+    return false;
+  }
+  const { rows, cols } = getGridSize(grid);
+  const opposite = getOppositePlot(lastPushedPlot, rows, cols);
+  return plot.row === opposite.row && plot.col === opposite.col && plot.direction === opposite.direction;
 }
 
 /**
  * Converts a plot position to screen coordinates for rendering.
  * Plots are positioned just outside the grid boundary.
  */
-export function getPlotScreenPosition(plot: PlotPosition): { x: number; y: number } {
+export function getPlotScreenPosition(plot: PlotPosition, grid: TileInstance[][]): { x: number; y: number } {
+  const { rows, cols } = getGridSize(grid);
+  const offsetY = getGridOffsetY(rows);
   let x: number;
   let y: number;
 
   if (plot.row === -1) {
     x = GRID_OFFSET_X + plot.col * TILE_SIZE + TILE_SIZE / 2;
-    y = GRID_OFFSET_Y - TILE_SIZE / 2;
-  } else if (plot.row === GRID_ROWS) {
+    y = offsetY - TILE_SIZE / 2;
+  } else if (plot.row === rows) {
     x = GRID_OFFSET_X + plot.col * TILE_SIZE + TILE_SIZE / 2;
-    y = GRID_OFFSET_Y + GRID_ROWS * TILE_SIZE + TILE_SIZE / 2;
+    y = offsetY + rows * TILE_SIZE + TILE_SIZE / 2;
   } else if (plot.col === -1) {
     x = GRID_OFFSET_X - TILE_SIZE / 2;
-    y = GRID_OFFSET_Y + plot.row * TILE_SIZE + TILE_SIZE / 2;
+    y = offsetY + plot.row * TILE_SIZE + TILE_SIZE / 2;
   } else {
-    x = GRID_OFFSET_X + GRID_COLS * TILE_SIZE + TILE_SIZE / 2;
-    y = GRID_OFFSET_Y + plot.row * TILE_SIZE + TILE_SIZE / 2;
+    x = GRID_OFFSET_X + cols * TILE_SIZE + TILE_SIZE / 2;
+    y = offsetY + plot.row * TILE_SIZE + TILE_SIZE / 2;
   }
 
   return { x, y };
@@ -0,0 +1,97 @@
+import { logger } from "../utils/logger";
+
+/**
+ * Hashes a seed string into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * The same seed string always produces the same sequence of numbers
+ */
+export class Random {
+  readonly seed: string;
+  private state: number;
+
+  constructor(seed: string) {
+    this.seed = seed;
+    this.state = hashSeed(seed);
+  }
+
+  /**
+   * Returns a float in [0, 1), drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer in [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Returns a random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Shuffles an array in place (Fisher-Yates) and returns it
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+/**
+ * Creates a short human-readable seed string for a new run
+ * This is the only place where the non-deterministic Math.random() is used
+ */
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 0xffffffff).toString(36).toUpperCase();
+}
+
+// The RNG every gameplay decision in the current run draws from
+let runRandom = new Random(generateSeed());
+
+/**
+ * Starts a new random sequence for a run
+ * @param seed - Seed string to replay, or undefined to generate a fresh one
+ */
+export function setRunSeed(seed?: string): void {
+  runRandom = new Random(seed ?? generateSeed());
+  logger.info(`[Random] Run seed: ${runRandom.seed}`);
+}
+
+/**
+ * Returns the seed string of the current run
+ */
+export function getRunSeed(): string {
+  return runRandom.seed;
+}
+
+/**
+ * Returns the RNG of the current run
+ */
+export function getRunRandom(): Random {
+  return runRandom;
+}
@@ -1,4 +1,5 @@
-import { TileType, type EdgeMask, type Orientation } from "../types";
+import { Direction, TileType, type EdgeMask, type Orientation } from "../types";
+import { getRunRandom } from "./Random";
 
 const BASE_EDGES: Record<TileType, EdgeMask> = {
   [TileType.CulDeSac]: { north: true, east: false, south: false, west: false },
@@ -6,8 +7,15 @@ const BASE_EDGES: Record<TileType, EdgeMask> = {
   [TileType.L]: { north: true, east: true, south: false, west: false },
   [TileType.T]: { north: true, east: true, south: false, west: true },
   [TileType.Cross]: { north: true, east: true, south: true, west: true },
+  [TileType.OneWay]: { north: true, east: false, south: true, west: false },  // In through north, out through south
+  [TileType.Bridge]: { north: true, east: true, south: true, west: true },  // Paths cross, see canLeaveTile()
+  [TileType.LockedDoor]: { north: false, east: false, south: false, west: false },  // Closed until unlocked
 };
 
+const EDGE_KEYS: (keyof EdgeMask)[] = ["north", "east", "south", "west"];  // Indexed by Direction
+
+const SPECIAL_TILES: TileType[] = [TileType.OneWay, TileType.Bridge, TileType.LockedDoor];
+
 export function getBaseEdges(type: TileType): EdgeMask {
   return { ...BASE_EDGES[type] };
 }
@@ -29,6 +37,62 @@ export function getTileEdges(type: TileType, orientation: Orientation): EdgeMask
   return rotateEdges(getBaseEdges(type), orientation);
 }
 
+/**
+ * Returns true for tile types whose movement rules go beyond their openings
+ * (one-way gates, bridges and locked doors)
+ */
+export function isSpecialTile(type: TileType): boolean {
+  return SPECIAL_TILES.includes(type);
+}
+
+export function getOppositeDirection(direction: Direction): Direction {
+  return ((direction + 2) % 4) as Direction;
+}
+
+/**
+ * Returns the side a one-way gate lets movers in through
+ * (north at orientation 0, turning clockwise with the tile). They leave through the opposite side.
+ */
+export function getOneWayEntry(orientation: Orientation): Direction {
+  return ((Direction.North + orientation) % 4) as Direction;
+}
+
+/**
+ * Returns true if a mover on a tile may leave it through a side
+ * @param enteredThrough Side the mover came in through, null if it started on the tile.
+ *   A bridge only lets movers out on the side opposite to the one they came in.
+ */
+export function canLeaveTile(
+  type: TileType,
+  orientation: Orientation,
+  side: Direction,
+  enteredThrough: Direction | null = null
+): boolean {
+  if (!getTileEdges(type, orientation)[EDGE_KEYS[side]]) {
+    return false;
+  }
+
+  switch (type) {
+    case TileType.OneWay:
+      return side === getOppositeDirection(getOneWayEntry(orientation));
+    case TileType.Bridge:
+      return enteredThrough === null || side === getOppositeDirection(enteredThrough);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Returns true if a mover may step onto a tile through a side
+ */
+export function canEnterTile(type: TileType, orientation: Orientation, side: Direction): boolean {
+  if (!getTileEdges(type, orientation)[EDGE_KEYS[side]]) {
+    return false;
+  }
+
+  return type !== TileType.OneWay || side === getOneWayEntry(orientation);
+}
+
 export function rotateTile(orientation: Orientation): Orientation {
   return ((orientation + 1) % 4) as Orientation;
 }
@@ -39,11 +103,11 @@ export function rotateTileCounterClockwise(orientation: Orientation): Orientatio
 
 export function getRandomTileType(): TileType {
   const types = Object.values(TileType);
-  return types[Math.floor(Math.random() * types.length)];
+  return getRunRandom().pick(types);
 }
 
 export function getRandomOrientation(): Orientation {
-  return Math.floor(Math.random() * 4) as Orientation;
+  return getRunRandom().nextInt(4) as Orientation;
 }
 
 export function createRandomTile(): { type: TileType; orientation: Orientation } {
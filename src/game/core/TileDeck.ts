@@ -1,12 +1,13 @@
-import { TileType, type TileInstance } from "../types";
+import { TileType, type TileInstance, type DeckComposition } from "../types";
 import { getRandomOrientation } from "./Tile";
 import { TILE_WEIGHTS } from "../config";
+import { getRunRandom } from "./Random";
 
-function createRandomTileInstance(): TileInstance {
-  const entries = Object.entries(TILE_WEIGHTS) as [TileType, number][];
+function createRandomTileInstance(tileWeights: Record<TileType, number>): TileInstance {
+  const entries = Object.entries(tileWeights) as [TileType, number][];
   const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
 
-  let random = Math.random() * totalWeight;
+  let random = getRunRandom().next() * totalWeight;
 
   for (const [type, weight] of entries) {
     random -= weight;
@@ -26,22 +27,44 @@ function createRandomTileInstance(): TileInstance {
   };
 }
 
-function shuffle<T>(array: T[]): T[] {
-  const result = [...array];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
+/**
+ * Counts tiles by type
+ */
+export function countTiles(tiles: (TileInstance | null)[]): DeckComposition {
+  const composition: DeckComposition = {};
+  for (const tile of tiles) {
+    if (tile) {
+      composition[tile.type] = (composition[tile.type] ?? 0) + 1;
+    }
   }
-  return result;
+  return composition;
+}
+
+function shuffle<T>(array: T[]): T[] {
+  return getRunRandom().shuffle([...array]);
 }
 
 export class TileDeck {
   private drawPile: TileInstance[] = [];
   private discardPile: TileInstance[] = [];
+  private tileWeights: Record<TileType, number>;
 
-  constructor(totalTiles: number) {
-    for (let i = 0; i < totalTiles; i++) {
-      this.drawPile.push(createRandomTileInstance());
+  /**
+   * @param contents Number of random tiles, or an exact deck composition
+   * @param tileWeights Weights of the random tiles (and of tiles drawn from an empty deck)
+   */
+  constructor(contents: number | DeckComposition, tileWeights: Record<TileType, number> = TILE_WEIGHTS) {
+    this.tileWeights = tileWeights;
+    if (typeof contents === "number") {
+      for (let i = 0; i < contents; i++) {
+        this.drawPile.push(createRandomTileInstance(tileWeights));
+      }
+    } else {
+      for (const [type, count] of Object.entries(contents) as [TileType, number][]) {
+        for (let i = 0; i < count; i++) {
+          this.drawPile.push({ type, orientation: getRandomOrientation(), decay: 0 });
+        }
+      }
     }
     this.drawPile = shuffle(this.drawPile);
   }
@@ -53,7 +76,7 @@ export class TileDeck {
 
     const tile = this.drawPile.pop();
     if (!tile) {
-      return createRandomTileInstance();
+      return createRandomTileInstance(this.tileWeights);
     }
     return tile;
   }
@@ -65,6 +88,17 @@ export class TileDeck {
     return this.drawPile.length > 0 ? this.drawPile[this.drawPile.length - 1] : null;
   }
 
+  /**
+   * Returns up to `count` tiles from the top of the draw pile without drawing them
+   * The first tile is the next one drawn
+   */
+  peekMany(count: number): TileInstance[] {
+    if (this.drawPile.length === 0) {
+      this.reshuffleDiscard();
+    }
+    return this.drawPile.slice(Math.max(0, this.drawPile.length - count)).reverse();
+  }
+
   discard(tile: TileInstance): void {
     this.discardPile.push(tile);
   }
@@ -75,6 +109,18 @@ export class TileDeck {
     this.discardPile = [];
   }
 
+  getDrawPileComposition(): DeckComposition {
+    return countTiles(this.drawPile);
+  }
+
+  getDiscardPileComposition(): DeckComposition {
+    return countTiles(this.discardPile);
+  }
+
+  getTiles(): TileInstance[] {
+    return [...this.drawPile, ...this.discardPile];
+  }
+
   getDrawPileCount(): number {
     return this.drawPile.length;
   }
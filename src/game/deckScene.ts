@@ -0,0 +1,177 @@
+import { k } from "../kaplayCtx";
+import { loadAssets } from "./assets";
+import { CursorManager } from "./systems/CursorManager";
+import { TileType, type DeckComposition } from "./types";
+import { DECK_BUILDING } from "./config";
+import { getDeckSize, getUpgradedType, getTileOffers, addTileToDeck, removeTileFromDeck, canRemoveTile, upgradeTileInDeck } from "./systems/DeckBuilder";
+import { drawDeckColumn } from "./render/DeckRenderer";
+import { addTileMarker, getTileFrame } from "./render/UIRenderer";
+import { getRunDeck, setRunDeck } from "./mainScene";
+
+interface DeckButton {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  isEnabled: boolean;
+  onClick: () => void;
+}
+
+const DECK_X = 20;
+const DECK_Y = 40;
+const ROW_HEIGHT = 30;  // Matches the rows of drawDeckColumn
+const OFFERS_X = 440;
+const BUTTON_HEIGHT = 20;
+const BUTTON_SPACING = 28;
+
+/**
+ * Deck building screen shown between floors
+ * The player may add an offered tile, remove a tile or upgrade a tile, then continues to the next floor
+ */
+export function createDeckScene(): void {
+  k.scene("deck", async () => {
+    await loadAssets();
+
+    const cursorManager = new CursorManager();
+    cursorManager.initialize();
+
+    let deck: DeckComposition = getRunDeck();
+    let changesLeft: number = DECK_BUILDING.CHANGES_PER_FLOOR;
+    const offers = getTileOffers();
+
+    function applyChange(newDeck: DeckComposition): void {
+      if (changesLeft <= 0 || newDeck === deck) return;
+      deck = newDeck;
+      changesLeft--;
+    }
+
+    function getButtons(): DeckButton[] {
+      const canChange = changesLeft > 0;
+      const rowButtons = Object.values(TileType).flatMap((type, index): DeckButton[] => {
+        const y = DECK_Y + 24 + index * ROW_HEIGHT + (ROW_HEIGHT - BUTTON_HEIGHT) / 2;
+        const upgraded = getUpgradedType(type);
+        return [
+          {
+            label: "Remove",
+            x: 200,
+            y,
+            width: 70,
+            isEnabled: canChange && canRemoveTile(deck, type),
+            onClick: () => applyChange(removeTileFromDeck(deck, type)),
+          },
+          {
+            label: upgraded ? `-> ${upgraded}` : "Max",
+            x: 280,
+            y,
+            width: 120,
+            isEnabled: canChange && upgraded !== null && (deck[type] ?? 0) > 0,
+            onClick: () => applyChange(upgradeTileInDeck(deck, type)),
+          },
+        ];
+      });
+
+      const offerButtons = offers.map((type, index): DeckButton => ({
+        label: `Add ${type}`,
+        x: OFFERS_X + 30,
+        y: DECK_Y + 24 + index * BUTTON_SPACING,
+        width: 140,
+        isEnabled: canChange,
+        onClick: () => applyChange(addTileToDeck(deck, type)),
+      }));
+
+      return [
+        ...rowButtons,
+        ...offerButtons,
+        {
+          label: "Continue",
+          x: OFFERS_X,
+          y: 300,
+          width: 170,
+          isEnabled: true,
+          onClick: () => {
+            setRunDeck(deck);
+            k.go("main");
+          },
+        },
+      ];
+    }
+
+    function render(): void {
+      k.destroyAll("deckUI");
+
+      k.add([
+        k.text("Between floors: change your deck", { font: "saga", size: 16 }),
+        k.pos(DECK_X, 10),
+        k.color(255, 255, 255),
+        k.z(2001),
+        "deckUI",
+      ]);
+
+      drawDeckColumn("Your deck", deck, getDeckSize(deck), DECK_X, DECK_Y, "deckUI");
+
+      k.add([
+        k.text("Add a tile", { font: "saga", size: 16 }),
+        k.pos(OFFERS_X, DECK_Y),
+        k.color(255, 215, 0),
+        k.z(2001),
+        "deckUI",
+      ]);
+      offers.forEach((type, index) => {
+        const tileObj = k.add([
+          k.sprite("tiles", { frame: getTileFrame(type, 0) }),
+          k.pos(OFFERS_X + 12, DECK_Y + 24 + index * BUTTON_SPACING + BUTTON_HEIGHT / 2),
+          k.anchor("center"),
+          k.scale(0.75),
+          k.z(2001),
+          "deckUI",
+        ]);
+        addTileMarker(tileObj, type, 0);
+      });
+
+      for (const button of getButtons()) {
+        k.add([
+          k.rect(button.width, BUTTON_HEIGHT),
+          k.pos(button.x, button.y),
+          k.color(button.isEnabled ? 60 : 30, button.isEnabled ? 60 : 30, button.isEnabled ? 60 : 30),
+          k.z(2000),
+          "deckUI",
+        ]);
+        k.add([
+          k.text(button.label, { font: "saga", size: 16 }),
+          k.pos(button.x + 6, button.y + 2),
+          k.color(button.isEnabled ? 255 : 110, button.isEnabled ? 255 : 110, button.isEnabled ? 255 : 110),
+          k.z(2001),
+          "deckUI",
+        ]);
+      }
+
+      k.add([
+        k.text(
+          changesLeft > 0
+            ? `Changes left: ${changesLeft} (minimum deck size ${DECK_BUILDING.MIN_SIZE})`
+            : "Deck changed",
+          { font: "saga", size: 16 }
+        ),
+        k.pos(DECK_X, 300),
+        k.color(200, 200, 200),
+        k.z(2001),
+        "deckUI",
+      ]);
+    }
+
+    render();
+
+    k.onMousePress("left", () => {
+      const mousePos = k.mousePos();
+      const button = getButtons().find(b =>
+        b.isEnabled &&
+        mousePos.x >= b.x && mousePos.x <= b.x + b.width &&
+        mousePos.y >= b.y && mousePos.y <= b.y + BUTTON_HEIGHT
+      );
+      if (button) {
+        button.onClick();
+        render();
+      }
+    });
+  });
+}
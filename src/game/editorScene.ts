@@ -0,0 +1,430 @@
+import { k } from "../kaplayCtx";
+import { loadAssets, loadEnemyDatabase, enemyDatabase, loadItemDatabase, itemDatabase } from "./assets";
+import { CursorManager } from "./systems/CursorManager";
+import { MapObjectManager } from "./systems/MapObjectManager";
+import { parseLevelDefinition, populateLevelObjects, type LevelDefinition, type LevelTileDefinition } from "./systems/LevelLoader";
+import { TileType, type GridPosition, type TileInstance } from "./types";
+import { TILE_SIZE, GRID_OFFSET_X, GRID_ROWS, GRID_COLS, DECAY_PROGRESSION, getGridOffsetY } from "./config";
+import { drawGridWithOverlay, drawDecayOverlay, clearGrid } from "./render/GridRenderer";
+import { drawMapObjects, clearMapObjects } from "./render/MapObjectRenderer";
+import { screenToGrid } from "./systems/PositionUtils";
+import { rotateTile, rotateTileCounterClockwise } from "./core/Tile";
+import { playTestLevel } from "./mainScene";
+
+const EditorTool = {
+  Type: "Type",
+  Rotate: "Rotate",
+  Decay: "Decay",
+  Fixed: "Fixed",
+  Player: "Player",
+  Exit: "Exit",
+  Enemy: "Enemy",
+  Item: "Item",
+  Bomb: "Bomb",
+  Erase: "Erase",
+} as const;
+
+type EditorTool = (typeof EditorTool)[keyof typeof EditorTool];
+
+interface EditorButton {
+  label: string;
+  x: number;
+  y: number;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+const TILE_TYPES = Object.values(TileType);
+const MAX_ROWS = 9;   // Taller grids don't fit on screen with their plots
+const MAX_COLS = 11;  // Wider grids run into the editor panel
+const PANEL_X = 420;
+const BUTTON_WIDTH = 100;
+const BUTTON_HEIGHT = 20;
+const BUTTON_SPACING = 24;
+
+// Level being edited - persists while play-testing
+let editorLevel: LevelDefinition | null = null;
+
+function createEmptyLevel(rows: number, cols: number): LevelDefinition {
+  const tiles: LevelTileDefinition[][] = [];
+  for (let row = 0; row < rows; row++) {
+    tiles.push(Array.from({ length: cols }, () => ({ type: TileType.Cross, orientation: 0 as const })));
+  }
+  const middle = Math.floor(rows / 2);
+  return {
+    name: "Untitled",
+    tiles,
+    player: { row: middle, col: 0 },
+    exit: { row: middle, col: cols - 1 },
+    enemies: [],
+    items: [],
+    bombs: [],
+  };
+}
+
+/**
+ * Grows or shrinks a level to the given size
+ * Kept tiles stay in place, new tiles are crosses and objects that fall off the grid are removed
+ */
+function resizeLevel(level: LevelDefinition, rows: number, cols: number): LevelDefinition {
+  const tiles: LevelTileDefinition[][] = [];
+  for (let row = 0; row < rows; row++) {
+    tiles.push(Array.from({ length: cols }, (_, col) =>
+      level.tiles[row]?.[col] ?? { type: TileType.Cross, orientation: 0 as const }
+    ));
+  }
+  const inBounds = (pos: GridPosition) => pos.row < rows && pos.col < cols;
+  return {
+    ...level,
+    tiles,
+    player: {
+      row: Math.min(level.player.row, rows - 1),
+      col: Math.min(level.player.col, cols - 1),
+    },
+    exit: level.exit && inBounds(level.exit) ? level.exit : undefined,
+    enemies: (level.enemies ?? []).filter(inBounds),
+    items: (level.items ?? []).filter(inBounds),
+    bombs: (level.bombs ?? []).filter(inBounds),
+  };
+}
+
+/**
+ * Removes enemies, items and bombs at a position
+ */
+function clearObjectsAt(level: LevelDefinition, pos: GridPosition): void {
+  const elsewhere = (other: GridPosition) => other.row !== pos.row || other.col !== pos.col;
+  level.enemies = (level.enemies ?? []).filter(elsewhere);
+  level.items = (level.items ?? []).filter(elsewhere);
+  level.bombs = (level.bombs ?? []).filter(elsewhere);
+}
+
+/**
+ * Offers the level as a JSON file download
+ */
+function downloadLevel(level: LevelDefinition): void {
+  const blob = new Blob([JSON.stringify(level, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${level.name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "level"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Lets the user pick a JSON file and passes its parsed content on
+ */
+function uploadLevel(onLoad: (data: unknown) => void, onError: (error: unknown) => void): void {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".json,application/json";
+  input.onchange = async () => {
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      onLoad(JSON.parse(await file.text()));
+    } catch (error) {
+      onError(error);
+    }
+  };
+  input.click();
+}
+
+export function createEditorScene(): void {
+  k.scene("editor", async () => {
+    await loadAssets();
+    await loadEnemyDatabase();
+    await loadItemDatabase();
+
+    const cursorManager = new CursorManager();
+    cursorManager.initialize();
+
+    const enemyIds = enemyDatabase.getAllEnemyIds();
+    const itemIds = itemDatabase.getAllItems().map(item => item.id);
+
+    let level = editorLevel ?? createEmptyLevel(GRID_ROWS, GRID_COLS);
+    editorLevel = level;
+    let tool: EditorTool = EditorTool.Type;
+    let enemyIndex = 0;
+    let itemIndex = 0;
+    let message = "";
+
+    const getRows = () => level.tiles.length;
+    const getCols = () => level.tiles[0].length;
+    const getOffsetY = () => getGridOffsetY(getRows());
+    const getGrid = (): TileInstance[][] => level.tiles.map(row => row.map(tile => ({ ...tile, decay: tile.decay ?? 0 })));
+
+    function setLevel(newLevel: LevelDefinition): void {
+      level = newLevel;
+      editorLevel = newLevel;
+    }
+
+    /**
+     * Validates the level the same way level files are validated
+     * Returns null (and shows the problem) if the level is invalid
+     */
+    function getValidatedLevel(): LevelDefinition | null {
+      try {
+        return parseLevelDefinition(JSON.parse(JSON.stringify(level)), { enemies: enemyDatabase, items: itemDatabase });
+      } catch (error) {
+        message = error instanceof Error ? error.message : String(error);
+        render();
+        return null;
+      }
+    }
+
+    function selectTool(newTool: EditorTool): void {
+      // Selecting the enemy or item tool again cycles through the database
+      if (tool === newTool && newTool === EditorTool.Enemy && enemyIds.length > 0) {
+        enemyIndex = (enemyIndex + 1) % enemyIds.length;
+      } else if (tool === newTool && newTool === EditorTool.Item && itemIds.length > 0) {
+        itemIndex = (itemIndex + 1) % itemIds.length;
+      }
+      tool = newTool;
+      message = "";
+    }
+
+    function getButtons(): EditorButton[] {
+      const tools: EditorButton[] = Object.values(EditorTool).map((t, index) => ({
+        label: t,
+        x: PANEL_X,
+        y: 40 + index * BUTTON_SPACING,
+        isSelected: t === tool,
+        onClick: () => selectTool(t),
+      }));
+
+      const actions: [string, () => void][] = [
+        ["Rows +", () => setLevel(resizeLevel(level, Math.min(getRows() + 2, MAX_ROWS), getCols()))],
+        ["Rows -", () => setLevel(resizeLevel(level, Math.max(getRows() - 2, 3), getCols()))],
+        ["Cols +", () => setLevel(resizeLevel(level, getRows(), Math.min(getCols() + 2, MAX_COLS)))],
+        ["Cols -", () => setLevel(resizeLevel(level, getRows(), Math.max(getCols() - 2, 3)))],
+        ["Play", () => {
+          const validated = getValidatedLevel();
+          if (validated) playTestLevel(validated);
+        }],
+        ["Export", () => {
+          const validated = getValidatedLevel();
+          if (validated) {
+            downloadLevel(validated);
+            message = "Level exported";
+          }
+        }],
+        ["Import", () => uploadLevel(
+          data => {
+            const imported = parseLevelDefinition(data, { enemies: enemyDatabase, items: itemDatabase });
+            if (imported.tiles.length > MAX_ROWS || imported.tiles[0].length > MAX_COLS) {
+              throw new Error(`Level is larger than ${MAX_ROWS}x${MAX_COLS}`);
+            }
+            setLevel(imported);
+            message = `Imported ${imported.name}`;
+            render();
+          },
+          error => {
+            message = error instanceof Error ? error.message : String(error);
+            render();
+          }
+        )],
+        ["Clear", () => setLevel(createEmptyLevel(getRows(), getCols()))],
+        ["Back", () => k.go("title")],
+      ];
+
+      return [
+        ...tools,
+        ...actions.map(([label, onClick], index) => ({
+          label,
+          x: PANEL_X + BUTTON_WIDTH + 10,
+          y: 40 + index * BUTTON_SPACING,
+          isSelected: false,
+          onClick,
+        })),
+      ];
+    }
+
+    function render(): void {
+      clearGrid();
+      clearMapObjects();
+      k.destroyAll("editorUI");
+
+      const rows = getRows();
+      const cols = getCols();
+      const offsetY = getOffsetY();
+      const grid = getGrid();
+
+      drawGridWithOverlay(grid, null, GRID_OFFSET_X, offsetY, rows, cols, TILE_SIZE, 640, 360, false, new Set());
+      drawDecayOverlay(grid, GRID_OFFSET_X, offsetY, TILE_SIZE, false, new Set());
+
+      // Outline fixed tiles
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          if (!level.tiles[row][col].fixed) continue;
+          k.add([
+            k.rect(TILE_SIZE - 2, TILE_SIZE - 2, { fill: false }),
+            k.pos(GRID_OFFSET_X + col * TILE_SIZE + 1, offsetY + row * TILE_SIZE + 1),
+            k.outline(2, k.rgb(255, 215, 0)),
+            k.z(5),
+            "editorUI",
+          ]);
+        }
+      }
+
+      // Build real map objects so they render exactly like in the game
+      const objectManager = new MapObjectManager(enemyDatabase, itemDatabase);
+      populateLevelObjects(level, objectManager);
+      const mapObjects = objectManager.getAllObjects();
+      mapObjects.forEach(obj => obj.isInStartLevelSequence = false);
+      drawMapObjects(mapObjects, GRID_OFFSET_X, offsetY, TILE_SIZE, false, new Set());
+
+      // Header
+      k.add([
+        k.text(`Editor: ${level.name} ${rows}x${cols}`, { font: "saga", size: 16 }),
+        k.pos(PANEL_X, 10),
+        k.color(255, 215, 0),
+        k.z(101),
+        "editorUI",
+      ]);
+
+      for (const button of getButtons()) {
+        k.add([
+          k.rect(BUTTON_WIDTH, BUTTON_HEIGHT),
+          k.pos(button.x, button.y),
+          k.color(button.isSelected ? 120 : 60, button.isSelected ? 100 : 60, button.isSelected ? 40 : 60),
+          k.z(100),
+          "editorUI",
+        ]);
+        k.add([
+          k.text(button.label, { font: "saga", size: 16 }),
+          k.pos(button.x + 6, button.y + 2),
+          k.color(255, 255, 255),
+          k.z(101),
+          "editorUI",
+        ]);
+      }
+
+      // Brush details and help for the selected tool
+      const details: Record<EditorTool, string> = {
+        Type: "L/R click: next/previous tile type",
+        Rotate: "L/R click: rotate clockwise/counter",
+        Decay: "L/R click: more/less decay",
+        Fixed: "L click: toggle fixed tile, R click: toggle void cell",
+        Player: "Click: move player start",
+        Exit: "L click: place exit, R click: remove",
+        Enemy: `Enemy: ${enemyIds[enemyIndex] ?? "none"} (click tool to cycle)`,
+        Item: `Item: ${itemIds[itemIndex] ?? "none"} (click tool to cycle)`,
+        Bomb: "L click: place bomb, R click: remove",
+        Erase: "Click: remove exit, enemies, items, bombs",
+      };
+
+      k.add([
+        k.text(details[tool], { font: "saga", size: 16, width: 640 - PANEL_X - 10 }),
+        k.pos(PANEL_X, 290),
+        k.color(200, 200, 200),
+        k.z(101),
+        "editorUI",
+      ]);
+
+      if (message) {
+        k.add([
+          k.text(message, { font: "saga", size: 16, width: 640 - PANEL_X - 10 }),
+          k.pos(PANEL_X, 325),
+          k.color(255, 120, 120),
+          k.z(101),
+          "editorUI",
+        ]);
+      }
+    }
+
+    /**
+     * Applies the selected tool to a grid cell
+     * @param isPrimary True for the left mouse button, false for the right one
+     */
+    function applyTool(pos: GridPosition, isPrimary: boolean): void {
+      const tile = level.tiles[pos.row][pos.col];
+      const isAt = (other?: GridPosition) => other?.row === pos.row && other?.col === pos.col;
+
+      switch (tool) {
+        case EditorTool.Type: {
+          const step = isPrimary ? 1 : TILE_TYPES.length - 1;
+          tile.type = TILE_TYPES[(TILE_TYPES.indexOf(tile.type) + step) % TILE_TYPES.length];
+          break;
+        }
+        case EditorTool.Rotate:
+          tile.orientation = isPrimary ? rotateTile(tile.orientation) : rotateTileCounterClockwise(tile.orientation);
+          break;
+        case EditorTool.Decay: {
+          const decay = (tile.decay ?? 0) + (isPrimary ? 1 : -1);
+          tile.decay = Math.max(0, Math.min(DECAY_PROGRESSION.MAX_DECAY, decay));
+          break;
+        }
+        case EditorTool.Fixed:
+          if (isPrimary) {
+            tile.fixed = !tile.void && !tile.fixed || undefined;
+          } else {
+            // Void cells shape the grid, they can't be fixed or hold a feature
+            tile.void = !tile.void || undefined;
+            delete tile.fixed;
+            delete tile.feature;
+            delete tile.padId;
+          }
+          break;
+        case EditorTool.Player:
+          level.player = { ...pos };
+          break;
+        case EditorTool.Exit:
+          if (isPrimary) {
+            level.exit = { ...pos };
+          } else if (isAt(level.exit)) {
+            level.exit = undefined;
+          }
+          break;
+        case EditorTool.Enemy:
+        case EditorTool.Item:
+        case EditorTool.Bomb:
+          clearObjectsAt(level, pos);
+          if (!isPrimary) break;
+          if (tool === EditorTool.Enemy && enemyIds.length > 0) {
+            level.enemies = [...(level.enemies ?? []), { ...pos, enemyId: enemyIds[enemyIndex] }];
+          } else if (tool === EditorTool.Item && itemIds.length > 0) {
+            level.items = [...(level.items ?? []), { ...pos, itemId: itemIds[itemIndex] }];
+          } else if (tool === EditorTool.Bomb) {
+            level.bombs = [...(level.bombs ?? []), { ...pos }];
+          }
+          break;
+        case EditorTool.Erase:
+          clearObjectsAt(level, pos);
+          if (isAt(level.exit)) {
+            level.exit = undefined;
+          }
+          break;
+      }
+      message = "";
+    }
+
+    function handleMousePress(isPrimary: boolean): void {
+      const mousePos = k.mousePos();
+
+      if (isPrimary) {
+        const button = getButtons().find(b =>
+          mousePos.x >= b.x && mousePos.x <= b.x + BUTTON_WIDTH &&
+          mousePos.y >= b.y && mousePos.y <= b.y + BUTTON_HEIGHT
+        );
+        if (button) {
+          button.onClick();
+          render();
+          return;
+        }
+      }
+
+      const pos = screenToGrid(mousePos.x, mousePos.y, getGrid());
+      if (pos) {
+        applyTool(pos, isPrimary);
+        render();
+      }
+    }
+
+    render();
+
+    k.onMousePress("left", () => handleMousePress(true));
+    k.onMousePress("right", () => handleMousePress(false));
+    k.onKeyPress("escape", () => k.go("title"));
+  });
+}
@@ -10,13 +10,20 @@ import {
   drawGridWithOverlay,
   clearGrid,
   drawDecayOverlay,
+  drawPushPreviewTiles,
+  drawDoorways,
+  drawRouteHint,
 } from "./render/GridRenderer";
 import {
   drawMapObjects,
   clearMapObjects,
+  drawPushPreviewObjects,
 } from "./render/MapObjectRenderer";
 import {
   drawPreviewTile,
+  drawHand,
+  getPreviewPosition,
+  getUIX,
   drawDebugInfo,
   drawLevelInfo,
   drawStateMachineInfo,
@@ -27,16 +34,25 @@ import {
 } from "./render/UIRenderer";
 import { getInventoryItemAtPosition, getEquipmentItemAtPosition, getEquipmentSlotAtPosition, screenToGrid } from "./systems/PositionUtils";
 import { equipItemFromInventory, unequipItemToInventory, applyEquipmentBonuses, getOccupiedSlots, isSlotBlocked } from "./systems/EquipmentManager";
-import { TurnOwner, PlayerPhase, ObjectType, AIType, TileType, type PlotPosition, type GridPosition, type MapObject, type TileInstance } from "./types";
-import { findReachableTiles, type ReachableTile } from "./systems/Pathfinding";
+import { TurnOwner, PlayerPhase, ObjectType, AIType, SpawnStyle, TileType, DecayAction, Direction, type PlotPosition, type GridPosition, type MapObject, type DecayEvent, type TileAction } from "./types";
+import { findReachableTiles, getCostProfile, type ReachableTile } from "./systems/Pathfinding";
 import { spawnScrollingText } from "./systems/ScrollingCombatText";
-import { TILE_SIZE, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, PREVIEW_X, PREVIEW_Y, DECAY_PROGRESSION, getFallChance } from "./config";
+import { TILE_SIZE, GRID_OFFSET_X, HAND, COLORS, FLOOR, HINT, getFallChance, getGridOffsetY } from "./config";
 import { calculateAllEnemyMoves, type EnemyMove } from "./systems/EnemyAI";
+import { applyTileAction, canTakeTileAction } from "./systems/EnemyTactics";
 import { executeCombat, checkForCombat } from "./systems/Combat";
-import { isWallBlocking, openWall } from "./systems/WallBump";
-import { applyRandomDecayToTile } from "./core/Grid";
+import { getWallDirection, isWallBlocking, openWall, unlockDoor } from "./systems/WallBump";
+import { getGridSize, isPit, isVoid } from "./core/Grid";
+import { getConnectivity, updateConnectivity } from "./core/Connectivity";
+import { applyDecay } from "./systems/DecayEngine";
+import { runStructuralPass } from "./systems/Structure";
+import { getCurrentBoard, getDoorwayAt, releaseFollowers, switchBoard } from "./systems/Floor";
+import { clearRubble, getEnterDamage, getLinkedPad, getPathCost, isBlockedByFeature } from "./systems/SurfaceFeatures";
 import { fallThroughFloor, enterBossRoom, showGameOver, resetGlobalLevel } from "./mainScene";
-import { getTileEdges } from "./core/Tile";
+import { canLeaveTile, getTileEdges } from "./core/Tile";
+import { getRunRandom, getRunSeed } from "./core/Random";
+import { countTiles } from "./core/TileDeck";
+import { drawDeckView, clearDeckView } from "./render/DeckRenderer";
 
 let turnManager: TurnManager;
 let clickManager: ClickManager;
@@ -62,6 +78,16 @@ let contextMenu: ContextMenuState = {
   options: [],
 };
 
+// Deck view overlay (draw and discard piles)
+let isDeckViewVisible = false;
+
+/**
+ * Returns the vertical screen offset of the current level's grid
+ */
+function getCurrentGridOffsetY(): number {
+  return getGridOffsetY(getGridSize(turnManager.getState().grid).rows);
+}
+
 /**
  * Plays a gray magic effect on the specified tiles (for repair items like cement and bricks)
  * Creates expanding/fading gray circles on each affected tile
@@ -71,7 +97,7 @@ function playRepairEffect(tiles: GridPosition[]): void {
 
   for (const pos of tiles) {
     const x = GRID_OFFSET_X + pos.col * TILE_SIZE + TILE_SIZE / 2;
-    const y = GRID_OFFSET_Y + pos.row * TILE_SIZE + TILE_SIZE / 2;
+    const y = getCurrentGridOffsetY() + pos.row * TILE_SIZE + TILE_SIZE / 2;
 
     // Create gray magic effect circle
     const effect = k.add([
@@ -109,6 +135,207 @@ function playRepairEffect(tiles: GridPosition[]): void {
   }
 }
 
+/**
+ * Plays a dust puff on every tile that just decayed, with the amount of decay added
+ * Darker puffs mean more decay
+ */
+function playDecayEffect(events: DecayEvent[]): void {
+  const EFFECT_DURATION = 0.5;
+
+  for (const { position, from, to } of events) {
+    const x = GRID_OFFSET_X + position.col * TILE_SIZE + TILE_SIZE / 2;
+    const y = getCurrentGridOffsetY() + position.row * TILE_SIZE + TILE_SIZE / 2;
+    const shade = Math.max(40, 140 - (to - from) * 40);
+
+    // Create brown dust circle
+    const effect = k.add([
+      k.circle(TILE_SIZE / 2),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.color(shade, shade * 0.75, shade * 0.5),
+      k.opacity(0.7),
+      k.scale(0.2),
+      k.z(150),
+      "decayEffect",
+    ]);
+
+    k.tween(
+      0.2,
+      1,
+      EFFECT_DURATION,
+      (val) => {
+        effect.scale = k.vec2(val, val);
+      },
+      k.easings.easeOutQuad
+    );
+
+    k.tween(
+      0.7,
+      0,
+      EFFECT_DURATION,
+      (val) => { effect.opacity = val; },
+      k.easings.easeOutQuad
+    ).onEnd(() => {
+      k.destroy(effect);
+    });
+
+    spawnScrollingText({
+      text: `+${to - from}`,
+      x,
+      y,
+      color: { r: 160, g: 120, b: 80 },
+      fontSize: 12,
+      behavior: "fade",
+    });
+  }
+}
+
+/**
+ * Plays a purple flash on the pads a mob teleported between
+ */
+function playTeleportEffect(positions: GridPosition[]): void {
+  const EFFECT_DURATION = 0.4;
+
+  for (const pos of positions) {
+    const x = GRID_OFFSET_X + pos.col * TILE_SIZE + TILE_SIZE / 2;
+    const y = getCurrentGridOffsetY() + pos.row * TILE_SIZE + TILE_SIZE / 2;
+
+    const effect = k.add([
+      k.circle(TILE_SIZE / 2),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.color(...COLORS.teleport),
+      k.opacity(0.8),
+      k.z(150),
+      "teleportEffect",
+    ]);
+
+    k.tween(
+      0.8,
+      0,
+      EFFECT_DURATION,
+      (val) => { effect.opacity = val; },
+      k.easings.easeOutQuad
+    ).onEnd(() => {
+      k.destroy(effect);
+    });
+  }
+}
+
+/**
+ * Hurts a mob that just stepped onto a harmful feature (spikes)
+ * @returns true if the mob died
+ */
+function applyEnterDamage(mob: MapObject): boolean {
+  const tile = turnManager.getState().grid[mob.gridPosition.row][mob.gridPosition.col];
+  const damage = getEnterDamage(tile, mob);
+  if (damage <= 0 || mob.currentHP === undefined) {
+    return false;
+  }
+
+  mob.currentHP = Math.max(0, mob.currentHP - damage);
+  spawnScrollingText({
+    text: `${damage}`,
+    x: GRID_OFFSET_X + mob.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + mob.spriteOffset.x,
+    y: getCurrentGridOffsetY() + mob.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + mob.spriteOffset.y,
+    color: { r: 200, g: 200, b: 220 },
+    fontSize: 16,
+    behavior: "fade",
+  });
+
+  return mob.currentHP <= 0;
+}
+
+/**
+ * Sends a mob that ended its move on a teleport pad to the linked pad
+ * Nothing happens if the linked pad is gone or another mob stands on it.
+ * @returns true if the mob teleported
+ */
+function teleportThroughPad(mob: MapObject): boolean {
+  const objectManager = turnManager.getObjectManager();
+  const from = { ...mob.gridPosition };
+  const to = getLinkedPad(turnManager.getState().grid, from);
+  if (!to) {
+    return false;
+  }
+
+  const isOccupied = objectManager.getObjectsAtPosition(to.row, to.col).some(obj =>
+    obj.type === ObjectType.Player || obj.type === ObjectType.Enemy
+  );
+  if (isOccupied) {
+    return false;
+  }
+
+  mob.gridPosition.row = to.row;
+  mob.gridPosition.col = to.col;
+  if (mob.type === ObjectType.Player) {
+    objectManager.checkInteractions(mob, from, turnManager.getState().inventory);
+  }
+
+  playTeleportEffect([from, to]);
+  return true;
+}
+
+// Everything drawn as part of the board, moved together by the camera pan
+const BOARD_TAGS = ["brickLayer", "gridTile", "plot", "decayOverlay", "doorway", "mapObject", "connectedTilesHighlight"];
+
+/**
+ * Slides everything drawn as part of the board sideways
+ * @param from Horizontal offset in pixels the board starts at
+ * @param to Horizontal offset in pixels the board ends at
+ */
+async function panBoard(from: number, to: number): Promise<void> {
+  const objects = BOARD_TAGS.flatMap(tag => k.get(tag)).map(obj => ({ obj, x: obj.pos.x }));
+  const slide = (offset: number) => {
+    for (const { obj, x } of objects) {
+      obj.pos.x = x + offset;
+    }
+  };
+
+  slide(from);
+  k.tween(from, to, FLOOR.PAN_DURATION, slide, k.easings.easeInOutQuad);
+
+  await Promise.race([
+    k.wait(FLOOR.PAN_DURATION),
+    new Promise(resolve => setTimeout(resolve, 1000))
+  ]);
+  slide(to);
+}
+
+/**
+ * Takes the player through the doorway they stand on to the board behind it
+ * Boards are linked west to east, so the camera pans sideways: the board slides out
+ * through the doorway's side and the next one slides in from the other side.
+ * @returns true if the player changed boards
+ */
+async function travelThroughDoorway(player: MapObject): Promise<boolean> {
+  const state = turnManager.getState();
+  const doorway = state.floor ? getDoorwayAt(state.floor, player.gridPosition) : undefined;
+  if (!doorway) {
+    return false;
+  }
+
+  const distance = doorway.side === Direction.West ? 640 : -640;
+
+  render();
+  isAnimating = true;
+  try {
+    await panBoard(0, distance);
+
+    switchBoard(state, turnManager.getObjectManager(), doorway);
+    isAnimating = false;
+    render();
+    isAnimating = true;
+
+    await panBoard(-distance, 0);
+  } finally {
+    isAnimating = false;
+    render();
+  }
+
+  return true;
+}
+
 /**
  * Shows the context menu for an inventory item
  */
@@ -267,6 +494,13 @@ function useConsumableItem(
   player: MapObject | null,
   state: { inventory: any[]; grid: any[][]; buffs: any[] }
 ): void {
+  const { rows, cols } = getGridSize(state.grid);
+
+  // Keys are spent by walking into a locked door
+  if (itemDef.id === "key") {
+    return;
+  }
+
   // Consume the item based on its type
   if (itemDef.id === "apple") {
     if (player && player.currentHP !== undefined && player.stats) {
@@ -302,8 +536,8 @@ function useConsumableItem(
 
       const affectedTiles: GridPosition[] = [];
       tilesToRestore.forEach(pos => {
-        if (pos.row >= 0 && pos.row < GRID_ROWS &&
-            pos.col >= 0 && pos.col < GRID_COLS) {
+        if (pos.row >= 0 && pos.row < rows &&
+            pos.col >= 0 && pos.col < cols && !isVoid(state.grid[pos.row][pos.col])) {
           affectedTiles.push(pos);
           const tile = state.grid[pos.row][pos.col];
           if (tile && tile.decay > 0) {
@@ -316,12 +550,12 @@ function useConsumableItem(
     }
   } else if (itemDef.id === "bricks") {
     const affectedTiles: GridPosition[] = [];
-    for (let row = 0; row < GRID_ROWS; row++) {
-      for (let col = 0; col < GRID_COLS; col++) {
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
         const tile = state.grid[row][col];
         if (tile && tile.decay > 0) {
           affectedTiles.push({ row, col });
-          const decayReduction = Math.floor(Math.random() * 3) + 1;
+          const decayReduction = getRunRandom().nextInt(3) + 1;
           tile.decay = Math.max(0, tile.decay - decayReduction);
         }
       }
@@ -341,82 +575,6 @@ function useConsumableItem(
   render();
 }
 
-/**
- * Finds all tiles connected to a given position without breaking walls
- * Uses flood fill algorithm with canMove checks
- */
-function findConnectedTiles(
-  grid: TileInstance[][],
-  start: GridPosition
-): GridPosition[] {
-  const connected: GridPosition[] = [];
-  const visited = new Set<string>();
-  const queue: GridPosition[] = [start];
-
-  const key = (pos: GridPosition) => `${pos.row},${pos.col}`;
-  visited.add(key(start));
-
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    connected.push(current);
-
-    // Check all four cardinal neighbors
-    const neighbors: GridPosition[] = [
-      { row: current.row - 1, col: current.col }, // North
-      { row: current.row + 1, col: current.col }, // South
-      { row: current.row, col: current.col - 1 }, // West
-      { row: current.row, col: current.col + 1 }, // East
-    ];
-
-    for (const neighbor of neighbors) {
-      const neighborKey = key(neighbor);
-
-      // Skip if already visited
-      if (visited.has(neighborKey)) {
-        continue;
-      }
-
-      // Skip if out of bounds
-      if (neighbor.row < 0 || neighbor.row >= GRID_ROWS ||
-          neighbor.col < 0 || neighbor.col >= GRID_COLS) {
-        continue;
-      }
-
-      // Check if we can move from current to neighbor (no wall blocking)
-      const fromTile = grid[current.row][current.col];
-      const toTile = grid[neighbor.row][neighbor.col];
-
-      if (!fromTile || !toTile) {
-        continue;
-      }
-
-      const fromEdges = getTileEdges(fromTile.type, fromTile.orientation);
-      const toEdges = getTileEdges(toTile.type, toTile.orientation);
-
-      const dRow = neighbor.row - current.row;
-      const dCol = neighbor.col - current.col;
-
-      let canMove = false;
-      if (dRow === -1 && dCol === 0) {
-        canMove = fromEdges.north && toEdges.south;
-      } else if (dRow === 1 && dCol === 0) {
-        canMove = fromEdges.south && toEdges.north;
-      } else if (dRow === 0 && dCol === -1) {
-        canMove = fromEdges.west && toEdges.east;
-      } else if (dRow === 0 && dCol === 1) {
-        canMove = fromEdges.east && toEdges.west;
-      }
-
-      if (canMove) {
-        visited.add(neighborKey);
-        queue.push(neighbor);
-      }
-    }
-  }
-
-  return connected;
-}
-
 /**
  * Selects a random item with tier <= maxTier, preferring items close to maxTier
  * Uses weighted distribution: items with tier == maxTier are 3x more likely,
@@ -450,7 +608,7 @@ function selectItemByTier(maxTier: number, itemDatabase: any): string | null {
   }
 
   // Select random item from weighted array
-  const selectedId = weightedItems[Math.floor(Math.random() * weightedItems.length)];
+  const selectedId = getRunRandom().pick(weightedItems);
   return selectedId;
 }
 
@@ -460,6 +618,13 @@ async function handleClick(): Promise<void> {
     return;
   }
 
+  // Any click closes the deck view
+  if (isDeckViewVisible) {
+    isDeckViewVisible = false;
+    render();
+    return;
+  }
+
   const pos = k.mousePos();
 
   // Check for context menu option clicks first
@@ -478,6 +643,7 @@ async function handleClick(): Promise<void> {
   }
 
   const state = turnManager.getState();
+  const { rows, cols } = getGridSize(state.grid);
   const itemDatabase = turnManager.getObjectManager().getItemDatabase();
   const player = turnManager.getObjectManager().getPlayer();
 
@@ -492,6 +658,8 @@ async function handleClick(): Promise<void> {
 
     // Check if item is a consumable
     if (itemDef.type === "Consumable") {
+      // Keys are spent by walking into a locked door
+      if (itemDef.id === "key") return;
 
       // Consume the item based on its type
       if (itemDef.id === "apple") {
@@ -534,8 +702,8 @@ async function handleClick(): Promise<void> {
           // Collect valid tiles and remove decay from each
           const affectedTiles: GridPosition[] = [];
           tilesToRestore.forEach(pos => {
-            if (pos.row >= 0 && pos.row < GRID_ROWS &&
-                pos.col >= 0 && pos.col < GRID_COLS) {
+            if (pos.row >= 0 && pos.row < rows &&
+                pos.col >= 0 && pos.col < cols && !isVoid(state.grid[pos.row][pos.col])) {
               affectedTiles.push(pos);
               const tile = state.grid[pos.row][pos.col];
               if (tile && tile.decay > 0) {
@@ -550,12 +718,12 @@ async function handleClick(): Promise<void> {
       } else if (itemDef.id === "bricks") {
         // Collect all tiles with decay and decrease their decay by a random value between 1 and 3
         const affectedTiles: GridPosition[] = [];
-        for (let row = 0; row < GRID_ROWS; row++) {
-          for (let col = 0; col < GRID_COLS; col++) {
+        for (let row = 0; row < rows; row++) {
+          for (let col = 0; col < cols; col++) {
             const tile = state.grid[row][col];
             if (tile && tile.decay > 0) {
               affectedTiles.push({ row, col });
-              const decayReduction = Math.floor(Math.random() * 3) + 1; // Random 1-3
+              const decayReduction = getRunRandom().nextInt(3) + 1; // Random 1-3
               tile.decay = Math.max(0, tile.decay - decayReduction);
             }
           }
@@ -614,7 +782,7 @@ async function handleClick(): Promise<void> {
   }
 
   // Check if clicking on a blocked equipment slot (e.g., right hand when two-handed weapon equipped in left)
-  const clickedSlotIndex = getEquipmentSlotAtPosition(pos.x, pos.y);
+  const clickedSlotIndex = getEquipmentSlotAtPosition(pos.x, pos.y, turnManager);
   if (clickedSlotIndex !== null && isSlotBlocked(state.equipment, clickedSlotIndex, itemDatabase)) {
     // Find the item that's blocking this slot
     for (let i = 0; i < state.equipment.length; i++) {
@@ -677,7 +845,7 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
 
   const from = path[0];
   const startX = GRID_OFFSET_X + from.col * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.x;
-  const startY = GRID_OFFSET_Y + from.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
+  const startY = getCurrentGridOffsetY() + from.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
 
   // Determine facing direction from first move
   let shouldFlip = player.flipX;
@@ -712,7 +880,7 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
     const enemy = checkForCombat(player, objectsAtPosition);
 
     const tileCenterX = GRID_OFFSET_X + to.col * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.x;
-    const tileCenterY = GRID_OFFSET_Y + to.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
+    const tileCenterY = getCurrentGridOffsetY() + to.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
 
     let endX = tileCenterX;
     let endY = tileCenterY;
@@ -756,7 +924,7 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
 
       // Spawn SCT for attacker's damage on defender
       const defenderX = GRID_OFFSET_X + enemy.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.x;
-      const defenderY = GRID_OFFSET_Y + enemy.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
+      const defenderY = getCurrentGridOffsetY() + enemy.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
 
       if (combatResult.attackerAttack.hit) {
         const damageText = combatResult.attackerAttack.critical
@@ -828,7 +996,7 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
 
           // If enemy was spawned by king, drop bomb with 1/3 chance
           if (enemy.spawnedByKing) {
-            const bombRoll = Math.random();
+            const bombRoll = getRunRandom().next();
             const bombChance = 0.5;
             console.log(`[Combat] King-spawned enemy - bomb drop roll: ${bombRoll.toFixed(3)} vs ${bombChance.toFixed(3)}`);
             if (bombRoll < bombChance) {
@@ -849,7 +1017,7 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
             console.log(`[Combat] Boss room bonus - drop chance tripled: ${(dropChance / 3).toFixed(3)} -> ${dropChance.toFixed(3)}`);
           }
 
-          const dropRoll = Math.random();
+          const dropRoll = getRunRandom().next();
           console.log(`[Combat] Item drop roll: ${dropRoll.toFixed(3)} vs dropChance: ${dropChance.toFixed(3)} (tier: ${enemyTier})`);
 
           if (dropRoll < dropChance) {
@@ -928,7 +1096,7 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
 
       // Always bounce player back to previous position after combat
       const bounceX = GRID_OFFSET_X + previousPosition.col * TILE_SIZE + TILE_SIZE / 2;
-      const bounceY = GRID_OFFSET_Y + previousPosition.row * TILE_SIZE + TILE_SIZE / 2;
+      const bounceY = getCurrentGridOffsetY() + previousPosition.row * TILE_SIZE + TILE_SIZE / 2;
 
       const bouncePos = movingSprite.pos.clone();
       k.tween(
@@ -953,60 +1121,37 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
       break;
     }
 
+    // Spikes hurt on every step onto them
+    if (applyEnterDamage(player)) {
+      movingSprite.destroy();
+      showGameOver();
+      return;
+    }
+
     objectManager.checkInteractions(player, previousPosition, turnManager.getState().inventory);
   }
 
   k.destroyAll("movingPlayer");
-  turnManager.getObjectManager().spendMovement(player, path.length - 1);
+  turnManager.getObjectManager().spendMovement(player, getPathCost(turnManager.getState().grid, path, player.flying, player.movesRemaining));
+
+  // Ending the move on a teleport pad sends the player to the linked one
+  teleportThroughPad(player);
 
   isAnimating = false;
 
+  // Ending the move on a doorway takes the player to the next board of the floor
+  await travelThroughDoorway(player);
+
   // Check if player falls through the floor (if not flying)
   if (!player.flying) {
     const currentTile = turnManager.getState().grid[player.gridPosition.row][player.gridPosition.col];
-    const fallChance = getFallChance(currentTile.decay);
-
-    if (fallChance > 0) {
-      const roll = Math.random();
-
-      if (roll < fallChance) {
-        // Set animating to prevent other actions during fall
-        isAnimating = true;
-
-        try {
-          // Play fall animation
-          const playerX = GRID_OFFSET_X + player.gridPosition.col * TILE_SIZE + TILE_SIZE / 2;
-          const playerY = GRID_OFFSET_Y + player.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 - 4;
-
-          const fallSprite = k.add([
-            k.sprite("mason", { anim: "fall" }),
-            k.pos(playerX, playerY),
-            k.anchor("center"),
-            k.z(player.renderOrder),
-            "fallingPlayer",
-          ]);
-
-          // Wait for fall animation to complete
-          await new Promise<void>((resolve) => {
-            fallSprite.onAnimEnd(() => {
-              k.destroy(fallSprite);
-              resolve();
-            });
-          });
-        } catch (error) {
-          console.error("[Fall] Error during fall animation:", error);
-          k.destroyAll("fallingPlayer");
-        } finally {
-          // Reset animating flag before scene transition
-          isAnimating = false;
-        }
+    const fallChance = getFallChance(currentTile.decay, turnManager.getState().biome.fallChance);
 
-        // Transition to next level (going deeper)
-        fallThroughFloor(turnManager.getState());
+    if (fallChance > 0 && getRunRandom().next() < fallChance) {
+      await playerFallsThroughFloor(player);
 
-        // Don't continue with normal turn flow
-        return;
-      }
+      // Don't continue with normal turn flow
+      return;
     }
   }
 
@@ -1021,10 +1166,72 @@ async function movePlayerAlongPath(player: MapObject, path: GridPosition[]): Pro
   }
 }
 
+/**
+ * Plays the fall animation and transitions to the next level (going deeper)
+ */
+async function playerFallsThroughFloor(player: MapObject): Promise<void> {
+  // Set animating to prevent other actions during fall
+  isAnimating = true;
+
+  try {
+    // Play fall animation
+    const playerX = GRID_OFFSET_X + player.gridPosition.col * TILE_SIZE + TILE_SIZE / 2;
+    const playerY = getCurrentGridOffsetY() + player.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 - 4;
+
+    const fallSprite = k.add([
+      k.sprite("mason", { anim: "fall" }),
+      k.pos(playerX, playerY),
+      k.anchor("center"),
+      k.z(player.renderOrder),
+      "fallingPlayer",
+    ]);
+
+    // Wait for fall animation to complete
+    await new Promise<void>((resolve) => {
+      fallSprite.onAnimEnd(() => {
+        k.destroy(fallSprite);
+        resolve();
+      });
+    });
+  } catch (error) {
+    console.error("[Fall] Error during fall animation:", error);
+    k.destroyAll("fallingPlayer");
+  } finally {
+    // Reset animating flag before scene transition
+    isAnimating = false;
+  }
+
+  fallThroughFloor(turnManager.getState(), turnManager.getPlayerDeck());
+}
+
+/**
+ * Drops every grounded object standing on a pit (tiles that collapsed under them)
+ * Returns true if the player fell, in which case the level is over and the caller must stop
+ */
+async function dropIntoPits(): Promise<boolean> {
+  const state = turnManager.getState();
+  const objectManager = turnManager.getObjectManager();
+
+  if (objectManager.dropObjectsIntoPits(state.grid).length > 0) {
+    render();
+  }
+
+  const player = objectManager.getPlayer();
+  if (player && !player.flying && isPit(state.grid[player.gridPosition.row][player.gridPosition.col])) {
+    await playerFallsThroughFloor(player);
+    return true;
+  }
+
+  return false;
+}
+
 async function skipPlayerTurn(_player: MapObject): Promise<void> {
   isAnimating = true;
   isAnimating = false;
 
+  // Idle turns let the dungeon crumble somewhere
+  applyDecay(turnManager.getState(), { action: DecayAction.Idle, at: [] }, turnManager.getObjectManager());
+
   turnManager.completeMove();
   await executeEnemyTurns();
   // startPlayerTurn() is now called inside executeEnemyTurns()
@@ -1046,7 +1253,7 @@ async function animateWallBump(player: MapObject, targetPos: GridPosition): Prom
 
     const from = player.gridPosition;
     const startX = GRID_OFFSET_X + from.col * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.x;
-    const startY = GRID_OFFSET_Y + from.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
+    const startY = getCurrentGridOffsetY() + from.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
 
     // Calculate bump direction - move 25% toward the wall
     const dRow = targetPos.row - from.row;
@@ -1115,9 +1322,72 @@ async function animateWallBump(player: MapObject, targetPos: GridPosition): Prom
   }
 }
 
+/**
+ * Opens a locked door with a key from the inventory, spending the key and a move
+ * Without a key, or from a tile with no way out towards the door, the bump does nothing
+ * (a door can't be broken down)
+ */
+async function handleLockedDoor(player: MapObject, targetPos: GridPosition): Promise<void> {
+  const state = turnManager.getState();
+  const keyIndex = state.inventory.findIndex(item => item?.definitionId === "key");
+  const fromTile = state.grid[player.gridPosition.row][player.gridPosition.col];
+  const direction = getWallDirection(player.gridPosition, targetPos);
+  const canWalkIn = direction !== null && canLeaveTile(fromTile.type, fromTile.orientation, direction);
+
+  if (keyIndex === -1 || !canWalkIn) {
+    spawnScrollingText({
+      text: "LOCKED",
+      x: GRID_OFFSET_X + targetPos.col * TILE_SIZE + TILE_SIZE / 2,
+      y: getCurrentGridOffsetY() + targetPos.row * TILE_SIZE + TILE_SIZE / 2,
+      color: { r: 210, g: 170, b: 60 },
+      fontSize: 12,
+      behavior: "fade",
+    });
+    return;
+  }
+
+  await animateWallBump(player, targetPos);
+
+  const key = state.inventory[keyIndex]!;
+  key.remainingCharges--;
+  if (key.remainingCharges <= 0) {
+    state.inventory[keyIndex] = null;
+  }
+
+  unlockDoor(state.grid, player.gridPosition, targetPos);
+  state.wallBumpCount = 0;
+  state.wallBumpTarget = null;
+
+  turnManager.getObjectManager().spendMovement(player, 1);
+  render();
+
+  if (player.movesRemaining <= 0) {
+    await executeEnemyTurns();
+  }
+}
+
 async function handleWallBump(player: MapObject, targetPos: GridPosition): Promise<void> {
   const state = turnManager.getState();
 
+  // Locked doors open with a key instead of being broken down
+  if (state.grid[targetPos.row][targetPos.col].type === TileType.LockedDoor) {
+    await handleLockedDoor(player, targetPos);
+    return;
+  }
+
+  // Rubble is cleared by hand, no tools needed
+  if (isBlockedByFeature(state.grid[targetPos.row][targetPos.col])) {
+    await animateWallBump(player, targetPos);
+    clearRubble(state.grid, targetPos);
+    turnManager.getObjectManager().spendMovement(player, 1);
+    render();
+
+    if (player.movesRemaining <= 0) {
+      await executeEnemyTurns();
+    }
+    return;
+  }
+
   // Check if player has required equipment to break walls
   // Need either: two-handed weapon OR both MainHand (index 1) AND OffHand (index 2)
   const mainHandItem = state.equipment[1];
@@ -1178,10 +1448,9 @@ async function handleWallBump(player: MapObject, targetPos: GridPosition): Promi
     }
   }
 
-  // Apply decay to both tiles involved in the wall bump
-  // Each gets a random decay increase from 0 to ON_WALL_BREAK
-  applyRandomDecayToTile(state.grid, player.gridPosition.row, player.gridPosition.col, DECAY_PROGRESSION.ON_WALL_BREAK, turnManager.getObjectManager());
-  applyRandomDecayToTile(state.grid, targetPos.row, targetPos.col, DECAY_PROGRESSION.ON_WALL_BREAK, turnManager.getObjectManager());
+  // Roll wall bump decay for both tiles involved in the bump
+  applyDecay(state, { action: DecayAction.WallBump, at: [player.gridPosition, targetPos] }, turnManager.getObjectManager());
+  if (await dropIntoPits()) return;
 
   // Check if we've reached 3 bumps
   if (state.wallBumpCount >= 3) {
@@ -1206,9 +1475,10 @@ async function handleWallBump(player: MapObject, targetPos: GridPosition): Promi
  */
 function teleportKingToRandomImmovableTile(king: MapObject, objectManager: any): void {
   // Find all immovable tiles (even row AND even col)
+  const { rows, cols } = getGridSize(turnManager.getState().grid);
   const immovableTiles: GridPosition[] = [];
-  for (let row = 0; row < GRID_ROWS; row++) {
-    for (let col = 0; col < GRID_COLS; col++) {
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
       // Immovable tiles have even row AND even col
       if (row % 2 === 0 && col % 2 === 0) {
         // Check if tile is empty (no other objects)
@@ -1227,11 +1497,11 @@ function teleportKingToRandomImmovableTile(king: MapObject, objectManager: any):
 
   if (immovableTiles.length > 0) {
     // Pick random immovable tile
-    const targetTile = immovableTiles[Math.floor(Math.random() * immovableTiles.length)];
+    const targetTile = getRunRandom().pick(immovableTiles);
 
     // Create teleport visual effect at old position
     const oldX = GRID_OFFSET_X + king.gridPosition.col * TILE_SIZE + TILE_SIZE / 2;
-    const oldY = GRID_OFFSET_Y + king.gridPosition.row * TILE_SIZE + TILE_SIZE / 2;
+    const oldY = getCurrentGridOffsetY() + king.gridPosition.row * TILE_SIZE + TILE_SIZE / 2;
 
     const teleportOut = k.add([
       k.circle(16),
@@ -1250,7 +1520,7 @@ function teleportKingToRandomImmovableTile(king: MapObject, objectManager: any):
 
     // Create teleport visual effect at new position
     const newX = GRID_OFFSET_X + targetTile.col * TILE_SIZE + TILE_SIZE / 2;
-    const newY = GRID_OFFSET_Y + targetTile.row * TILE_SIZE + TILE_SIZE / 2;
+    const newY = getCurrentGridOffsetY() + targetTile.row * TILE_SIZE + TILE_SIZE / 2;
 
     const teleportIn = k.add([
       k.circle(16),
@@ -1305,6 +1575,7 @@ async function explodeBomb(bomb: MapObject): Promise<void> {
 
   const objectManager = turnManager.getObjectManager();
   const state = turnManager.getState();
+  const { rows, cols } = getGridSize(state.grid);
   const centerPos = bomb.gridPosition;
   const explosionPositions: GridPosition[] = [];
 
@@ -1327,8 +1598,8 @@ async function explodeBomb(bomb: MapObject): Promise<void> {
     const adjRow = centerPos.row + dir.row;
     const adjCol = centerPos.col + dir.col;
 
-    // Check bounds
-    if (adjRow < 0 || adjRow >= GRID_ROWS || adjCol < 0 || adjCol >= GRID_COLS) {
+    // Check bounds (a void cell is the edge of the grid too)
+    if (adjRow < 0 || adjRow >= rows || adjCol < 0 || adjCol >= cols || isVoid(state.grid[adjRow][adjCol])) {
       continue;
     }
 
@@ -1345,12 +1616,13 @@ async function explodeBomb(bomb: MapObject): Promise<void> {
       explosionPositions.push({ row: adjRow, col: adjCol });
     }
   }
+  updateConnectivity(state.grid, [centerPos]);
 
   // Spawn explosion sprites
   const explosionSprites: any[] = [];
   for (const pos of explosionPositions) {
     const expX = GRID_OFFSET_X + pos.col * TILE_SIZE + TILE_SIZE / 2;
-    const expY = GRID_OFFSET_Y + pos.row * TILE_SIZE + TILE_SIZE / 2;
+    const expY = getCurrentGridOffsetY() + pos.row * TILE_SIZE + TILE_SIZE / 2;
 
     const expSprite = k.add([
       k.sprite("explosion", { anim: "explode" }),
@@ -1400,17 +1672,11 @@ async function explodeBomb(bomb: MapObject): Promise<void> {
         }
       }
     }
-
-    // Increase tile decay by 1 (unless in boss room)
-    if (!state.isBossRoom && pos.row >= 0 && pos.row < state.grid.length &&
-        pos.col >= 0 && pos.col < state.grid[0].length) {
-      const tile = state.grid[pos.row][pos.col];
-      if (tile) {
-        tile.decay = Math.min(tile.decay + 1, 10);  // Max decay is 10
-      }
-    }
   }
 
+  // Roll explosion decay for every tile the blast reached
+  applyDecay(state, { action: DecayAction.Explosion, at: explosionPositions }, objectManager);
+
   // Wait for explosion animation
   const explosionDuration = 0.5;
   await Promise.race([
@@ -1436,19 +1702,177 @@ async function executeEnemyTurns(): Promise<void> {
   const player = objectManager.getPlayer();
   if (!player) return;
 
-  const enemyMoves = calculateAllEnemyMoves(state.grid, objectManager, player.gridPosition);
+  // Tiles may have collapsed during the player's turn
+  if (await dropIntoPits()) return;
 
+  // The rival mason plays between the player and the enemies
+  if (turnManager.getRival()) {
+    turnManager.startRivalTurn();
+    if (await executeRivalTurn()) return;
+    turnManager.startEnemyTurn();
+  }
+
+  const enemyMoves = calculateAllEnemyMoves(state.grid, objectManager, player.gridPosition, state.lastPushedPlot);
+
+  const steps: GridPosition[] = [];
   for (const move of enemyMoves) {
+    const from = { ...move.enemy.gridPosition };
     await animateEnemyMove(move);
+    const to = move.enemy.gridPosition;
+    if (to.row !== from.row || to.col !== from.col) {
+      steps.push({ ...to });
+    }
   }
 
+  // Enemies that followed the player through a doorway step out once it's free
+  releaseFollowers(state, objectManager);
+
+  // Roll footstep decay where enemies ended their moves
+  applyDecay(state, { action: DecayAction.EnemyStep, at: steps }, objectManager);
+
   // Process bombs after enemy turns
   await processBombs();
 
+  // End of round: decayed tiles weaken their neighbours and may cascade-collapse
+  runStructuralPass(state, objectManager);
+  if (await dropIntoPits()) return;
+
   turnManager.startPlayerTurn();
   render();
 }
 
+/**
+ * Plays the rival mason's turn: a push, a rotation of the tile it stands on or a move
+ * Returns true if the rival reached the exit first, in which case the floor is lost and the caller must stop
+ */
+async function executeRivalTurn(): Promise<boolean> {
+  const state = turnManager.getState();
+  const objectManager = turnManager.getObjectManager();
+  const rival = turnManager.getRival();
+  const step = turnManager.planRivalTurn();
+  if (!rival || !step) return false;
+
+  if (step.type === "push") {
+    const { rows, cols } = getGridSize(state.grid);
+    isAnimating = true;
+    clearAll();
+    try {
+      await animatePush(
+        state.grid,
+        step.plot,
+        step.tile,
+        objectManager.getAllObjects(),
+        GRID_OFFSET_X,
+        getGridOffsetY(rows),
+        rows,
+        cols,
+        TILE_SIZE,
+        () => turnManager.takeRivalStep(step),
+        state.isInStartLevelSequence,
+        state.revealedTiles
+      );
+    } catch (error) {
+      console.error("[executeRivalTurn] Error during push animation:", error);
+    } finally {
+      isAnimating = false;
+      render();
+    }
+  } else if (step.type === "rotate") {
+    turnManager.takeRivalStep(step);
+    render();
+  } else {
+    await animateRivalMove(rival.mob, step.path);
+    turnManager.takeRivalStep(step);
+    teleportThroughPad(rival.mob);
+    render();
+  }
+
+  const exit = objectManager.getExit();
+  const { row, col } = rival.mob.gridPosition;
+  if (!turnManager.getRival() || !exit || exit.gridPosition.row !== row || exit.gridPosition.col !== col) {
+    return false;
+  }
+
+  // The rival got out first: the floor gives way under the player
+  spawnScrollingText({
+    text: "RIVAL ESCAPED",
+    x: GRID_OFFSET_X + col * TILE_SIZE + TILE_SIZE / 2,
+    y: getCurrentGridOffsetY() + row * TILE_SIZE,
+    color: { r: 255, g: 140, b: 140 },
+    behavior: "fade",
+  });
+  objectManager.destroyObject(rival.mob);
+  render();
+
+  const player = objectManager.getPlayer();
+  if (player) {
+    await playerFallsThroughFloor(player);
+  }
+  return true;
+}
+
+/**
+ * Animates the rival mason walking a path (rivals don't fight, they walk past mobs)
+ */
+async function animateRivalMove(rival: MapObject, path: GridPosition[]): Promise<void> {
+  if (path.length <= 1) return;
+
+  isAnimating = true;
+  const stepDuration = 0.12;
+  const toScreen = (pos: GridPosition) => k.vec2(
+    GRID_OFFSET_X + pos.col * TILE_SIZE + TILE_SIZE / 2 + rival.spriteOffset.x,
+    getCurrentGridOffsetY() + pos.row * TILE_SIZE + TILE_SIZE / 2 + rival.spriteOffset.y
+  );
+
+  try {
+    for (const obj of k.get("mapObject")) {
+      if (((obj as any).objectData as MapObject).id === rival.id) {
+        obj.destroy();
+        break;
+      }
+    }
+
+    // Face the way the path leaves horizontally
+    const firstStep = path.find(pos => pos.col !== path[0].col);
+    if (firstStep) {
+      rival.flipX = firstStep.col < path[0].col;
+    }
+
+    const color = (rival as any).color;
+    const movingSprite = k.add([
+      k.sprite(rival.sprite, { anim: "idle", flipX: rival.flipX }),
+      k.pos(toScreen(path[0])),
+      k.anchor("center"),
+      k.z(2), // Above decay overlay and tiles
+      k.color(color.r, color.g, color.b),
+      "movingRival",
+    ]);
+
+    for (let i = 1; i < path.length; i++) {
+      k.tween(
+        movingSprite.pos.clone(),
+        toScreen(path[i]),
+        stepDuration,
+        (val) => {
+          movingSprite.pos = val;
+        },
+        k.easings.easeOutQuad
+      );
+
+      await Promise.race([
+        k.wait(stepDuration),
+        new Promise(resolve => setTimeout(resolve, 1000)) // 1s timeout
+      ]);
+    }
+  } catch (error) {
+    console.error("[animateRivalMove] Error during rival movement:", error);
+  } finally {
+    k.destroyAll("movingRival");
+    turnManager.getObjectManager().spendMovement(rival, getPathCost(turnManager.getState().grid, path, rival.flying, rival.movesRemaining));
+    isAnimating = false;
+  }
+}
+
 /**
  * Animates a healing action from healer to target enemy
  */
@@ -1461,10 +1885,10 @@ async function animateHealing(healer: MapObject, target: MapObject): Promise<voi
 
     // Calculate positions
     const healerX = GRID_OFFSET_X + healer.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + healer.spriteOffset.x;
-    const healerY = GRID_OFFSET_Y + healer.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + healer.spriteOffset.y;
+    const healerY = getCurrentGridOffsetY() + healer.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + healer.spriteOffset.y;
 
     const targetX = GRID_OFFSET_X + target.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + target.spriteOffset.x;
-    const targetY = GRID_OFFSET_Y + target.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + target.spriteOffset.y;
+    const targetY = getCurrentGridOffsetY() + target.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + target.spriteOffset.y;
 
     // Create visual effect - pulsing circle from healer to target
     const effectStart = k.add([
@@ -1541,6 +1965,48 @@ async function animateHealing(healer: MapObject, target: MapObject): Promise<voi
   }
 }
 
+/**
+ * Animates a saboteur pushing or rotating a tile, then applies it
+ * The action is called off if the board changed so it no longer can be taken.
+ */
+async function animateTileAction(enemy: MapObject, action: TileAction): Promise<void> {
+  const state = turnManager.getState();
+  const objectManager = turnManager.getObjectManager();
+  if (!canTakeTileAction(state, objectManager, action)) return;
+
+  isAnimating = true;
+
+  try {
+    // A rotation shows once the grid is drawn again
+    if (action.type === "rotate") {
+      applyTileAction(state, objectManager, enemy, action);
+      return;
+    }
+
+    const { rows, cols } = getGridSize(state.grid);
+    clearAll();
+    await animatePush(
+      state.grid,
+      action.plot,
+      action.tile,
+      turnManager.getMapObjects(),
+      GRID_OFFSET_X,
+      getGridOffsetY(rows),
+      rows,
+      cols,
+      TILE_SIZE,
+      () => applyTileAction(state, objectManager, enemy, action),
+      state.isInStartLevelSequence,
+      state.revealedTiles
+    );
+  } catch (error) {
+    console.error("[TileAction] Error during tile action:", error);
+  } finally {
+    isAnimating = false;
+    render();
+  }
+}
+
 /**
  * Animates a ranged attack from enemy to player
  */
@@ -1559,10 +2025,10 @@ async function animateRangedAttack(enemy: MapObject): Promise<void> {
 
     // Calculate start and end positions
     const startX = GRID_OFFSET_X + enemy.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.x;
-    const startY = GRID_OFFSET_Y + enemy.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
+    const startY = getCurrentGridOffsetY() + enemy.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
 
     const endX = GRID_OFFSET_X + player.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.x;
-    const endY = GRID_OFFSET_Y + player.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
+    const endY = getCurrentGridOffsetY() + player.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + player.spriteOffset.y;
 
     // Calculate angle for projectile rotation
     const deltaX = endX - startX;
@@ -1654,10 +2120,10 @@ async function animateTeleport(enemy: MapObject, targetPos: GridPosition): Promi
 
     // Calculate start and end positions
     const startX = GRID_OFFSET_X + enemy.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.x;
-    const startY = GRID_OFFSET_Y + enemy.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
+    const startY = getCurrentGridOffsetY() + enemy.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
 
     const endX = GRID_OFFSET_X + targetPos.col * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.x;
-    const endY = GRID_OFFSET_Y + targetPos.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
+    const endY = getCurrentGridOffsetY() + targetPos.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
 
     // Find the enemy sprite
     const mapObjs = k.get("mapObject");
@@ -1793,9 +2259,9 @@ function manhattanDistance(a: GridPosition, b: GridPosition): number {
 }
 
 /**
- * Animates a summon action - creates a skeleton with rise animation
+ * Animates a summon action - creates the summoned enemy (rising, if it has a rise animation)
  */
-async function animateSummon(summoner: MapObject, summonPos: GridPosition): Promise<void> {
+async function animateSummon(summoner: MapObject, enemyType: string, summonPos: GridPosition): Promise<void> {
   isAnimating = true;
 
   try {
@@ -1803,7 +2269,7 @@ async function animateSummon(summoner: MapObject, summonPos: GridPosition): Prom
 
     // Calculate summoner position
     const summonerX = GRID_OFFSET_X + summoner.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + summoner.spriteOffset.x;
-    const summonerY = GRID_OFFSET_Y + summoner.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + summoner.spriteOffset.y;
+    const summonerY = getCurrentGridOffsetY() + summoner.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + summoner.spriteOffset.y;
 
     // Create purple visual effect on summoner only
     const summonEffect = k.add([
@@ -1835,35 +2301,38 @@ async function animateSummon(summoner: MapObject, summonPos: GridPosition): Prom
     // Cleanup effect
     summonEffect.destroy();
 
-    // Create skeleton at summon position
+    // Create enemy at summon position
     const objectManager = turnManager.getObjectManager();
-    const skeleton = objectManager.createEnemy(summonPos, "skeleton");
+    const summoned = objectManager.createEnemy(summonPos, enemyType);
+
+    // Calculate summoned enemy sprite position
+    const summonedX = GRID_OFFSET_X + summonPos.col * TILE_SIZE + TILE_SIZE / 2 + summoned.spriteOffset.x;
+    const summonedY = getCurrentGridOffsetY() + summonPos.row * TILE_SIZE + TILE_SIZE / 2 + summoned.spriteOffset.y;
 
-    // Calculate skeleton sprite position
-    const skeletonX = GRID_OFFSET_X + summonPos.col * TILE_SIZE + TILE_SIZE / 2 + skeleton.spriteOffset.x;
-    const skeletonY = GRID_OFFSET_Y + summonPos.row * TILE_SIZE + TILE_SIZE / 2 + skeleton.spriteOffset.y;
+    // Check if summoned enemy has a rise animation (like skeleton)
+    const hasRiseAnim = summoned.riseAnim ?? false;
 
-    // Manually create skeleton sprite with rise animation (since render() is blocked by isAnimating)
-    const skeletonSprite = k.add([
-      k.sprite("skeleton", { anim: "rise" }),
-      k.pos(skeletonX, skeletonY),
+    // Manually create summoned enemy sprite (since render() is blocked by isAnimating)
+    const summonedSprite = k.add([
+      k.sprite(summoned.sprite, { anim: hasRiseAnim ? "rise" : "idle" }),
+      k.pos(summonedX, summonedY),
       k.anchor("center"),
       k.z(2),
-      "summonedSkeleton",
+      "summonedEnemy",
     ]);
 
     // Wait for rise animation to complete
     // Rise animation is frames 4-7 (4 frames), assuming default animation speed
-    const riseAnimDuration = 0.6;
+    const riseAnimDuration = hasRiseAnim ? 0.6 : 0.3;
     await Promise.race([
       k.wait(riseAnimDuration),
       new Promise(resolve => setTimeout(resolve, 1000))
     ]);
 
     // Destroy the temporary sprite
-    skeletonSprite.destroy();
+    summonedSprite.destroy();
 
-    // The skeleton object exists in objectManager, it will be rendered normally on next render()
+    // The summoned enemy exists in objectManager, it will be rendered normally on next render()
 
   } catch (error) {
     console.error("[Summon] Error during summon:", error);
@@ -1884,7 +2353,7 @@ async function animateBossSpawn(king: MapObject, enemyType: string, spawnPos: Gr
 
     // Calculate king position
     const kingX = GRID_OFFSET_X + king.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + king.spriteOffset.x;
-    const kingY = GRID_OFFSET_Y + king.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + king.spriteOffset.y;
+    const kingY = getCurrentGridOffsetY() + king.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + king.spriteOffset.y;
 
     // Create golden/orange visual effect on king
     const bossEffect = k.add([
@@ -1923,14 +2392,14 @@ async function animateBossSpawn(king: MapObject, enemyType: string, spawnPos: Gr
 
     // Calculate spawn position
     const spawnX = GRID_OFFSET_X + spawnPos.col * TILE_SIZE + TILE_SIZE / 2 + spawnedEnemy.spriteOffset.x;
-    const spawnY = GRID_OFFSET_Y + spawnPos.row * TILE_SIZE + TILE_SIZE / 2 + spawnedEnemy.spriteOffset.y;
+    const spawnY = getCurrentGridOffsetY() + spawnPos.row * TILE_SIZE + TILE_SIZE / 2 + spawnedEnemy.spriteOffset.y;
 
     // Check if spawned enemy has a rise animation (like skeleton)
-    const hasRiseAnim = enemyType === "skeleton";
+    const hasRiseAnim = spawnedEnemy.riseAnim ?? false;
 
     // Manually create enemy sprite (since render() is blocked by isAnimating)
     const spawnedSprite = k.add([
-      k.sprite(enemyType, { anim: hasRiseAnim ? "rise" : "idle" }),
+      k.sprite(spawnedEnemy.sprite, { anim: hasRiseAnim ? "rise" : "idle" }),
       k.pos(spawnX, spawnY),
       k.anchor("center"),
       k.z(2),
@@ -1966,7 +2435,7 @@ async function animateBossSpawn(king: MapObject, enemyType: string, spawnPos: Gr
 }
 
 async function animateEnemyMove(move: EnemyMove): Promise<void> {
-  const { enemy, path, isRangedAttack, isHealingAction, healTarget, isTeleportAction, isSummonAction, summonPosition, isBossSpawnAction, bossSpawnEnemyType, bossSpawnPosition } = move;
+  const { enemy, path, isRangedAttack, isHealingAction, healTarget, isTeleportAction, isSummonAction, summonEnemyType, summonPosition, spawnStyle, isTileAction, tileAction } = move;
 
   // Check if this is a healing action
   if (isHealingAction && healTarget) {
@@ -1986,15 +2455,19 @@ async function animateEnemyMove(move: EnemyMove): Promise<void> {
     return;
   }
 
-  // Check if this is a summon action
-  if (isSummonAction && summonPosition) {
-    await animateSummon(enemy, summonPosition);
+  // Check if this is a summon action (see SpawnStyle)
+  if (isSummonAction && summonEnemyType && summonPosition) {
+    if (spawnStyle === SpawnStyle.Boss) {
+      await animateBossSpawn(enemy, summonEnemyType, summonPosition);
+    } else {
+      await animateSummon(enemy, summonEnemyType, summonPosition);
+    }
     return;
   }
 
-  // Check if this is a boss spawn action
-  if (isBossSpawnAction && bossSpawnEnemyType && bossSpawnPosition) {
-    await animateBossSpawn(enemy, bossSpawnEnemyType, bossSpawnPosition);
+  // Check if this is a push or rotation
+  if (isTileAction && tileAction) {
+    await animateTileAction(enemy, tileAction);
     return;
   }
 
@@ -2016,7 +2489,7 @@ async function animateEnemyMove(move: EnemyMove): Promise<void> {
 
   const from = path[0];
   const startX = GRID_OFFSET_X + from.col * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.x;
-  const startY = GRID_OFFSET_Y + from.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
+  const startY = getCurrentGridOffsetY() + from.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
 
   // Determine facing direction from first move
   let shouldFlip = enemy.flipX;
@@ -2067,7 +2540,7 @@ async function animateEnemyMove(move: EnemyMove): Promise<void> {
     }
 
     const tileCenterX = GRID_OFFSET_X + to.col * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.x;
-    const tileCenterY = GRID_OFFSET_Y + to.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
+    const tileCenterY = getCurrentGridOffsetY() + to.row * TILE_SIZE + TILE_SIZE / 2 + enemy.spriteOffset.y;
 
     let endX = tileCenterX;
     let endY = tileCenterY;
@@ -2111,7 +2584,7 @@ async function animateEnemyMove(move: EnemyMove): Promise<void> {
 
       // Spawn SCT for attacker's damage on defender
       const defenderX = GRID_OFFSET_X + target.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + target.spriteOffset.x;
-      const defenderY = GRID_OFFSET_Y + target.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + target.spriteOffset.y;
+      const defenderY = getCurrentGridOffsetY() + target.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + target.spriteOffset.y;
 
       if (combatResult.attackerAttack.hit) {
         const damageText = combatResult.attackerAttack.critical
@@ -2149,7 +2622,7 @@ async function animateEnemyMove(move: EnemyMove): Promise<void> {
       } else {
         // Defender survived - bounce enemy back to previous position
         const bounceX = GRID_OFFSET_X + previousPos.col * TILE_SIZE + TILE_SIZE / 2;
-        const bounceY = GRID_OFFSET_Y + previousPos.row * TILE_SIZE + TILE_SIZE / 2;
+        const bounceY = getCurrentGridOffsetY() + previousPos.row * TILE_SIZE + TILE_SIZE / 2;
 
         const bouncePos = movingSprite.pos.clone();
         k.tween(
@@ -2174,12 +2647,20 @@ async function animateEnemyMove(move: EnemyMove): Promise<void> {
         break;
       }
     }
+
+    // Spikes hurt on every step onto them
+    if (applyEnterDamage(enemy)) {
+      objectManager.destroyObject(enemy);
+      return;
+    }
   }
+
+  teleportThroughPad(enemy);
   } catch (error) {
     console.error("[animateEnemyMove] Error during enemy movement:", error);
   } finally {
     k.destroyAll("movingEnemy");
-    turnManager.getObjectManager().spendMovement(enemy, path.length - 1);
+    turnManager.getObjectManager().spendMovement(enemy, getPathCost(turnManager.getState().grid, path, enemy.flying, enemy.movesRemaining));
 
     isAnimating = false;
     render();
@@ -2224,7 +2705,7 @@ function handleMouseMove(): void {
   const mousePos = k.mousePos();
 
   // Use the screenToGrid utility from PositionUtils
-  const gridPos = screenToGrid(mousePos.x, mousePos.y);
+  const gridPos = screenToGrid(mousePos.x, mousePos.y, state.grid);
 
   // If not over a grid tile, clear hover state
   if (!gridPos) {
@@ -2266,7 +2747,7 @@ function handleMouseMove(): void {
                          gridPos.col === player.gridPosition.col);
 
     const moves = turnManager.getObjectManager().getAvailableMoves(player);
-    const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], true);
+    const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], player.flying, getCostProfile(player));
     const isReachable = reachable.some(t => t.position.row === gridPos.row && t.position.col === gridPos.col && t.path.length > 1);
 
     // Check if it's an adjacent wall that could be bumped
@@ -2295,12 +2776,12 @@ function handleMouseMove(): void {
 
   // Update hovered tile and find connected tiles
   hoveredTilePosition = gridPos;
-  connectedTiles = findConnectedTiles(state.grid, gridPos);
+  connectedTiles = getConnectivity(state.grid).getComponent(gridPos);
   render();
 }
 
 async function tryMovePlayerInDirection(rowDelta: number, colDelta: number): Promise<void> {
-  if (isAnimating) return;
+  if (isAnimating || isDeckViewVisible) return;
   if (!turnManager.isPlayerTurn() || turnManager.isTilePlacement()) return;
 
   const player = turnManager.getObjectManager().getPlayer();
@@ -2310,14 +2791,15 @@ async function tryMovePlayerInDirection(rowDelta: number, colDelta: number): Pro
   const targetCol = player.gridPosition.col + colDelta;
 
   // Check if target is within grid bounds
-  if (targetRow < 0 || targetRow >= GRID_ROWS || targetCol < 0 || targetCol >= GRID_COLS) {
+  const { rows, cols } = getGridSize(turnManager.getState().grid);
+  if (targetRow < 0 || targetRow >= rows || targetCol < 0 || targetCol >= cols) {
     return;
   }
 
   const state = turnManager.getState();
   const targetPos = { row: targetRow, col: targetCol };
   const moves = turnManager.getObjectManager().getAvailableMoves(player);
-  const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], true);
+  const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], player.flying, getCostProfile(player));
 
   const target = reachable.find(
     (t) => t.position.row === targetRow && t.position.col === targetCol
@@ -2383,6 +2865,7 @@ export function initializeGameHandlers(
   lastHighlightedSlots = [];
   hoveredTilePosition = null;
   connectedTiles = [];
+  isDeckViewVisible = false;
 
   // Initialize click manager with callbacks
   const clickCallbacks: ClickCallbacks = {
@@ -2436,6 +2919,12 @@ export function initializeGameHandlers(
     onCancelPlacement: () => {
       tm.cancelPlacement();
     },
+    onSelectHandTile: (index: number) => {
+      tm.selectHandTile(index);
+    },
+    onHoldTile: () => {
+      tm.holdTile();
+    },
   };
 
   clickManager = new ClickManager(clickCallbacks);
@@ -2462,10 +2951,53 @@ export function initializeGameHandlers(
     k.go("main");
   });
 
+  // Deck button - show or hide the deck view
+  k.onButtonPress("deck", () => {
+    if (isAnimating) return;
+    isDeckViewVisible = !isDeckViewVisible;
+    render();
+  });
+
+  // Hint button - show the shortest route to the exit (holding shift, to the tile under the cursor)
+  k.onButtonPress("hint", async () => {
+    const state = tm.getState();
+    if (isAnimating || isDeckViewVisible || state.isInStartLevelSequence || !tm.isPlayerTurn()) return;
+    if (state.playerPhase !== PlayerPhase.AwaitingAction) return;
+
+    const mousePos = k.mousePos();
+    const goal = k.isKeyDown("shift") ? screenToGrid(mousePos.x, mousePos.y, state.grid) ?? undefined : undefined;
+    const plan = tm.useHint(goal);
+    render();
+
+    if (!plan) {
+      const player = tm.getObjectManager().getPlayer();
+      if (player) {
+        spawnScrollingText({
+          text: state.hintsUsed >= HINT.MAX_USES ? "NO HINTS LEFT" : "NO ROUTE",
+          x: GRID_OFFSET_X + player.gridPosition.col * TILE_SIZE + TILE_SIZE / 2,
+          y: getCurrentGridOffsetY() + player.gridPosition.row * TILE_SIZE + TILE_SIZE / 2,
+          color: { r: 255, g: 230, b: 120 },
+          fontSize: 12,
+          behavior: "fade",
+        });
+      }
+      return;
+    }
+
+    // The hint's decay may have opened a pit under someone
+    await dropIntoPits();
+  });
+
   // Abort button - exit tile placement, rotation mode, or context menu
   k.onButtonPress("abort", () => {
     if (isAnimating) return;
 
+    if (isDeckViewVisible) {
+      isDeckViewVisible = false;
+      render();
+      return;
+    }
+
     // Close context menu first if visible
     if (contextMenu.visible) {
       hideContextMenu();
@@ -2500,12 +3032,11 @@ export function initializeGameHandlers(
     const mousePos = k.mousePos();
 
     // Only check hover if mouse is in the UI area (right side of screen)
-    // UI starts at GRID_OFFSET_X + GRID_COLS * TILE_SIZE
-    const uiStartX = GRID_OFFSET_X + GRID_COLS * TILE_SIZE;
     const state = tm.getState();
+    const uiX = getUIX(getGridSize(state.grid).cols);
     const itemDatabase = tm.getObjectManager().getItemDatabase();
 
-    if (mousePos.x < uiStartX) {
+    if (mousePos.x < uiX) {
       // Mouse is over the game grid, not UI - clear any existing hover
       if (lastHoveredItemId !== null) {
         lastHoveredItemId = null;
@@ -2513,7 +3044,7 @@ export function initializeGameHandlers(
       }
       if (lastHighlightedSlots.length > 0) {
         lastHighlightedSlots = [];
-        updateEquipmentSlotHighlighting([], state.equipment, itemDatabase);
+        updateEquipmentSlotHighlighting([], state.equipment, itemDatabase, uiX);
       }
       return;
     }
@@ -2547,7 +3078,7 @@ export function initializeGameHandlers(
 
     if (slotsChanged) {
       lastHighlightedSlots = highlightedSlots;
-      updateEquipmentSlotHighlighting(highlightedSlots, state.equipment, itemDatabase);
+      updateEquipmentSlotHighlighting(highlightedSlots, state.equipment, itemDatabase, uiX);
     }
 
     // Only update description if hovered item changed
@@ -2560,7 +3091,7 @@ export function initializeGameHandlers(
 
       // Update description with hovered item (or empty if no item)
       const itemDef = hoveredItemId ? itemDatabase.getItem(hoveredItemId) : undefined;
-      updateDescription(itemDef);
+      updateDescription(uiX, itemDef);
     }
   });
 }
@@ -2573,6 +3104,7 @@ function clearAll(): void {
   k.destroyAll("connectedTilesHighlight");
   k.destroyAll("contextMenu");
   k.destroyAll("contextMenuOption");
+  clearDeckView();
   lastHoveredItemId = null; // Reset hover state so description updates after render
   lastHighlightedSlots = []; // Reset equipment slot highlights
 }
@@ -2580,6 +3112,10 @@ function clearAll(): void {
 async function executePushWithAnimation(): Promise<void> {
   const state = turnManager.getState();
   if (!state.currentTile || !state.selectedPlot) return;
+  const { rows, cols } = getGridSize(state.grid);
+
+  // The push leaves the player on the filled pit tile, so the fall is known before pushing
+  const playerFalls = turnManager.getPushPreview()?.fallen.some(obj => obj.type === ObjectType.Player) ?? false;
 
   isAnimating = true;
   clearAll();
@@ -2593,9 +3129,9 @@ async function executePushWithAnimation(): Promise<void> {
       state.currentTile,
       mapObjects,
       GRID_OFFSET_X,
-      GRID_OFFSET_Y,
-      GRID_ROWS,
-      GRID_COLS,
+      getGridOffsetY(rows),
+      rows,
+      cols,
       TILE_SIZE,
       () => {
         isAnimating = false;
@@ -2605,6 +3141,12 @@ async function executePushWithAnimation(): Promise<void> {
       state.revealedTiles
     );
 
+    const player = turnManager.getObjectManager().getPlayer();
+    if (playerFalls && player) {
+      await playerFallsThroughFloor(player);
+      return;
+    }
+
     // Pushing a tile ends the player's turn - execute enemy turns
     await executeEnemyTurns();
   } catch (error) {
@@ -2620,6 +3162,8 @@ function drawRotationOverlay(
   reachableTiles: ReachableTile[],
   gridOffsetX: number,
   gridOffsetY: number,
+  gridRows: number,
+  gridCols: number,
   tileSize: number
 ): void {
   // Create a set of positions that should NOT be darkened
@@ -2634,8 +3178,8 @@ function drawRotationOverlay(
   }
 
   // Draw dark overlay on all non-active tiles
-  for (let r = 0; r < GRID_ROWS; r++) {
-    for (let c = 0; c < GRID_COLS; c++) {
+  for (let r = 0; r < gridRows; r++) {
+    for (let c = 0; c < gridCols; c++) {
       const key = `${r},${c}`;
       if (!activeTiles.has(key)) {
         const x = gridOffsetX + c * tileSize;
@@ -2652,6 +3196,20 @@ function drawRotationOverlay(
       }
     }
   }
+
+  // Tint destinations only reachable over tiles that may give way or hurt
+  for (const tile of reachableTiles) {
+    if (tile.risky) {
+      k.add([
+        k.rect(tileSize, tileSize),
+        k.pos(gridOffsetX + tile.position.col * tileSize, gridOffsetY + tile.position.row * tileSize),
+        k.color(...COLORS.riskyRoute),
+        k.opacity(0.25),
+        k.z(5),
+        "rotationOverlay",
+      ]);
+    }
+  }
 }
 
 /**
@@ -2688,6 +3246,9 @@ export function render(): void {
   const state = turnManager.getState();
   const mapObjects = turnManager.getMapObjects();
   const player = turnManager.getObjectManager().getPlayer();
+  const { rows, cols } = getGridSize(state.grid);
+  const gridOffsetY = getGridOffsetY(rows);
+  const preview = getPreviewPosition(cols);
 
   // Get item database for UI rendering
   const itemDatabase = turnManager.getObjectManager().getItemDatabase();
@@ -2696,7 +3257,7 @@ export function render(): void {
   drawUI(player || null, state, itemDatabase);
 
   // Draw level info
-  drawLevelInfo(state.currentLevel);
+  drawLevelInfo(state.currentLevel, getRunSeed(), state.par, HINT.MAX_USES - state.hintsUsed);
 
   // Draw saga font sample text
   // k.add([
@@ -2710,66 +3271,98 @@ export function render(): void {
   if (state.turnOwner === TurnOwner.Player) {
     if (state.playerPhase === PlayerPhase.RotatingTile) {
       // Rotation mode rendering
-      drawGridWithOverlay(state.grid, null, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
-      drawDecayOverlay(state.grid, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+      drawGridWithOverlay(state.grid, null, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
+      drawDecayOverlay(state.grid, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles, !state.isBossRoom);
 
       // Draw darkening overlay on non-active tiles
       if (state.rotatingTilePosition && player) {
         const moves = turnManager.getObjectManager().getAvailableMoves(player);
-        const reachable = findReachableTiles(state.grid, state.rotatingTilePosition, moves, [], true);
-        drawRotationOverlay(state.rotatingTilePosition, reachable, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE);
+        const reachable = findReachableTiles(state.grid, state.rotatingTilePosition, moves, [], player.flying, getCostProfile(player));
+        drawRotationOverlay(state.rotatingTilePosition, reachable, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE);
       }
 
-      drawMapObjects(mapObjects, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+      drawMapObjects(mapObjects, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
       if (state.currentTile) {
-        drawPreviewTile(state.currentTile, PREVIEW_X, PREVIEW_Y);
+        drawPreviewTile(state.currentTile, preview.x, preview.y, preview.labelLeft);
       }
     } else if (state.playerPhase === PlayerPhase.TilePlacement && state.currentTile) {
-      drawGridWithOverlay(state.grid, state.selectedPlot, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
-      drawDecayOverlay(state.grid, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+      drawGridWithOverlay(state.grid, state.selectedPlot, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
+      drawDecayOverlay(state.grid, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles, !state.isBossRoom);
 
-      drawMapObjects(mapObjects, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+      drawMapObjects(mapObjects, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
       const plots = turnManager.getPlots();
-      drawPlots(plots, state.selectedPlot, state.playerPhase, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE);
+      drawPlots(plots, state.selectedPlot, state.playerPhase, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, turnManager.getBlockedPlots());
       if (state.selectedPlot) {
-        drawCurrentTile(state.currentTile, state.selectedPlot, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE);
+        drawCurrentTile(state.currentTile, state.selectedPlot, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE);
+
+        // Ghost the outcome of the push before it is committed
+        const pushPreview = turnManager.getPushPreview();
+        if (pushPreview) {
+          drawPushPreviewTiles(pushPreview, GRID_OFFSET_X, gridOffsetY, TILE_SIZE);
+          drawPushPreviewObjects(pushPreview, GRID_OFFSET_X, gridOffsetY, TILE_SIZE);
+        }
       } else {
-        drawPreviewTile(state.currentTile, PREVIEW_X, PREVIEW_Y);
+        drawPreviewTile(state.currentTile, preview.x, preview.y, preview.labelLeft);
       }
     } else {
-      drawGridWithOverlay(state.grid, null, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
-      drawDecayOverlay(state.grid, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+      drawGridWithOverlay(state.grid, null, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
+      drawDecayOverlay(state.grid, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles, !state.isBossRoom);
 
       // Draw connected tiles highlight when hovering
       if (connectedTiles.length > 0) {
-        drawConnectedTilesHighlight(connectedTiles, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE);
+        drawConnectedTilesHighlight(connectedTiles, GRID_OFFSET_X, gridOffsetY, TILE_SIZE);
       }
 
-      drawMapObjects(mapObjects, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+      drawMapObjects(mapObjects, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
       if (state.currentTile) {
-        drawPreviewTile(state.currentTile, PREVIEW_X, PREVIEW_Y);
+        drawPreviewTile(state.currentTile, preview.x, preview.y, preview.labelLeft);
         const plots = turnManager.getPlots();
-        drawPlots(plots, null, state.playerPhase, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE);
+        drawPlots(plots, null, state.playerPhase, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, turnManager.getBlockedPlots());
+      }
+
+      if (state.hint) {
+        drawRouteHint(state.hint, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE);
       }
     }
   } else {
     // Enemy turn - still show plots and tile preview
-    drawGridWithOverlay(state.grid, null, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
-    drawDecayOverlay(state.grid, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+    drawGridWithOverlay(state.grid, null, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, 640, 360, state.isInStartLevelSequence, state.revealedTiles);
+    drawDecayOverlay(state.grid, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles, !state.isBossRoom);
 
-    drawMapObjects(mapObjects, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
+    drawMapObjects(mapObjects, GRID_OFFSET_X, gridOffsetY, TILE_SIZE, state.isInStartLevelSequence, state.revealedTiles);
 
     // Keep showing the tile preview and plots during enemy turn
     if (state.currentTile) {
-      drawPreviewTile(state.currentTile, PREVIEW_X, PREVIEW_Y);
+      drawPreviewTile(state.currentTile, preview.x, preview.y, preview.labelLeft);
       const plots = turnManager.getPlots();
-      drawPlots(plots, null, state.playerPhase, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, TILE_SIZE);
+      drawPlots(plots, null, state.playerPhase, GRID_OFFSET_X, gridOffsetY, rows, cols, TILE_SIZE, turnManager.getBlockedPlots());
     }
   }
 
+  // Doorways lead to the other boards of the floor
+  if (state.floor) {
+    drawDoorways(getCurrentBoard(state.floor).doorways, GRID_OFFSET_X, gridOffsetY, TILE_SIZE);
+  }
+
+  // Draw the rest of the hand, the hold slot and the upcoming tiles below the preview
+  if (state.currentTile) {
+    drawHand(state.hand, state.heldTile, turnManager.getUpcomingTiles(HAND.UPCOMING_COUNT), preview.x, preview.y, preview.labelLeft);
+  }
+
   // Draw context menu if visible
   drawContextMenu();
 
+  // Draw deck view if visible
+  if (isDeckViewVisible) {
+    drawDeckView(turnManager.getDeck(), countTiles([state.currentTile, ...state.hand, state.heldTile]));
+  }
+
+  // Animate decay that happened since the last render
+  if (state.decayEvents.length > 0) {
+    playDecayEffect(state.decayEvents);
+    state.decayEvents = [];
+  }
+
   // Draw debug info
   drawDebugInfo();
   drawStateMachineInfo(state, player || null, isAnimating);
@@ -1,13 +1,22 @@
 import { k } from "../kaplayCtx";
-import { loadAssets, loadEnemyDatabase, enemyDatabase, loadItemDatabase, itemDatabase } from "./assets";
+import { loadAssets, loadEnemyDatabase, enemyDatabase, loadItemDatabase, itemDatabase, loadBiomeDatabase, biomeDatabase } from "./assets";
 import { TurnManager } from "./systems/TurnManager";
 import { InputController } from "./systems/InputController";
 import { CursorManager } from "./systems/CursorManager";
 import { StartLevelSequence } from "./systems/StartLevelSequence";
-import { GRID_ROWS, GRID_COLS, STARTING_LEVEL, STARTING_ITEMS, ITEM_DROP_PROBABILITY, ENEMY_BUDGET_MODIFIER } from "./config";
-import { getImmovableEdgeTiles, getOppositeSide, getRandomTileOnSide } from "./core/Grid";
+import { STARTING_LEVEL, getGridSizeForLevel, getBoardCountForLevel, getGridOffsetY, GRID_OFFSET_X, TILE_SIZE, STARTING_ITEMS, ITEM_DROP_PROBABILITY, ENEMY_BUDGET_MODIFIER, HANDCRAFTED_LEVELS, SOLVER, DECK_BUILDING, RIVAL, getRivalDifficultyForLevel } from "./config";
+import { getImmovableEdgeTiles, getOppositeSide, getRandomTileOnSide, getGridSize, isVoid } from "./core/Grid";
+import { getRunRandom, setRunSeed } from "./core/Random";
 import { applyEquipmentBonuses } from "./systems/EquipmentManager";
-import type { GridPosition } from "./types";
+import { loadLevelDefinition, buildLevel, areWinConditionsMet } from "./systems/LevelLoader";
+import { solveLevel, repairLevel } from "./systems/LevelSolver";
+import { clearSurfaceFeatures, spawnSurfaceFeatures } from "./systems/SurfaceFeatures";
+import { createBoard, createDoorwayTile, linkBoards } from "./systems/Floor";
+import { pickRivalStart } from "./systems/Rival";
+import { spawnScrollingText } from "./systems/ScrollingCombatText";
+import { logger } from "./utils/logger";
+import { ObjectType, type GridPosition, type TileInstance, type MapObject, type DeckComposition, type Board } from "./types";
+import type { LevelDefinition } from "./systems/LevelLoader";
 import type { EnemyDatabase } from "./systems/EnemyDatabase";
 import {
   initializeGameHandlers,
@@ -25,14 +34,62 @@ let globalInventory: (import("./types").ItemInstance | null)[] | null = null;
 let globalEquipment: (import("./types").ItemInstance | null)[] | null = null;
 let globalIsBossRoom = false;  // True if in boss room
 let globalPlayerHP: number | null = null;  // Player's current HP that persists between levels
+let globalPlayTestLevel: LevelDefinition | null = null;  // Level being play-tested from the editor
+let globalDeck: DeckComposition | null = null;  // Player's tile deck that persists between levels
+let isRunDeckInPlay = false;  // False on hand-authored levels that bring their own deck
 
-export function resetGlobalLevel(): void {
+/**
+ * Resets the run state and starts a new random sequence
+ * @param seed - Seed string to replay a run; defaults to the "seed" URL parameter, or a fresh seed
+ */
+export function resetGlobalLevel(seed?: string): void {
+  setRunSeed(seed ?? new URLSearchParams(window.location.search).get("seed") ?? undefined);
   globalCurrentLevel = STARTING_LEVEL;
   globalIsAscending = false;
   globalInventory = null;
   globalEquipment = null;
   globalIsBossRoom = false;
   globalPlayerHP = null;
+  globalPlayTestLevel = null;
+  globalDeck = null;
+}
+
+/**
+ * Returns the player's tile deck for this run
+ */
+export function getRunDeck(): DeckComposition {
+  return globalDeck ?? { ...DECK_BUILDING.STARTING_DECK };
+}
+
+/**
+ * Replaces the player's tile deck (deck building between floors)
+ */
+export function setRunDeck(deck: DeckComposition): void {
+  globalDeck = deck;
+}
+
+/**
+ * Keeps the tiles the player ended the level with, unless the level brought its own deck
+ */
+function saveRunDeck(playerDeck: DeckComposition): void {
+  if (isRunDeckInPlay) {
+    globalDeck = playerDeck;
+  }
+}
+
+/**
+ * Starts a fresh run on a single level from the level editor
+ * Leaving the level (exit, falling or game over) returns to the editor
+ */
+export function playTestLevel(definition: LevelDefinition): void {
+  resetGlobalLevel();
+  globalPlayTestLevel = definition;
+  k.go("main");
+}
+
+function returnToEditor(): void {
+  globalPlayTestLevel = null;
+  k.go("editor");
 }
 
 export function enterBossRoom(): void {
@@ -41,14 +98,22 @@ export function enterBossRoom(): void {
 }
 
 /**
- * Generates a list of enemies for a given level based on budget formula
+ * Generates a list of enemies for one board of a given level based on budget formula
  * Budget = Math.max(STARTING_LEVEL - current_level + ENEMY_BUDGET_MODIFIER, ENEMY_BUDGET_MODIFIER)
- * Randomly selects enemies whose tier sum doesn't exceed the budget
+ * The budget is for the whole floor, split evenly between its boards (earlier boards get the remainder)
+ * Randomly selects enemies whose tier sum doesn't exceed the board's share
  * Places them on random non-edge tiles
  */
-function generateEnemiesForLevel(level: number, enemyDb: EnemyDatabase): { enemyId: string, position: GridPosition }[] {
-  // Calculate enemy budget
-  const budget = Math.max(STARTING_LEVEL - level + ENEMY_BUDGET_MODIFIER, ENEMY_BUDGET_MODIFIER);
+function generateEnemiesForLevel(
+  level: number,
+  enemyDb: EnemyDatabase,
+  grid: TileInstance[][],
+  boardIndex: number = 0,
+  boardCount: number = 1
+): { enemyId: string, position: GridPosition }[] {
+  // Calculate this board's share of the enemy budget
+  const levelBudget = Math.max(STARTING_LEVEL - level + ENEMY_BUDGET_MODIFIER, ENEMY_BUDGET_MODIFIER);
+  const budget = Math.floor(levelBudget / boardCount) + (boardIndex < levelBudget % boardCount ? 1 : 0);
 
   // Get all available enemy types
   const allEnemyIds = enemyDb.getAllEnemyIds();
@@ -82,26 +147,26 @@ function generateEnemiesForLevel(level: number, enemyDb: EnemyDatabase): { enemy
     }
 
     // Randomly select one affordable enemy
-    const selectedId = affordableEnemies[Math.floor(Math.random() * affordableEnemies.length)];
+    const selectedId = getRunRandom().pick(affordableEnemies);
     const tier = enemyTiers.get(selectedId) || 1;
 
     selectedEnemies.push(selectedId);
     remainingBudget -= tier;
   }
 
-  // Generate non-edge tile positions
+  // Generate non-edge tile positions (void cells don't exist)
+  const { rows, cols } = getGridSize(grid);
   const nonEdgePositions: GridPosition[] = [];
-  for (let row = 1; row < GRID_ROWS - 1; row++) {
-    for (let col = 1; col < GRID_COLS - 1; col++) {
-      nonEdgePositions.push({ row, col });
+  for (let row = 1; row < rows - 1; row++) {
+    for (let col = 1; col < cols - 1; col++) {
+      if (!isVoid(grid[row][col])) {
+        nonEdgePositions.push({ row, col });
+      }
     }
   }
 
   // Shuffle positions
-  for (let i = nonEdgePositions.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [nonEdgePositions[i], nonEdgePositions[j]] = [nonEdgePositions[j], nonEdgePositions[i]];
-  }
+  getRunRandom().shuffle(nonEdgePositions);
 
   // Assign positions to enemies
   const result: { enemyId: string, position: GridPosition }[] = [];
@@ -115,17 +180,23 @@ function generateEnemiesForLevel(level: number, enemyDb: EnemyDatabase): { enemy
   return result;
 }
 
-export function fallThroughFloor(currentState: import("./types").GameState): void {
-  // Save current inventory and equipment before falling
+export function fallThroughFloor(currentState: import("./types").GameState, playerDeck: DeckComposition): void {
+  if (globalPlayTestLevel) {
+    returnToEditor();
+    return;
+  }
+
+  // Save current inventory, equipment and deck before falling
   globalInventory = [...currentState.inventory];
   globalEquipment = [...currentState.equipment];
+  saveRunDeck(playerDeck);
 
   // Increment global level counter (going deeper into dungeon)
   globalCurrentLevel++;
   globalIsAscending = false;  // Falling deeper (descending)
 
-  // Generate new level
-  k.go("main");
+  // Edit the deck, then generate the new level
+  k.go("deck");
 }
 
 export function showGameOver(): void {
@@ -155,7 +226,7 @@ export function showGameOver(): void {
     "gameOverText",
   ]);
   k.add([
-    k.text("Click to return to title", { size: 16 }),
+    k.text(globalPlayTestLevel ? "Click to return to editor" : "Click to return to title", { size: 16 }),
     k.pos(320, 280),
     k.anchor("center"),
     k.color(150, 150, 150),
@@ -165,6 +236,10 @@ export function showGameOver(): void {
 
   // Click to return to title
   k.onMousePress("left", () => {
+    if (globalPlayTestLevel) {
+      returnToEditor();
+      return;
+    }
     resetGlobalLevel();
     k.go("title");
   });
@@ -175,23 +250,130 @@ export function createMainScene(): void {
     await loadAssets();
     await loadEnemyDatabase();
     await loadItemDatabase();
+    await loadBiomeDatabase();
 
     // Initialize managers
     const cursorManager = new CursorManager();
     cursorManager.initialize();
     setCursorManager(cursorManager);
 
-    const turnManager = new TurnManager(render, enemyDatabase, itemDatabase, resetAnimationFlag);
+    // Grid size and biome are properties of the level (boss room uses the defaults)
+    const depth = globalIsBossRoom ? 0 : globalCurrentLevel;
+    const gridSize = getGridSizeForLevel(depth);
+    const biome = biomeDatabase.getBiomeForLevel(depth);
+    const turnManager = new TurnManager(render, enemyDatabase, itemDatabase, resetAnimationFlag, 1, gridSize.rows, gridSize.cols, biome);
     setTurnManager(turnManager);
 
+    const handleExitReached = (_mob: MapObject, isPlayer: boolean) => {
+      if (!isPlayer) {
+        return;
+      }
+
+      // Hand-authored levels may keep the exit sealed until their win conditions hold
+      const currentState = turnManager.getState();
+      const objectManager = turnManager.getObjectManager();
+      if (!areWinConditionsMet(currentState, objectManager)) {
+        const playerObj = objectManager.getPlayer();
+        if (playerObj) {
+          spawnScrollingText({
+            text: "SEALED",
+            x: GRID_OFFSET_X + playerObj.gridPosition.col * TILE_SIZE + TILE_SIZE / 2,
+            y: getGridOffsetY(getGridSize(currentState.grid).rows) + playerObj.gridPosition.row * TILE_SIZE,
+            color: { r: 150, g: 150, b: 150 },
+            behavior: "fade",
+          });
+        }
+        return;
+      }
+
+      if (globalPlayTestLevel) {
+        returnToEditor();
+        return;
+      }
+
+      // Save current inventory, equipment, deck and HP before transitioning
+      globalInventory = [...currentState.inventory];
+      globalEquipment = [...currentState.equipment];
+      saveRunDeck(turnManager.getPlayerDeck());
+      const playerObj = objectManager.getPlayer();
+      if (playerObj?.currentHP !== undefined) {
+        globalPlayerHP = playerObj.currentHP;
+      }
+
+      // Decrement global level counter
+      globalCurrentLevel--;
+      globalIsAscending = true;  // Ascending toward surface
+
+      if (globalCurrentLevel === 0 && !globalIsBossRoom) {
+        // Entering boss room!
+        globalIsBossRoom = true;
+        k.go("deck");
+      } else if (globalCurrentLevel < 0 || globalIsBossRoom) {
+        // Victory - escaped after defeating boss or went past level 0!
+        k.add([
+          k.rect(640, 360),
+          k.pos(0, 0),
+          k.color(0, 0, 0),
+          k.opacity(0.8),
+          k.z(1000),
+          "victoryOverlay",
+        ]);
+        k.add([
+          k.text("VICTORY!", { size: 48 }),
+          k.pos(320, 150),
+          k.anchor("center"),
+          k.color(255, 215, 0),
+          k.z(1001),
+          "victoryText",
+        ]);
+        k.add([
+          k.text("You escaped the dungeon!", { size: 24 }),
+          k.pos(320, 220),
+          k.anchor("center"),
+          k.color(255, 255, 255),
+          k.z(1001),
+          "victoryText",
+        ]);
+      } else {
+        // Edit the deck, then generate the new level
+        k.go("deck");
+      }
+    };
+
+    // Replace the generated level with a hand-authored one if this level has one
+    const levelUrl = HANDCRAFTED_LEVELS[globalCurrentLevel];
+    let isHandcrafted = false;
+    isRunDeckInPlay = true;
+    if (globalPlayTestLevel || levelUrl) {
+      try {
+        const definition = globalPlayTestLevel ?? await loadLevelDefinition(levelUrl, { enemies: enemyDatabase, items: itemDatabase });
+        const levelBiome = biomeDatabase.getBiome(definition.biome) ?? biome;
+        turnManager.loadLevel(buildLevel(definition, enemyDatabase, itemDatabase, handleExitReached, levelBiome));
+        isHandcrafted = true;
+        isRunDeckInPlay = !definition.deck;
+      } catch (error) {
+        logger.error(`[mainScene] Falling back to a generated level:`, error);
+      }
+    }
+
+    // The hand draws from the player's run deck unless the level brings its own
+    if (isRunDeckInPlay) {
+      turnManager.usePlayerDeck(getRunDeck());
+    }
+
+    // Tab leaves a play-test early
+    if (globalPlayTestLevel) {
+      k.onKeyPress("tab", returnToEditor);
+    }
+
     // Set current level and direction from global counter
     const state = turnManager.getState();
     state.currentLevel = globalCurrentLevel;
     state.isAscending = globalIsAscending;
-    state.isBossRoom = globalIsBossRoom;
+    state.isBossRoom = state.isBossRoom || globalIsBossRoom;
 
     // If in boss room, set all tile decay to 0
-    if (globalIsBossRoom) {
+    if (state.isBossRoom) {
       for (let row = 0; row < state.grid.length; row++) {
         for (let col = 0; col < state.grid[row].length; col++) {
           state.grid[row][col].decay = 0;
@@ -228,75 +410,14 @@ export function createMainScene(): void {
     // Create game objects
     const objManager = turnManager.getObjectManager();
 
-    // Prepare exit tile position (used for exit and player spawn in normal levels)
-    const immovableEdges = getImmovableEdgeTiles(GRID_ROWS, GRID_COLS);
-    const exitTile = immovableEdges[Math.floor(Math.random() * immovableEdges.length)];
-
-    // Create exit (but not in boss room)
-    if (!globalIsBossRoom) {
-      objManager.createExit(
-        { row: exitTile.row, col: exitTile.col },
-        "Exit Stairs",
-        (_mob, isPlayer) => {
-          if (isPlayer) {
-            // Save current inventory, equipment, and HP before transitioning
-            const currentState = turnManager.getState();
-            globalInventory = [...currentState.inventory];
-            globalEquipment = [...currentState.equipment];
-            const playerObj = turnManager.getObjectManager().getPlayer();
-            if (playerObj?.currentHP !== undefined) {
-              globalPlayerHP = playerObj.currentHP;
-            }
-
-            // Decrement global level counter
-            globalCurrentLevel--;
-            globalIsAscending = true;  // Ascending toward surface
-
-            if (globalCurrentLevel === 0 && !globalIsBossRoom) {
-              // Entering boss room!
-              globalIsBossRoom = true;
-              k.go("main");
-            } else if (globalCurrentLevel < 0 || globalIsBossRoom) {
-              // Victory - escaped after defeating boss or went past level 0!
-              k.add([
-                k.rect(640, 360),
-                k.pos(0, 0),
-                k.color(0, 0, 0),
-                k.opacity(0.8),
-                k.z(1000),
-                "victoryOverlay",
-              ]);
-              k.add([
-                k.text("VICTORY!", { size: 48 }),
-                k.pos(320, 150),
-                k.anchor("center"),
-                k.color(255, 215, 0),
-                k.z(1001),
-                "victoryText",
-              ]);
-              k.add([
-                k.text("You escaped the dungeon!", { size: 24 }),
-                k.pos(320, 220),
-                k.anchor("center"),
-                k.color(255, 255, 255),
-                k.z(1001),
-                "victoryText",
-              ]);
-            } else {
-              // Generate new level
-              k.go("main");
-            }
-          }
-        }
-      );
-    }
-
-    // Boss room setup or normal level setup
-    if (globalIsBossRoom) {
-      // Boss room: spawn player at 2/6, king at 2/2
-      objManager.createPlayer({ row: 2, col: 6 }, "Player1");
+    // The solver may only push the first tile the player will hold - later draws are unknown
+    const getHand = () => {
+      const tile = turnManager.peekNextTile();
+      return tile ? [tile] : [];
+    };
 
-      // Restore player HP and apply equipment bonuses
+    // Restore player HP and apply equipment bonuses
+    const restorePlayer = () => {
       const player = objManager.getPlayer();
       if (player) {
         if (globalPlayerHP !== null && player.currentHP !== undefined) {
@@ -310,41 +431,147 @@ export function createMainScene(): void {
           }
         }
       }
+    };
+
+    if (isHandcrafted) {
+      // Hand-authored level: player, exit, enemies and items come from the level file
+      restorePlayer();
+
+      const player = objManager.getPlayer();
+      const exit = objManager.getAllObjects().find(obj => obj.type === ObjectType.Exit);
+      if (player && exit) {
+        state.par = solveLevel(state.grid, player.gridPosition, exit.gridPosition, getHand())?.par ?? null;
+        if (state.par === null) {
+          logger.warn(`[mainScene] Hand-authored level ${globalCurrentLevel} may not be solvable`);
+        }
+      }
+    } else if (globalIsBossRoom) {
+      // Boss room: spawn player at 2/6, king at 2/2
+      objManager.createPlayer({ row: 2, col: 6 }, "Player1");
+      restorePlayer();
 
       // Spawn king at position 2/2
       const king = objManager.createEnemy({ row: 2, col: 2 }, "king");
       king.isInStartLevelSequence = true;
     } else {
       // Normal level setup
-      // Create player on opposite side from exit
-      const oppositeSide = getOppositeSide(exitTile.side);
-      const playerTile = getRandomTileOnSide(oppositeSide, GRID_ROWS, GRID_COLS);
-      objManager.createPlayer({ row: playerTile.row, col: playerTile.col }, "Player1");
+      // A floor is a row of boards linked west to east by doorways (a single board on shallow levels)
+      // Each board is generated until its far end is provably reachable from where the player enters it
+      const boardCount = getBoardCountForLevel(globalCurrentLevel);
+      const boards: Board[] = [];
+      const ends: { start: GridPosition; goal: GridPosition }[] = [];
+      const pars: (number | null)[] = [];
+
+      // Ends are picked from the edge tiles the grid's shape keeps
+      // A single board has its exit on any edge and the player on the opposite side
+      const pickEnds = (index: number) => {
+        let start: GridPosition;
+        let goal: GridPosition;
+        if (boardCount === 1) {
+          const exitTile = getRunRandom().pick(getImmovableEdgeTiles(gridSize.rows, gridSize.cols, state.grid));
+          goal = { row: exitTile.row, col: exitTile.col };
+          start = getRandomTileOnSide(getOppositeSide(exitTile.side), gridSize.rows, gridSize.cols, state.grid);
+        } else {
+          start = getRandomTileOnSide("left", gridSize.rows, gridSize.cols, state.grid);
+          goal = getRandomTileOnSide("right", gridSize.rows, gridSize.cols, state.grid);
+        }
 
-      // Restore player HP and apply equipment bonuses
-      const player = objManager.getPlayer();
-      if (player) {
-        if (globalPlayerHP !== null && player.currentHP !== undefined) {
-          player.currentHP = globalPlayerHP;
+        // Doorways are in place before solving, the player walks through them
+        if (index > 0) {
+          state.grid[start.row][start.col] = createDoorwayTile();
         }
-        if (restoredEquipment) {
-          try {
-            applyEquipmentBonuses(player, state.equipment, itemDatabase);
-          } catch (error) {
-            // Error applying equipment bonuses
-          }
+        if (index < boardCount - 1) {
+          state.grid[goal.row][goal.col] = createDoorwayTile();
         }
+        return { start, goal };
+      };
+
+      for (let index = 0; index < boardCount; index++) {
+        if (index > 0) {
+          turnManager.regenerateGrid();
+        }
+
+        let { start, goal } = pickEnds(index);
+        let solution = solveLevel(state.grid, start, goal, getHand());
+
+        for (let attempt = 1; !solution && attempt < SOLVER.MAX_GENERATION_ATTEMPTS; attempt++) {
+          turnManager.regenerateGrid();
+          ({ start, goal } = pickEnds(index));
+          solution = solveLevel(state.grid, start, goal, getHand());
+        }
+
+        if (!solution) {
+          // Out of attempts - pave a path so the board can always be crossed
+          logger.warn(`[mainScene] No solvable grid after ${SOLVER.MAX_GENERATION_ATTEMPTS} attempts, repairing`);
+          repairLevel(state.grid, start, goal);
+          solution = solveLevel(state.grid, start, goal, getHand());
+        }
+        ends.push({ start, goal });
+
+        // The exit is on the last board
+        if (index === boardCount - 1) {
+          objManager.createExit(goal, "Exit Stairs", handleExitReached);
+        }
+
+        // The player starts on the first board
+        if (index === 0) {
+          objManager.createPlayer(start, "Player1");
+          restorePlayer();
+        }
+
+        // Generate and create enemies based on the board's share of the level budget
+        const enemiesToSpawn = generateEnemiesForLevel(globalCurrentLevel, enemyDatabase, state.grid, index, boardCount);
+        enemiesToSpawn.forEach(({ enemyId, position }) => {
+          const enemy = objManager.createEnemy(position, enemyId);
+          enemy.isInStartLevelSequence = true;
+        });
+
+        // Spawn random items on empty tiles (tier based on level)
+        objManager.spawnRandomItems(state.grid, ITEM_DROP_PROBABILITY, globalCurrentLevel);
+
+        // Scatter surface features from the biome's tables on the tiles left empty
+        // They may block the route the board was proven solvable by, so it's solved again;
+        // a board they spoil is played without them
+        spawnSurfaceFeatures(state.grid, state.biome, objManager);
+        const featuredSolution = solveLevel(state.grid, start, goal, getHand());
+        if (featuredSolution || !solution) {
+          solution = featuredSolution;
+        } else {
+          clearSurfaceFeatures(state.grid);
+        }
+        pars.push(solution?.par ?? null);
+
+        // The board keeps its objects until the player walks in
+        const board = createBoard(state.grid);
+        if (boardCount > 1) {
+          board.objects = objManager.detachObjects();
+        }
+        boards.push(board);
       }
 
-      // Generate and create enemies based on level budget
-      const enemiesToSpawn = generateEnemiesForLevel(globalCurrentLevel, enemyDatabase);
-      enemiesToSpawn.forEach(({ enemyId, position }) => {
-        const enemy = objManager.createEnemy(position, enemyId);
-        enemy.isInStartLevelSequence = true;
-      });
+      // A rival mason may race the player to the exit (single boards only, see LEVEL_RIVALS)
+      const rivalDifficulty = getRivalDifficultyForLevel(globalCurrentLevel);
+      if (boardCount === 1 && rivalDifficulty && getRunRandom().next() < RIVAL.SPAWN_CHANCE) {
+        const rivalStart = pickRivalStart(state.grid, ends[0].start, ends[0].goal);
+        if (rivalStart) {
+          turnManager.addRival(rivalStart, rivalDifficulty);
+        }
+      }
 
-      // Spawn random items on empty tiles (tier based on level)
-      objManager.spawnRandomItems(ITEM_DROP_PROBABILITY, globalCurrentLevel);
+      // The floor's par is the sum of its boards' (unknown if any board's is)
+      state.par = pars.some(par => par === null) ? null : pars.reduce<number>((sum, par) => sum + par!, 0);
+
+      if (boardCount > 1) {
+        for (let index = 0; index < boardCount - 1; index++) {
+          linkBoards(boards, index, ends[index].goal, ends[index + 1].start);
+        }
+
+        // The player starts on the first board
+        state.grid = boards[0].grid;
+        objManager.attachObjects(boards[0].objects);
+        boards[0].objects = [];
+        state.floor = { boards, current: 0 };
+      }
     }
 
     // Create and start the level sequence
@@ -363,4 +590,3 @@ export function createMainScene(): void {
     startSequence.start();
   });
 }
-
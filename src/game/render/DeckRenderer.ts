@@ -0,0 +1,101 @@
+import { k } from "../../kaplayCtx";
+import { TileType, type DeckComposition } from "../types";
+import type { TileDeck } from "../core/TileDeck";
+import { getDeckSize } from "../systems/DeckBuilder";
+import { addTileMarker, getTileFrame } from "./UIRenderer";
+
+const ROW_HEIGHT = 30;
+const COLUMN_WIDTH = 150;
+
+/**
+ * Draws one column of tile counts: a label with the total, then one row per tile type
+ * @param label Column heading
+ * @param composition Tiles to count
+ * @param total Number shown next to the label
+ * @param x Left edge of the column
+ * @param y Top of the column
+ * @param tag Tag added to every object (used to clear them)
+ */
+export function drawDeckColumn(
+  label: string,
+  composition: DeckComposition,
+  total: number,
+  x: number,
+  y: number,
+  tag: string
+): void {
+  k.add([
+    k.text(`${label} (${total})`, { font: "saga", size: 16 }),
+    k.pos(x, y),
+    k.color(255, 215, 0),
+    k.z(2001),
+    tag,
+  ]);
+
+  Object.values(TileType).forEach((type, index) => {
+    const rowY = y + 24 + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const count = composition[type] ?? 0;
+    const tileObj = k.add([
+      k.sprite("tiles", { frame: getTileFrame(type, 0) }),
+      k.pos(x + 12, rowY),
+      k.anchor("center"),
+      k.scale(0.75),
+      k.opacity(count > 0 ? 1 : 0.3),
+      k.z(2001),
+      tag,
+    ]);
+    addTileMarker(tileObj, type, 0);
+    k.add([
+      k.text(`${type} x${count}`, { font: "saga", size: 16 }),
+      k.pos(x + 30, rowY),
+      k.anchor("left"),
+      k.color(count > 0 ? 255 : 120, count > 0 ? 255 : 120, count > 0 ? 255 : 120),
+      k.z(2001),
+      tag,
+    ]);
+  });
+}
+
+/**
+ * Draws the deck view overlay: draw pile, discard pile and the tiles in hand
+ * @param deck Deck the hand draws from
+ * @param inHand Tiles currently in hand (including the hold slot)
+ */
+export function drawDeckView(deck: TileDeck, inHand: DeckComposition): void {
+  k.add([
+    k.rect(640, 360),
+    k.pos(0, 0),
+    k.color(0, 0, 0),
+    k.opacity(0.85),
+    k.area(),
+    k.z(2000),
+    "deckView",
+  ]);
+
+  k.add([
+    k.text("Deck", { font: "saga", size: 16 }),
+    k.pos(320, 20),
+    k.anchor("center"),
+    k.color(255, 255, 255),
+    k.z(2001),
+    "deckView",
+  ]);
+
+  const left = (640 - 3 * COLUMN_WIDTH) / 2;
+  drawDeckColumn("Draw pile", deck.getDrawPileComposition(), deck.getDrawPileCount(), left, 50, "deckView");
+  drawDeckColumn("Discard pile", deck.getDiscardPileComposition(), deck.getDiscardPileCount(), left + COLUMN_WIDTH, 50, "deckView");
+  drawDeckColumn("In hand", inHand, getDeckSize(inHand), left + 2 * COLUMN_WIDTH, 50, "deckView");
+
+  k.add([
+    k.text("Press V to close", { font: "saga", size: 16 }),
+    k.pos(320, 330),
+    k.anchor("center"),
+    k.color(150, 150, 150),
+    k.z(2001),
+    "deckView",
+  ]);
+}
+
+export function clearDeckView(): void {
+  k.destroyAll("deckView");
+}
@@ -1,7 +1,11 @@
 import { k } from "../../kaplayCtx";
-import { TileType, Direction, PlayerPhase, ObjectType, type TileInstance, type PlotPosition, type MapObject } from "../types";
-import { COLORS } from "../config";
+import { TileType, Direction, PlayerPhase, ObjectType, SurfaceFeature, type TileInstance, type PlotPosition, type MapObject, type Doorway, type RoutePlan } from "../types";
+import { COLORS, TILE_SIZE } from "../config";
 import { TileFrames, BrickFrames } from "../assets";
+import { getPushedLinePositions, getShiftedPositions, getPitInPushedLine, isPit, isVoid } from "../core/Grid";
+import type { PushPreview } from "../systems/PushPreview";
+import { getTileStability } from "../systems/Structure";
+import { addTileMarker } from "./UIRenderer";
 
 /**
  * Gets the sprite frame for a tile based on type and orientation
@@ -18,6 +22,10 @@ function getTileFrame(type: TileType, direction: Direction): number {
     case TileType.L: column = TileFrames.L; break;
     case TileType.T: column = TileFrames.T; break;
     case TileType.Cross: column = TileFrames.Cross; break;
+    // No art for special tiles yet: base frame plus an overlay (see addTileMarker())
+    case TileType.OneWay: column = TileFrames.Straight; break;
+    case TileType.Bridge: column = TileFrames.Cross; break;
+    case TileType.LockedDoor: column = TileFrames.Straight; break;
   }
 
   // Calculate frame: row (direction) * 6 + column (type)
@@ -27,17 +35,18 @@ function getTileFrame(type: TileType, direction: Direction): number {
 
 /**
  * Gets the correct brick frame for a grid position based on its location
+ * A void neighbour is an edge just like the grid border.
+ * @param grid The grid
  * @param row Grid row position
  * @param col Grid column position
- * @param rows Total number of rows
- * @param cols Total number of columns
  * @returns The brick animation frame index
  */
-function getBrickFrame(row: number, col: number, rows: number, cols: number): number {
-  const isTopEdge = row === 0;
-  const isBottomEdge = row === rows - 1;
-  const isLeftEdge = col === 0;
-  const isRightEdge = col === cols - 1;
+function getBrickFrame(grid: TileInstance[][], row: number, col: number): number {
+  const isEdge = (r: number, c: number) => !grid[r]?.[c] || isVoid(grid[r][c]);
+  const isTopEdge = isEdge(row - 1, col);
+  const isBottomEdge = isEdge(row + 1, col);
+  const isLeftEdge = isEdge(row, col - 1);
+  const isRightEdge = isEdge(row, col + 1);
 
   // Corners
   if (isTopEdge && isLeftEdge) return BrickFrames.NW;
@@ -56,30 +65,32 @@ function getBrickFrame(row: number, col: number, rows: number, cols: number): nu
 }
 
 /**
- * Draws the brick background layer for the entire grid
- * @param rows Number of rows in the grid
- * @param cols Number of columns in the grid
+ * Draws the brick background layer for the entire grid (void cells have none)
+ * @param grid The grid
  * @param gridOffsetX X offset of the grid in pixels
  * @param gridOffsetY Y offset of the grid in pixels
  * @param tileSize Size of each tile in pixels
  */
 export function drawBrickLayer(
-  rows: number,
-  cols: number,
+  grid: TileInstance[][],
   gridOffsetX: number,
   gridOffsetY: number,
   tileSize: number,
   isInStartLevelSequence: boolean = false,
   revealedTiles: Set<string> = new Set()
 ): void {
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[r].length; c++) {
       // Skip unrevealed tiles during start level sequence
       if (isInStartLevelSequence && !revealedTiles.has(`${r},${c}`)) {
         continue;
       }
 
-      const frame = getBrickFrame(r, c, rows, cols);
+      if (isVoid(grid[r][c])) {
+        continue;
+      }
+
+      const frame = getBrickFrame(grid, r, c);
       const x = gridOffsetX + c * tileSize + tileSize / 2;
       const y = gridOffsetY + r * tileSize + tileSize / 2;
 
@@ -131,6 +142,58 @@ export function getPlotScreenPos(
   return { x, y };
 }
 
+/**
+ * Draws the surface feature lying on a tile as children of its sprite, so it moves with pushes
+ * @param tileObj The tile sprite
+ * @param tile The tile, nothing is drawn if it has no feature
+ */
+function addFeatureMarker(tileObj: ReturnType<typeof k.add>, tile: TileInstance): void {
+  switch (tile.feature) {
+    case SurfaceFeature.Water:
+      tileObj.add([
+        k.rect(TILE_SIZE - 10, TILE_SIZE - 10, { radius: 4 }),
+        k.anchor("center"),
+        k.color(...COLORS.water),
+        k.opacity(0.5),
+      ]);
+      break;
+    case SurfaceFeature.Spikes:
+      for (const [dx, dy] of [[-6, -6], [6, -6], [-6, 6], [6, 6]]) {
+        tileObj.add([
+          k.polygon([k.vec2(-3, 3), k.vec2(3, 3), k.vec2(0, -4)]),
+          k.pos(dx, dy),
+          k.color(...COLORS.spikes),
+        ]);
+      }
+      break;
+    case SurfaceFeature.Rubble:
+      for (const [dx, dy, radius] of [[-5, -3, 5], [5, -1, 4], [0, 6, 4]]) {
+        tileObj.add([
+          k.circle(radius),
+          k.pos(dx, dy),
+          k.color(...COLORS.rubble),
+          k.outline(1, k.rgb(...COLORS.overlay)),
+        ]);
+      }
+      break;
+    case SurfaceFeature.Teleport:
+      tileObj.add([
+        k.circle(9),
+        k.anchor("center"),
+        k.color(...COLORS.teleport),
+        k.opacity(0.6),
+        k.outline(1, k.rgb(...COLORS.teleport)),
+      ]);
+      // Linked pads share a number
+      tileObj.add([
+        k.text(`${(tile.padId ?? 0) + 1}`, { font: "3x5", size: 6 }),
+        k.anchor("center"),
+        k.color(255, 255, 255),
+      ]);
+      break;
+  }
+}
+
 /**
  * Draws a single tile at the specified position
  * @param tile The tile to draw
@@ -144,6 +207,18 @@ export function drawTile(
   y: number,
   tag?: string
 ): ReturnType<typeof k.add> {
+  // A collapsed tile is just a hole in the floor
+  if (isPit(tile)) {
+    return k.add([
+      k.rect(TILE_SIZE, TILE_SIZE),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.color(...COLORS.pit),
+      k.opacity(1),
+      tag ? tag : "tile",
+    ]);
+  }
+
   const frame = getTileFrame(tile.type, tile.orientation);
 
   const tileObj = k.add([
@@ -152,6 +227,8 @@ export function drawTile(
     k.anchor("center"),
     tag ? tag : "tile",
   ]);
+  addTileMarker(tileObj, tile.type, tile.orientation);
+  addFeatureMarker(tileObj, tile);
 
   return tileObj;
 }
@@ -172,7 +249,7 @@ export function drawGrid(
   for (let r = 0; r < grid.length; r++) {
     for (let c = 0; c < grid[r].length; c++) {
       const tile = grid[r][c];
-      if (tile) {
+      if (tile && !isVoid(tile)) {
         const x = gridOffsetX + c * tileSize + tileSize / 2;
         const y = gridOffsetY + r * tileSize + tileSize / 2;
         drawTile(tile, x, y, "gridTile");
@@ -191,6 +268,7 @@ export function drawGrid(
  * @param gridRows Number of rows in the grid
  * @param gridCols Number of columns in the grid
  * @param tileSize Size of each tile in pixels
+ * @param isBlocked Whether a game rule closes this plot (drawn grey and not clickable)
  */
 export function drawPlot(
   plot: PlotPosition,
@@ -200,11 +278,23 @@ export function drawPlot(
   gridOffsetY: number,
   gridRows: number,
   gridCols: number,
-  tileSize: number
+  tileSize: number,
+  isBlocked: boolean = false
 ): ReturnType<typeof k.add> {
   const { x, y } = getPlotScreenPos(plot, gridOffsetX, gridOffsetY, gridRows, gridCols, tileSize);
   const frame = plot.direction * 6 + TileFrames.Plot;
 
+  if (isBlocked) {
+    return k.add([
+      k.sprite("tiles", { frame }),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.color(90, 90, 90),
+      k.opacity(0.5),
+      "plot",
+    ]);
+  }
+
   const isGreen = isSelected && playerPhase === PlayerPhase.TilePlacement;
   const tintColor = isGreen
     ? k.rgb(100, 255, 100)
@@ -234,6 +324,7 @@ export function drawPlot(
  * @param gridRows Number of rows in the grid
  * @param gridCols Number of columns in the grid
  * @param tileSize Size of each tile in pixels
+ * @param blockedPlots Plots closed by a game rule (e.g. no reverse push)
  */
 export function drawPlots(
   plots: PlotPosition[],
@@ -243,7 +334,8 @@ export function drawPlots(
   gridOffsetY: number,
   gridRows: number,
   gridCols: number,
-  tileSize: number
+  tileSize: number,
+  blockedPlots: PlotPosition[] = []
 ): void {
   for (const plot of plots) {
     const isSelected = selectedPlot !== null &&
@@ -251,6 +343,9 @@ export function drawPlots(
       selectedPlot.col === plot.col;
     drawPlot(plot, isSelected, playerPhase, gridOffsetX, gridOffsetY, gridRows, gridCols, tileSize);
   }
+  for (const plot of blockedPlots) {
+    drawPlot(plot, false, playerPhase, gridOffsetX, gridOffsetY, gridRows, gridCols, tileSize, true);
+  }
 }
 
 /**
@@ -279,7 +374,7 @@ export function drawGridWithOverlay(
   revealedTiles: Set<string> = new Set()
 ): void {
   // Draw brick background layer first
-  drawBrickLayer(gridRows, gridCols, gridOffsetX, gridOffsetY, tileSize, isInStartLevelSequence, revealedTiles);
+  drawBrickLayer(grid, gridOffsetX, gridOffsetY, tileSize, isInStartLevelSequence, revealedTiles);
 
   const gridWidth = gridCols * tileSize;
   const gridHeight = gridRows * tileSize;
@@ -300,7 +395,7 @@ export function drawGridWithOverlay(
     for (let r = 0; r < grid.length; r++) {
       for (let c = 0; c < grid[r].length; c++) {
         const tile = grid[r][c];
-        if (tile) {
+        if (tile && !isVoid(tile)) {
           // Skip unrevealed tiles during start level sequence
           if (isInStartLevelSequence && !revealedTiles.has(`${r},${c}`)) {
             continue;
@@ -342,7 +437,7 @@ export function drawGridWithOverlay(
     for (let r = 0; r < grid.length; r++) {
       for (let c = 0; c < grid[r].length; c++) {
         const tile = grid[r][c];
-        if (tile) {
+        if (tile && !isVoid(tile)) {
           // Skip unrevealed tiles during start level sequence
           if (isInStartLevelSequence && !revealedTiles.has(`${r},${c}`)) {
             continue;
@@ -386,6 +481,7 @@ export function drawCurrentTile(
     k.area(),
     "currentTile",
   ]);
+  addTileMarker(tileObj, tile.type, tile.orientation);
 
   return tileObj;
 }
@@ -433,9 +529,13 @@ export async function animatePush(
     deltaX = -tileSize;
   }
 
-  const isVertical = plot.row === -1 || plot.row === gridRows;
-  const affectedRow = isVertical ? -1 : plot.row;
-  const affectedCol = isVertical ? plot.col : -1;
+  // Only the tiles in front of a pit move, the pit itself stays in place until it is filled
+  const shifted = getShiftedPositions(grid, plot);
+  const filledPit = getPitInPushedLine(grid, plot);
+  const movingKeys = new Set(
+    (filledPit ? shifted.slice(0, -1) : shifted).map(({ row, col }) => `${row},${col}`)
+  );
+  const isMoving = (row: number, col: number) => movingKeys.has(`${row},${col}`);
 
   k.destroyAll("gridTile");
   k.destroyAll("mapObject");
@@ -443,15 +543,13 @@ export async function animatePush(
   for (let r = 0; r < grid.length; r++) {
     for (let c = 0; c < grid[r].length; c++) {
       const tile = grid[r][c];
-      if (tile) {
+      if (tile && !isVoid(tile)) {
         // Skip unrevealed tiles during start level sequence
         if (isInStartLevelSequence && !revealedTiles.has(`${r},${c}`)) {
           continue;
         }
 
-        const isAffected = (affectedRow !== -1 && r === affectedRow) ||
-                          (affectedCol !== -1 && c === affectedCol);
-        if (!isAffected) {
+        if (!isMoving(r, c)) {
           const x = gridOffsetX + c * tileSize + tileSize / 2;
           const y = gridOffsetY + r * tileSize + tileSize / 2;
           drawTile(tile, x, y, "gridTile");
@@ -464,38 +562,19 @@ export async function animatePush(
 
   const affectedTileObjs: ReturnType<typeof k.add>[] = [];
 
-  if (isVertical) {
-    const col = plot.col;
-    for (let r = 0; r < grid.length; r++) {
-      const tile = grid[r][col];
-      if (tile) {
-        // Skip unrevealed tiles during start level sequence
-        if (isInStartLevelSequence && !revealedTiles.has(`${r},${col}`)) {
-          continue;
-        }
+  for (const { row, col } of shifted) {
+    const tile = grid[row][col];
+    if (!tile || !isMoving(row, col)) continue;
 
-        const x = gridOffsetX + col * tileSize + tileSize / 2;
-        const y = gridOffsetY + r * tileSize + tileSize / 2;
-        const tileObj = drawTile(tile, x, y, "animatingTile");
-        affectedTileObjs.push(tileObj);
-      }
+    // Skip unrevealed tiles during start level sequence
+    if (isInStartLevelSequence && !revealedTiles.has(`${row},${col}`)) {
+      continue;
     }
-  } else {
-    const row = plot.row;
-    for (let c = 0; c < grid[row].length; c++) {
-      const tile = grid[row][c];
-      if (tile) {
-        // Skip unrevealed tiles during start level sequence
-        if (isInStartLevelSequence && !revealedTiles.has(`${row},${c}`)) {
-          continue;
-        }
 
-        const x = gridOffsetX + c * tileSize + tileSize / 2;
-        const y = gridOffsetY + row * tileSize + tileSize / 2;
-        const tileObj = drawTile(tile, x, y, "animatingTile");
-        affectedTileObjs.push(tileObj);
-      }
-    }
+    const x = gridOffsetX + col * tileSize + tileSize / 2;
+    const y = gridOffsetY + row * tileSize + tileSize / 2;
+    const tileObj = drawTile(tile, x, y, "animatingTile");
+    affectedTileObjs.push(tileObj);
   }
 
   const animatingObjectObjs: ReturnType<typeof k.add>[] = [];
@@ -507,9 +586,7 @@ export async function animatePush(
       continue;
     }
 
-    const isAffected = (affectedRow !== -1 && obj.gridPosition.row === affectedRow) ||
-                      (affectedCol !== -1 && obj.gridPosition.col === affectedCol);
-    if (isAffected) {
+    if (isMoving(obj.gridPosition.row, obj.gridPosition.col)) {
       const x = gridOffsetX + obj.gridPosition.col * tileSize + tileSize / 2 + obj.spriteOffset.x;
       const y = gridOffsetY + obj.gridPosition.row * tileSize + tileSize / 2 + obj.spriteOffset.y;
 
@@ -596,6 +673,7 @@ export async function animatePush(
  * @param tileSize Size of each tile
  * @param isInStartLevelSequence Whether the game is in the start level sequence
  * @param revealedTiles Set of revealed tiles during start level sequence
+ * @param showStability Whether to label unstable tiles with their stability (in percent)
  */
 export function drawDecayOverlay(
   grid: TileInstance[][],
@@ -603,7 +681,8 @@ export function drawDecayOverlay(
   offsetY: number,
   tileSize: number,
   isInStartLevelSequence: boolean = false,
-  revealedTiles: Set<string> = new Set()
+  revealedTiles: Set<string> = new Set(),
+  showStability: boolean = false
 ): void {
   for (let row = 0; row < grid.length; row++) {
     for (let col = 0; col < grid[row].length; col++) {
@@ -613,7 +692,7 @@ export function drawDecayOverlay(
       }
 
       const tile = grid[row][col];
-      if (tile && tile.decay > 0) {
+      if (tile && tile.decay > 0 && !isPit(tile) && !isVoid(tile)) {
         const x = offsetX + col * tileSize + tileSize / 2;
         const y = offsetY + row * tileSize + tileSize / 2;
 
@@ -625,10 +704,180 @@ export function drawDecayOverlay(
           "decayOverlay",
         ]);
       }
+
+      if (showStability && tile && !isPit(tile) && !isVoid(tile)) {
+        const stability = Math.round(getTileStability(grid, { row, col }) * 100);
+        if (stability < 100) {
+          // Red when about to give way, yellow when slightly weakened
+          const color = stability < 40 ? { r: 255, g: 60, b: 60 } : stability < 70 ? { r: 255, g: 165, b: 0 } : { r: 255, g: 230, b: 120 };
+          k.add([
+            k.text(stability.toString(), { font: "3x5", size: 6 }),
+            k.pos(offsetX + col * tileSize + 2, offsetY + row * tileSize + 2),
+            k.anchor("topleft"),
+            k.color(color.r, color.g, color.b),
+            k.z(1),
+            "decayOverlay",
+          ]);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Draws the tile part of a push preview: the pushed line as it will look after the push,
+ * with the worst-case decay of tiles that may decay
+ * @param preview Simulated push outcome
+ * @param gridOffsetX X offset of the grid in pixels
+ * @param gridOffsetY Y offset of the grid in pixels
+ * @param tileSize Size of each tile in pixels
+ */
+export function drawPushPreviewTiles(
+  preview: PushPreview,
+  gridOffsetX: number,
+  gridOffsetY: number,
+  tileSize: number
+): void {
+  const worstDecay = new Map(preview.decay.map(d => [`${d.position.row},${d.position.col}`, d.maxDecay]));
+
+  for (const { row, col } of getPushedLinePositions(preview.grid, preview.plot)) {
+    const tile = preview.grid[row][col];
+    if (isVoid(tile)) continue;
+    const x = gridOffsetX + col * tileSize + tileSize / 2;
+    const y = gridOffsetY + row * tileSize + tileSize / 2;
+    const decay = worstDecay.get(`${row},${col}`) ?? tile.decay;
+
+    // Dark backing hides the current tile, so the ghost reads as the future state
+    k.add([
+      k.rect(tileSize, tileSize),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.color(...COLORS.overlay),
+      k.opacity(0.8),
+      k.z(1),
+      "pushPreview",
+    ]);
+    const ghost = k.add([
+      k.sprite("tiles", { frame: getTileFrame(tile.type, tile.orientation) }),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.opacity(0.6),
+      k.z(1),
+      "pushPreview",
+    ]);
+    addTileMarker(ghost, tile.type, tile.orientation);
+
+    if (decay > 0 && !isPit(tile)) {
+      k.add([
+        k.sprite("decay", { frame: decay }),
+        k.pos(x, y),
+        k.anchor("center"),
+        k.opacity(worstDecay.has(`${row},${col}`) ? 0.8 : 0.6),
+        k.z(1),
+        "pushPreview",
+      ]);
     }
   }
 }
 
+/**
+ * Draws an arrow past the outward side of every doorway, pointing to the board it leads to
+ * @param doorways Doorways of the board on screen
+ * @param offsetX X offset of the grid in pixels
+ * @param offsetY Y offset of the grid in pixels
+ * @param tileSize Size of each tile in pixels
+ */
+export function drawDoorways(
+  doorways: Doorway[],
+  offsetX: number,
+  offsetY: number,
+  tileSize: number
+): void {
+  for (const { position, side } of doorways) {
+    const [dx, dy] = [[0, -1], [1, 0], [0, 1], [-1, 0]][side];
+    const distance = tileSize / 2 + 6;
+    const x = offsetX + position.col * tileSize + tileSize / 2 + dx * distance;
+    const y = offsetY + position.row * tileSize + tileSize / 2 + dy * distance;
+
+    k.add([
+      k.polygon([k.vec2(-5, 3), k.vec2(5, 3), k.vec2(0, -4)]),
+      k.pos(x, y),
+      k.rotate(side * 90),
+      k.color(...COLORS.doorway),
+      k.outline(1, k.rgb(...COLORS.overlay)),
+      k.z(1),
+      "doorway",
+    ]);
+  }
+}
+
+/**
+ * Draws a route hint: a numbered marker per turn, dots along each move and a ghost of each
+ * pushed or rotated tile. Positions are where each step happens, later pushes may shift them.
+ * @param plan Route to show
+ * @param gridOffsetX X offset of the grid in pixels
+ * @param gridOffsetY Y offset of the grid in pixels
+ * @param gridRows Number of rows in the grid
+ * @param gridCols Number of columns in the grid
+ * @param tileSize Size of each tile in pixels
+ */
+export function drawRouteHint(
+  plan: RoutePlan,
+  gridOffsetX: number,
+  gridOffsetY: number,
+  gridRows: number,
+  gridCols: number,
+  tileSize: number
+): void {
+  const cellCenter = (row: number, col: number) => ({
+    x: gridOffsetX + col * tileSize + tileSize / 2,
+    y: gridOffsetY + row * tileSize + tileSize / 2,
+  });
+
+  plan.steps.forEach((step, index) => {
+    let marker: { x: number; y: number };
+
+    if (step.type === "move") {
+      for (const { row, col } of step.path.slice(1, -1)) {
+        const { x, y } = cellCenter(row, col);
+        k.add([k.circle(2), k.pos(x, y), k.anchor("center"), k.color(...COLORS.hint), k.z(2), "routeHint"]);
+      }
+      marker = cellCenter(step.to.row, step.to.col);
+    } else {
+      marker = step.type === "push"
+        ? getPlotScreenPos(step.plot, gridOffsetX, gridOffsetY, gridRows, gridCols, tileSize)
+        : cellCenter(step.at.row, step.at.col);
+      const ghost = k.add([
+        k.sprite("tiles", { frame: getTileFrame(step.tile.type, step.tile.orientation) }),
+        k.pos(marker.x, marker.y),
+        k.anchor("center"),
+        k.opacity(0.5),
+        k.z(2),
+        "routeHint",
+      ]);
+      addTileMarker(ghost, step.tile.type, step.tile.orientation);
+    }
+
+    k.add([
+      k.circle(5),
+      k.pos(marker.x, marker.y),
+      k.anchor("center"),
+      k.color(...COLORS.hint),
+      k.outline(1, k.rgb(...COLORS.overlay)),
+      k.z(2),
+      "routeHint",
+    ]);
+    k.add([
+      k.text(`${index + 1}`, { font: "3x5", size: 10 }),
+      k.pos(marker.x, marker.y),
+      k.anchor("center"),
+      k.color(...COLORS.overlay),
+      k.z(2),
+      "routeHint",
+    ]);
+  });
+}
+
 /**
  * Clears all grid-related visual elements
  */
@@ -640,4 +889,7 @@ export function clearGrid(): void {
   k.destroyAll("overlay");
   k.destroyAll("highlightArea");
   k.destroyAll("decayOverlay");
+  k.destroyAll("pushPreview");
+  k.destroyAll("doorway");
+  k.destroyAll("routeHint");
 }
@@ -1,5 +1,40 @@
 import { k } from "../../kaplayCtx";
 import { type MapObject, ObjectType } from "../types";
+import type { PushPreview } from "../systems/PushPreview";
+import { COLORS } from "../config";
+
+/**
+ * Returns the sprite options (animation or frame) an object is drawn with
+ */
+function getSpriteConfig(obj: MapObject): { anim?: string; frame?: number; flipX: boolean } {
+  // Player plays drop animation during start, idle when standing still
+  // Enemies play idle animation
+  // Items use the sprite atlas specified in obj.sprite with frame number from obj.frame
+  // Others use frame 0
+  if (obj.type === ObjectType.Player) {
+    const anim = obj.isPlayingDropAnimation ? (obj.entryAnimationName || "drop") : "idle";
+    return { anim, flipX: obj.flipX };
+  } else if (obj.type === ObjectType.Rival) {
+    return { anim: "idle", flipX: obj.flipX };
+  } else if (obj.type === ObjectType.Enemy) {
+    // Use entry animation if set, otherwise default to idle
+    const anim = obj.entryAnimationName || "idle";
+    return { anim, flipX: obj.flipX };
+  } else if (obj.type === ObjectType.Bomb) {
+    // Bomb animation based on turns remaining
+    let anim = "fuse_long";
+    const turnsRemaining = obj.bombTurnsRemaining ?? 5;
+    if (turnsRemaining <= 1) {
+      anim = "shake";
+    } else if (turnsRemaining <= 3) {
+      anim = "fuse_short";
+    }
+    return { anim, flipX: obj.flipX };
+  } else if (obj.type === ObjectType.Item) {
+    return { frame: obj.frame ?? 0, flipX: obj.flipX };
+  }
+  return { frame: 0, flipX: obj.flipX };
+}
 
 /**
  * Draws all map objects (player, enemies, items, exits) on the grid
@@ -33,38 +68,8 @@ export function drawMapObjects(
     const x = gridOffsetX + obj.gridPosition.col * tileSize + tileSize / 2 + obj.pixelOffset.x + obj.spriteOffset.x;
     const y = gridOffsetY + obj.gridPosition.row * tileSize + tileSize / 2 + obj.pixelOffset.y + obj.spriteOffset.y;
 
-    // Player plays drop animation during start, idle when standing still
-    // Enemies play idle animation
-    // Items use the sprite atlas specified in obj.sprite with frame number from obj.frame
-    // Others use frame 0
-    let spriteConfig;
-    let spriteName = obj.sprite;
-
-    if (obj.type === ObjectType.Player) {
-      const anim = obj.isPlayingDropAnimation ? (obj.entryAnimationName || "drop") : "idle";
-      spriteConfig = { anim, flipX: obj.flipX };
-    } else if (obj.type === ObjectType.Enemy) {
-      // Use entry animation if set, otherwise default to idle
-      const anim = obj.entryAnimationName || "idle";
-      spriteConfig = { anim, flipX: obj.flipX };
-    } else if (obj.type === ObjectType.Bomb) {
-      // Bomb animation based on turns remaining
-      let anim = "fuse_long";
-      const turnsRemaining = obj.bombTurnsRemaining ?? 5;
-      if (turnsRemaining <= 1) {
-        anim = "shake";
-      } else if (turnsRemaining <= 3) {
-        anim = "fuse_short";
-      }
-      spriteConfig = { anim, flipX: obj.flipX };
-    } else if (obj.type === ObjectType.Item) {
-      spriteConfig = { frame: obj.frame ?? 0, flipX: obj.flipX };
-    } else {
-      spriteConfig = { frame: 0, flipX: obj.flipX };
-    }
-
     const components: any[] = [
-      k.sprite(spriteName, spriteConfig),
+      k.sprite(obj.sprite, getSpriteConfig(obj)),
       k.pos(x, y),
       k.anchor("center"),
       k.area(),
@@ -107,13 +112,14 @@ export function drawMapObjects(
 
 /**
  * Draws reachable tile highlights for movement
+ * Tiles only reachable over risky ground are drawn in the risky route color.
  * @param tiles Array of reachable tile positions
  * @param gridOffsetX X offset of the grid in pixels
  * @param gridOffsetY Y offset of the grid in pixels
  * @param tileSize Size of each tile in pixels
  */
 export function drawReachableTiles(
-  tiles: { position: { row: number; col: number } }[],
+  tiles: { position: { row: number; col: number }; risky?: boolean }[],
   gridOffsetX: number,
   gridOffsetY: number,
   tileSize: number
@@ -126,7 +132,7 @@ export function drawReachableTiles(
       k.rect(tileSize - 2, tileSize - 2),
       k.pos(x, y),
       k.anchor("center"),
-      k.color(100, 255, 100),
+      tile.risky ? k.color(...COLORS.riskyRoute) : k.color(100, 255, 100),
       k.opacity(0.3),
       k.area(),
       "reachableHighlight",
@@ -135,6 +141,67 @@ export function drawReachableTiles(
   }
 }
 
+/**
+ * Draws the object part of a push preview: translucent ghosts where objects end up,
+ * red crosses on objects that would be pushed off the grid, and the player's next reachable tiles
+ * (tiles only reachable over risky ground in the risky route color)
+ * @param preview Simulated push outcome
+ * @param gridOffsetX X offset of the grid in pixels
+ * @param gridOffsetY Y offset of the grid in pixels
+ * @param tileSize Size of each tile in pixels
+ */
+export function drawPushPreviewObjects(
+  preview: PushPreview,
+  gridOffsetX: number,
+  gridOffsetY: number,
+  tileSize: number
+): void {
+  for (const { object, to } of preview.moved) {
+    if (object.isInStartLevelSequence) continue;
+    k.add([
+      k.sprite(object.sprite, getSpriteConfig(object)),
+      k.pos(
+        gridOffsetX + to.col * tileSize + tileSize / 2 + object.spriteOffset.x,
+        gridOffsetY + to.row * tileSize + tileSize / 2 + object.spriteOffset.y
+      ),
+      k.anchor("center"),
+      k.opacity(0.5),
+      k.z(3),  // Above the real objects (z=2)
+      "pushPreview",
+    ]);
+  }
+
+  // Ejected objects are marked where they are now, fallen ones where they drop into the pit
+  const doomed = [
+    ...preview.ejected.map(object => object.gridPosition),
+    ...preview.moved.filter(({ object }) => preview.fallen.includes(object)).map(({ to }) => to),
+  ];
+  for (const position of doomed) {
+    const x = gridOffsetX + position.col * tileSize + tileSize / 2;
+    const y = gridOffsetY + position.row * tileSize + tileSize / 2;
+    k.add([
+      k.text("X", { font: "saga", size: 16 }),
+      k.pos(x, y),
+      k.anchor("center"),
+      k.color(255, 80, 80),
+      k.z(3),
+      "pushPreview",
+    ]);
+  }
+
+  for (const tile of preview.reachable) {
+    k.add([
+      k.circle(3),
+      k.pos(gridOffsetX + tile.position.col * tileSize + tileSize / 2, gridOffsetY + tile.position.row * tileSize + tileSize / 2),
+      k.anchor("center"),
+      k.color(...(tile.risky ? COLORS.riskyRoute : COLORS.reachable)),
+      k.opacity(0.8),
+      k.z(3),
+      "pushPreview",
+    ]);
+  }
+}
+
 /**
  * Clears all map object related visuals
  */
@@ -144,4 +211,5 @@ export function clearMapObjects(): void {
   k.destroyAll("movingPlayer");
   k.destroyAll("movingEnemy");
   k.destroyAll("itemCharge");
+  k.destroyAll("pushPreview");
 }
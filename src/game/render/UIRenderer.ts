@@ -1,11 +1,12 @@
 import { k } from "../../kaplayCtx";
-import { type TileInstance, type MapObject, type GameState, TileType, Direction, type ItemInstance, type ItemDefinition, type Buff } from "../types";
+import { type TileInstance, type MapObject, type GameState, TileType, Direction, type Orientation, type ItemInstance, type ItemDefinition, type Buff } from "../types";
 import { TileFrames, BrickFrames } from "../assets";
-import { UI, INVENTORY, EQUIPMENT, DESCRIPTION } from "../config";
+import { UI, INVENTORY, EQUIPMENT, DESCRIPTION, TILE_SIZE, GRID_OFFSET_X, PREVIEW_Y, COLORS } from "../config";
 import { type ItemDatabase } from "../systems/ItemDatabase";
 import { isSlotBlocked } from "../systems/EquipmentManager";
+import { getGridSize } from "../core/Grid";
 
-function getTileFrame(type: TileType, direction: Direction): number {
+export function getTileFrame(type: TileType, direction: Direction): number {
   // Get base column for tile type
   let column: number;
   switch (type) {
@@ -14,12 +15,61 @@ function getTileFrame(type: TileType, direction: Direction): number {
     case TileType.L: column = TileFrames.L; break;
     case TileType.T: column = TileFrames.T; break;
     case TileType.Cross: column = TileFrames.Cross; break;
+    // No art for special tiles yet: base frame plus an overlay (see addTileMarker())
+    case TileType.OneWay: column = TileFrames.Straight; break;
+    case TileType.Bridge: column = TileFrames.Cross; break;
+    case TileType.LockedDoor: column = TileFrames.Straight; break;
   }
 
   // Calculate frame: row (direction) * 6 + column (type)
   return direction * 6 + column;
 }
 
+/**
+ * Draws the overlay of a special tile on top of its sprite: an arrow along a one-way gate,
+ * planks over a bridge and a lock on a locked door. Does nothing for other tiles.
+ * @param tileObj The tile sprite (the overlay is added as a child, so it follows its position and scale)
+ * @param type The tile type
+ * @param orientation The tile's orientation
+ */
+export function addTileMarker(tileObj: ReturnType<typeof k.add>, type: TileType, orientation: Orientation): void {
+  switch (type) {
+    case TileType.OneWay:
+      // Points from the entry to the exit (south at orientation 0)
+      tileObj.add([
+        k.polygon([k.vec2(-6, -4), k.vec2(6, -4), k.vec2(0, 5)]),
+        k.rotate(orientation * 90),
+        k.color(...COLORS.oneWay),
+        k.outline(1, k.rgb(...COLORS.overlay)),
+      ]);
+      break;
+    case TileType.Bridge:
+      // The N-S path runs over the E-W one
+      tileObj.add([
+        k.rect(10, TILE_SIZE - 6),
+        k.anchor("center"),
+        k.color(...COLORS.bridge),
+        k.outline(1, k.rgb(...COLORS.overlay)),
+      ]);
+      break;
+    case TileType.LockedDoor:
+      tileObj.add([
+        k.rect(12, 10),
+        k.anchor("center"),
+        k.pos(0, 2),
+        k.color(...COLORS.lock),
+        k.outline(1, k.rgb(...COLORS.overlay)),
+      ]);
+      tileObj.add([
+        k.rect(2, 4),
+        k.anchor("center"),
+        k.pos(0, 2),
+        k.color(...COLORS.overlay),
+      ]);
+      break;
+  }
+}
+
 /**
  * Draws player stats in the UI
  * @param player The player object with stats
@@ -73,18 +123,30 @@ export function drawPlayerStats(player: MapObject, x: number, y: number): void {
  * @param tile The tile to preview
  * @param x X coordinate for tile center
  * @param y Y coordinate for tile center
+ * @param labelLeft Draw the label left of the tile instead of above it
  */
 export function drawPreviewTile(
   tile: TileInstance,
   x: number,
-  y: number
+  y: number,
+  labelLeft: boolean = false
 ): ReturnType<typeof k.add> {
-  k.add([
-    k.text("next tile", { font: "saga", size: 16 }),
-    k.pos(x-25, y - 40),
-    k.color(200, 200, 200),
-    "previewLabel",
-  ]);
+  if (labelLeft) {
+    k.add([
+      k.text("next tile", { font: "saga", size: 16 }),
+      k.pos(x - TILE_SIZE, y),
+      k.anchor("right"),
+      k.color(200, 200, 200),
+      "previewLabel",
+    ]);
+  } else {
+    k.add([
+      k.text("next tile", { font: "saga", size: 16 }),
+      k.pos(x-25, y - 40),
+      k.color(200, 200, 200),
+      "previewLabel",
+    ]);
+  }
 
   // Draw brick background (center frame)
   k.add([
@@ -106,15 +168,91 @@ export function drawPreviewTile(
     k.area(),
     "previewTile",
   ]);
+  addTileMarker(tileObj, tile.type, tile.orientation);
 
   return tileObj;
 }
 
+/**
+ * Draws the rest of the hand, the hold slot and the upcoming deck tiles below the preview tile
+ * Hand tiles (tag "handTile", with handIndex) and the hold slot (tag "holdSlot") are clickable
+ * @param hand Hand tiles other than the active one
+ * @param heldTile Tile in the hold slot, if any
+ * @param upcoming Next tiles of the deck, the first one is drawn next
+ * @param x X coordinate of the preview tile center
+ * @param y Y coordinate of the preview tile center
+ * @param labelLeft Preview is below the UI panel, so rows are right-aligned with it
+ */
+export function drawHand(
+  hand: TileInstance[],
+  heldTile: TileInstance | null,
+  upcoming: TileInstance[],
+  x: number,
+  y: number,
+  labelLeft: boolean = false
+): void {
+  const spacing = TILE_SIZE + 4;
+  const upcomingSize = TILE_SIZE * 0.75;
+  const handY = y + TILE_SIZE * 0.75 + 8 + TILE_SIZE / 2;
+  const holdY = handY + TILE_SIZE + 6;
+
+  // Left edge of a row of the given width, centered on the preview or right-aligned with it
+  const rowStart = (width: number) => labelLeft ? x + TILE_SIZE * 0.75 - width : x - width / 2;
+
+  const addSlot = (tile: TileInstance | null, slotX: number, slotY: number, scale: number, tags: (string | object)[]) => {
+    k.add([
+      k.sprite("bricks", { frame: BrickFrames.C }),
+      k.pos(slotX, slotY),
+      k.anchor("center"),
+      k.scale(scale),
+      k.z(-1),
+      "handSlot",
+    ]);
+    if (tile) {
+      const tileObj = k.add([
+        k.sprite("tiles", { frame: getTileFrame(tile.type, tile.orientation) }),
+        k.pos(slotX, slotY),
+        k.anchor("center"),
+        k.scale(scale),
+        ...tags,
+      ]);
+      addTileMarker(tileObj, tile.type, tile.orientation);
+    }
+  };
+
+  // Inactive hand tiles
+  const handLeft = rowStart(hand.length * spacing - 4);
+  hand.forEach((tile, index) => {
+    addSlot(tile, handLeft + index * spacing + TILE_SIZE / 2, handY, 1, [k.area(), "handTile", { handIndex: index }]);
+  });
+
+  // Hold slot followed by the upcoming tiles (smaller and faded)
+  const holdLeft = rowStart(TILE_SIZE + 8 + upcoming.length * (upcomingSize + 2));
+  const holdX = holdLeft + TILE_SIZE / 2;
+  k.add([
+    k.rect(TILE_SIZE + 4, TILE_SIZE + 4),
+    k.pos(holdX, holdY),
+    k.anchor("center"),
+    k.color(200, 170, 90),
+    k.area(),
+    k.z(-2),
+    "holdSlot",
+  ]);
+  addSlot(heldTile, holdX, holdY, 1, ["handSlot"]);
+
+  upcoming.forEach((tile, index) => {
+    const upcomingX = holdLeft + TILE_SIZE + 8 + index * (upcomingSize + 2) + upcomingSize / 2;
+    addSlot(tile, upcomingX, holdY, 0.75, [k.opacity(0.6), "handSlot"]);
+  });
+}
+
 /**
  * Draws the current dungeon level display
  * @param currentLevel The current level (counts down from STARTING_LEVEL to 0)
+ * @param seed The run seed, shown so a run can be reported and replayed
+ * @param par Fewest actions needed to reach the exit, if known (see solveLevel())
  */
-export function drawLevelInfo(currentLevel: number): void {
+export function drawLevelInfo(currentLevel: number, seed?: string, par?: number | null, hintsLeft?: number): void {
   k.add([
     k.text(`Level: ${currentLevel}`, { font: "saga", size: 16 }),
     k.pos(320, 10),
@@ -122,6 +260,21 @@ export function drawLevelInfo(currentLevel: number): void {
     k.z(2000),
     "levelInfo",
   ]);
+  // Seed, par and hints left share a small line below the level number
+  const details = [
+    seed ? `Seed: ${seed}` : null,
+    par !== undefined && par !== null ? `Par: ${par}` : null,
+    hintsLeft !== undefined && Number.isFinite(hintsLeft) ? `Hints: ${hintsLeft}` : null,
+  ].filter(Boolean);
+  if (details.length > 0) {
+    k.add([
+      k.text(details.join("  "), { font: "3x5", size: 10 }),
+      k.pos(320, 28),
+      k.color(150, 150, 150),
+      k.z(2000),
+      "levelInfo",
+    ]);
+  }
 }
 
 /**
@@ -392,6 +545,9 @@ export function clearUI(): void {
   k.destroyAll("playerStats");
   k.destroyAll("previewTile");
   k.destroyAll("previewLabel");
+  k.destroyAll("handTile");
+  k.destroyAll("handSlot");
+  k.destroyAll("holdSlot");
   k.destroyAll("debugInfo");
   k.destroyAll("levelInfo");
   k.destroyAll("stateMachineInfo");
@@ -426,21 +582,59 @@ function calculateUIWidth(): number {
   return Math.max(topSectionWidth, inventoryWidth) + 2 * UI.PADDING;
 }
 
-// Internal helper to draw UI border
-function drawUIBorder(): void {
+/**
+ * Calculates the total height of the UI panel
+ */
+function calculateUIHeight(): number {
   const equipmentHeight = EQUIPMENT.SLOTS_Y * (EQUIPMENT.SLOT_SIZE + EQUIPMENT.SLOT_SPACING) - EQUIPMENT.SLOT_SPACING;
   const inventoryHeight = INVENTORY.SLOTS_Y * (INVENTORY.SLOT_SIZE + INVENTORY.SLOT_SPACING) - INVENTORY.SLOT_SPACING;
   const spacing = 8;
 
-  const totalWidth = calculateUIWidth();
-  const totalHeight =
-    UI.PADDING +
+  return UI.PADDING +
     equipmentHeight +
     spacing +
     inventoryHeight +
     spacing +
     DESCRIPTION.HEIGHT +
     UI.PADDING;
+}
+
+/**
+ * Calculates the X position of the UI panel for a grid with the given number of columns
+ * The panel is centered in the space right of the grid, but never extends past the screen edge
+ * @param cols Number of grid columns
+ */
+export function getUIX(cols: number): number {
+  const gridRight = GRID_OFFSET_X + cols * TILE_SIZE;
+  const centeredX = gridRight + (640 - gridRight) / 2 - 10;
+  return Math.min(centeredX, 640 - calculateUIWidth() - 2 * UI.PADDING);
+}
+
+/**
+ * Calculates the center of the next-tile preview for a grid with the given number of columns
+ * The preview sits between the east plots and the UI panel; if the grid is too wide
+ * for that, it moves below the UI panel with its label on the left
+ * @param cols Number of grid columns
+ */
+export function getPreviewPosition(cols: number): { x: number; y: number; labelLeft: boolean } {
+  const previewSize = TILE_SIZE * 1.5;
+  const plotsRight = GRID_OFFSET_X + (cols + 1) * TILE_SIZE;
+  const uiX = getUIX(cols);
+
+  if (uiX - plotsRight >= previewSize + 2 * UI.PADDING) {
+    return { x: Math.min(plotsRight + TILE_SIZE * 2, (plotsRight + uiX) / 2), y: PREVIEW_Y, labelLeft: false };
+  }
+  return {
+    x: uiX + calculateUIWidth() - UI.PADDING - previewSize / 2,
+    y: UI.Y + calculateUIHeight() + UI.PADDING + previewSize / 2,
+    labelLeft: true,
+  };
+}
+
+// Internal helper to draw UI border
+function drawUIBorder(uiX: number): void {
+  const totalWidth = calculateUIWidth();
+  const totalHeight = calculateUIHeight();
 
   k.add([
     k.sprite("woodframe", {
@@ -448,7 +642,7 @@ function drawUIBorder(): void {
       height: totalHeight,
     }),
     k.area(),
-    k.pos(UI.X, UI.Y),
+    k.pos(uiX, UI.Y),
     k.z(90),
     "uiBorder",
   ]);
@@ -456,15 +650,15 @@ function drawUIBorder(): void {
 
 /**
  * Draws a horizontal spacer line centered within the UI
- * @param x X coordinate (left edge of UI)
+ * @param uiX X coordinate (left edge of UI)
  * @param y Y coordinate for the spacer
  */
-export function drawSpacer(y: number): void {
+export function drawSpacer(uiX: number, y: number): void {
   const totalWidth = calculateUIWidth();
 
     k.add([
       k.sprite("hframe", { width: totalWidth, height: 9}),
-      k.pos(Math.round(UI.X), Math.round(y)),
+      k.pos(Math.round(uiX), Math.round(y)),
       // k.pos(490, 110),
       k.z(100),
       k.area(),
@@ -577,8 +771,9 @@ function drawDescription(x: number, y: number, itemDef?: ItemDefinition): void {
 /**
  * Draws buff icons in the top right of the UI frame
  * @param buffs Array of active buffs
+ * @param uiX X coordinate (left edge of UI)
  */
-function drawBuffs(buffs: Buff[]): void {
+function drawBuffs(buffs: Buff[], uiX: number): void {
   if (buffs.length === 0) return;
 
   const buffIconSize = 16;
@@ -586,7 +781,7 @@ function drawBuffs(buffs: Buff[]): void {
   const totalWidth = calculateUIWidth();
 
   // Position buffs in top right corner of UI frame
-  const startX = UI.X + totalWidth - UI.PADDING - buffIconSize;
+  const startX = uiX + totalWidth - UI.PADDING - buffIconSize;
   const startY = UI.Y + UI.PADDING;
 
   buffs.forEach((buff, index) => {
@@ -619,7 +814,8 @@ export function drawUI(
   const inventoryHeight = INVENTORY.SLOTS_Y * (INVENTORY.SLOT_SIZE + INVENTORY.SLOT_SPACING) - INVENTORY.SLOT_SPACING;
 
   // Calculate positions for each widget
-  const equipmentSlotsX = UI.X + UI.PADDING;
+  const uiX = getUIX(getGridSize(state.grid).cols);
+  const equipmentSlotsX = uiX + UI.PADDING;
   const equipmentSlotsY = UI.Y + UI.PADDING;
 
   const playerStatsX = equipmentSlotsX + equipmentWidth + spacing;
@@ -628,17 +824,17 @@ export function drawUI(
   // Spacer 1 positioned after equipment
   const spacer1Y = equipmentSlotsY + equipmentHeight + (spacing - spacerHeight) / 2;
 
-  const inventorySlotsX = UI.X + UI.PADDING;
+  const inventorySlotsX = uiX + UI.PADDING;
   const inventorySlotsY = equipmentSlotsY + equipmentHeight + spacing;
 
   // Spacer 2 positioned after inventory
   const spacer2Y = inventorySlotsY + inventoryHeight + (spacing - spacerHeight) / 2;
 
-  const descriptionX = UI.X + UI.PADDING;
+  const descriptionX = uiX + UI.PADDING;
   const descriptionY = inventorySlotsY + inventoryHeight + spacing;
 
   // Draw all UI components
-  drawUIBorder();
+  drawUIBorder(uiX);
   drawEquipmentSlots(equipmentSlotsX, equipmentSlotsY, [], state.equipment, itemDatabase);
   drawEquipmentItems(equipmentSlotsX, equipmentSlotsY, state.equipment, itemDatabase);
 
@@ -647,18 +843,18 @@ export function drawUI(
   }
 
   // Spacer between equipment and inventory
-  drawSpacer(spacer1Y);
+  drawSpacer(uiX, spacer1Y);
 
   drawInventorySlots(inventorySlotsX, inventorySlotsY);
   drawInventoryItems(inventorySlotsX, inventorySlotsY, state.inventory, itemDatabase);
 
   // Spacer between inventory and description
-  drawSpacer(spacer2Y);
+  drawSpacer(uiX, spacer2Y);
 
   drawDescription(descriptionX, descriptionY);
 
   // Draw buffs in top right
-  drawBuffs(state.buffs);
+  drawBuffs(state.buffs, uiX);
 }
 
 /**
@@ -668,9 +864,10 @@ export function drawUI(
 export function updateEquipmentSlotHighlighting(
   highlightedSlots: number[],
   equipment: (ItemInstance | null)[],
-  itemDatabase: ItemDatabase
+  itemDatabase: ItemDatabase,
+  uiX: number
 ): void {
-  const equipmentSlotsX = UI.X + UI.PADDING;
+  const equipmentSlotsX = uiX + UI.PADDING;
   const equipmentSlotsY = UI.Y + UI.PADDING;
 
   drawEquipmentSlots(equipmentSlotsX, equipmentSlotsY, highlightedSlots, equipment, itemDatabase);
@@ -680,12 +877,12 @@ export function updateEquipmentSlotHighlighting(
  * Updates item description widget (for hover effects in onDraw callback)
  * @internal Used by hover effect system
  */
-export function updateDescription(itemDef?: ItemDefinition): void {
+export function updateDescription(uiX: number, itemDef?: ItemDefinition): void {
   const spacing = 8;
   const equipmentHeight = EQUIPMENT.SLOTS_Y * (EQUIPMENT.SLOT_SIZE + EQUIPMENT.SLOT_SPACING) - EQUIPMENT.SLOT_SPACING;
   const inventoryHeight = INVENTORY.SLOTS_Y * (INVENTORY.SLOT_SIZE + INVENTORY.SLOT_SPACING) - INVENTORY.SLOT_SPACING;
   const inventorySlotsY = UI.Y + UI.PADDING + equipmentHeight + spacing;
-  const descriptionX = UI.X + UI.PADDING;
+  const descriptionX = uiX + UI.PADDING;
   const descriptionY = inventorySlotsY + inventoryHeight + spacing;
 
   drawDescription(descriptionX, descriptionY, itemDef);
@@ -0,0 +1,122 @@
+import { TileType, DecayAction, SurfaceFeature, GridShape, type BiomeTables, type DecayProfile } from "../types";
+import { TILE_WEIGHTS, DECAY_WEIGHTS, DECAY_PROFILES, DECAY_FALL_CHANCE, SURFACE_FEATURES, FEATURE_WEIGHTS, GRID_SHAPE_WEIGHTS } from "../config";
+
+/**
+ * Tables built from config.ts, used where no biome applies
+ */
+export const DEFAULT_BIOME: BiomeTables = {
+  id: "default",
+  name: "Dungeon",
+  tileWeights: { ...TILE_WEIGHTS },
+  decayWeights: { ...DECAY_WEIGHTS },
+  decayProfiles: { ...DECAY_PROFILES },
+  fallChance: { ...DECAY_FALL_CHANCE },
+  featureChance: SURFACE_FEATURES.CHANCE,
+  featureWeights: { ...FEATURE_WEIGHTS },
+  shapeWeights: { ...GRID_SHAPE_WEIGHTS },
+};
+
+/**
+ * Fills in the decay profiles a biome leaves out (or only partly overrides) from the defaults
+ */
+function mergeDecayProfiles(profiles: Partial<Record<DecayAction, Partial<DecayProfile>>>): Record<DecayAction, DecayProfile> {
+  const merged = { ...DEFAULT_BIOME.decayProfiles };
+  for (const action of Object.values(DecayAction)) {
+    merged[action] = { ...merged[action], ...profiles[action] };
+  }
+  return merged;
+}
+
+/**
+ * Maps a range of depths to a biome
+ * First entry with level >= minLevel wins (levels count down to 0)
+ */
+export interface BiomeDepth {
+  minLevel: number;
+  biome: string;
+}
+
+export class BiomeDatabase {
+  private biomes: Map<string, BiomeTables> = new Map();
+  private depths: BiomeDepth[] = [];
+
+  async load(path: string): Promise<void> {
+    try {
+      const response = await fetch(path);
+      if (!response.ok) {
+        throw new Error(`Failed to load biomes: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      // Biomes only list the tables they change, the rest comes from the defaults
+      for (const [id, biomeData] of Object.entries(data.biomes ?? {})) {
+        const biome = biomeData as any;
+        this.biomes.set(id, {
+          id,
+          name: biome.name ?? id,
+          tileWeights: { ...DEFAULT_BIOME.tileWeights, ...biome.tileWeights },
+          decayWeights: biome.decayWeights ?? DEFAULT_BIOME.decayWeights,
+          decayProfiles: mergeDecayProfiles(biome.decayProfiles ?? {}),
+          fallChance: biome.fallChance ?? DEFAULT_BIOME.fallChance,
+          featureChance: biome.featureChance ?? DEFAULT_BIOME.featureChance,
+          featureWeights: { ...DEFAULT_BIOME.featureWeights, ...biome.featureWeights },
+          shapeWeights: { ...DEFAULT_BIOME.shapeWeights, ...biome.shapeWeights },
+        });
+
+        const unknownTypes = Object.keys(biome.tileWeights ?? {}).filter(
+          type => !(Object.values(TileType) as string[]).includes(type)
+        );
+        if (unknownTypes.length > 0) {
+          console.warn(`[BiomeDatabase] Biome ${id} has unknown tile types: ${unknownTypes.join(", ")}`);
+        }
+
+        const unknownActions = Object.keys(biome.decayProfiles ?? {}).filter(
+          action => !(Object.values(DecayAction) as string[]).includes(action)
+        );
+        if (unknownActions.length > 0) {
+          console.warn(`[BiomeDatabase] Biome ${id} has unknown decay actions: ${unknownActions.join(", ")}`);
+        }
+
+        const unknownFeatures = Object.keys(biome.featureWeights ?? {}).filter(
+          feature => !(Object.values(SurfaceFeature) as string[]).includes(feature)
+        );
+        if (unknownFeatures.length > 0) {
+          console.warn(`[BiomeDatabase] Biome ${id} has unknown surface features: ${unknownFeatures.join(", ")}`);
+        }
+
+        const unknownShapes = Object.keys(biome.shapeWeights ?? {}).filter(
+          shape => !(Object.values(GridShape) as string[]).includes(shape)
+        );
+        if (unknownShapes.length > 0) {
+          console.warn(`[BiomeDatabase] Biome ${id} has unknown grid shapes: ${unknownShapes.join(", ")}`);
+        }
+      }
+
+      this.depths = [...(data.depths ?? [])].sort((a: BiomeDepth, b: BiomeDepth) => b.minLevel - a.minLevel);
+      for (const depth of this.depths) {
+        if (!this.biomes.has(depth.biome)) {
+          console.warn(`[BiomeDatabase] Depth ${depth.minLevel} uses unknown biome ${depth.biome}`);
+        }
+      }
+    } catch (error) {
+      console.error("[BiomeDatabase] Error loading biomes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the biome with the given id, or undefined if there is none
+   */
+  getBiome(id: string | undefined): BiomeTables | undefined {
+    return id ? this.biomes.get(id) : undefined;
+  }
+
+  /**
+   * Returns the biome of a dungeon level, or the default tables if no depth entry covers it
+   */
+  getBiomeForLevel(level: number): BiomeTables {
+    const depth = this.depths.find(entry => level >= entry.minLevel);
+    return this.getBiome(depth?.biome) ?? DEFAULT_BIOME;
+  }
+}
@@ -1,8 +1,7 @@
 import { k } from "../../kaplayCtx";
 import { PlayerPhase, TurnOwner, type PlotPosition, type GridPosition } from "../types";
 import type { TurnManager } from "./TurnManager";
-import { PREVIEW_X, PREVIEW_Y } from "../config";
-import { findReachableTiles } from "./Pathfinding";
+import { findReachableTiles, getCostProfile } from "./Pathfinding";
 import { isWallBlocking } from "./WallBump";
 import {
   screenToGrid,
@@ -27,6 +26,8 @@ export interface ClickCallbacks {
   onExecutePush: () => void;
   onSelectPlot: (plot: PlotPosition) => void;
   onCancelPlacement: () => void;
+  onSelectHandTile: (index: number) => void;
+  onHoldTile: () => void;
 }
 
 /**
@@ -89,7 +90,7 @@ export class ClickManager {
     }
 
     // Check if right-clicking on preview/current tile for counter-clockwise rotation
-    if (isMouseOverPreviewTile(mousePos.x, mousePos.y, PREVIEW_X, PREVIEW_Y)) {
+    if (isMouseOverPreviewTile(mousePos.x, mousePos.y, turnManager.getState().grid)) {
       this.callbacks.onRotateTileCounterClockwise();
       return true;
     }
@@ -104,7 +105,7 @@ export class ClickManager {
       return true;
     }
 
-    const gridPos = screenToGrid(mousePos.x, mousePos.y);
+    const gridPos = screenToGrid(mousePos.x, mousePos.y, turnManager.getState().grid);
     if (!gridPos) {
       // Click outside grid - cancel rotation
       this.callbacks.onCancelRotation();
@@ -128,7 +129,7 @@ export class ClickManager {
 
       if (!isClickingRotatingTile) {
         const moves = turnManager.getObjectManager().getAvailableMoves(player);
-        const reachable = findReachableTiles(state.grid, state.rotatingTilePosition, moves, [], true);
+        const reachable = findReachableTiles(state.grid, state.rotatingTilePosition, moves, [], player.flying, getCostProfile(player));
         const target = reachable.find(
           (t) => t.position.row === gridPos.row && t.position.col === gridPos.col
         );
@@ -145,7 +146,36 @@ export class ClickManager {
     return true;
   }
 
-  private handleTilePlacementClick(mousePos: { x: number; y: number }, _turnManager: TurnManager): boolean {
+  /**
+   * Handles clicks on the inactive hand tiles and the hold slot
+   * @returns true if one of them was clicked
+   */
+  private handleHandClick(mousePos: { x: number; y: number }): boolean {
+    const handTiles = k.get("handTile");
+    for (const tile of handTiles) {
+      if ((tile as any).hasPoint && (tile as any).hasPoint(mousePos)) {
+        this.callbacks.onSelectHandTile((tile as any).handIndex as number);
+        return true;
+      }
+    }
+
+    const holdSlots = k.get("holdSlot");
+    for (const slot of holdSlots) {
+      if ((slot as any).hasPoint && (slot as any).hasPoint(mousePos)) {
+        this.callbacks.onHoldTile();
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private handleTilePlacementClick(mousePos: { x: number; y: number }, turnManager: TurnManager): boolean {
+    // Check if clicking on the hand or hold slot (swap the tile being placed)
+    if (this.handleHandClick(mousePos)) {
+      return true;
+    }
+
     // Check if clicking on the current tile being placed (rotate)
     const currentTiles = k.get("currentTile");
     for (const tile of currentTiles) {
@@ -156,7 +186,7 @@ export class ClickManager {
     }
 
     // Check if clicking on preview tile (rotate)
-    if (isMouseOverPreviewTile(mousePos.x, mousePos.y, PREVIEW_X, PREVIEW_Y)) {
+    if (isMouseOverPreviewTile(mousePos.x, mousePos.y, turnManager.getState().grid)) {
       this.callbacks.onRotateTile();
       return true;
     }
@@ -196,8 +226,13 @@ export class ClickManager {
       return true;
     }
 
+    // Check if clicking on the hand or hold slot (choose the active tile)
+    if (this.handleHandClick(mousePos)) {
+      return true;
+    }
+
     // Check if clicking on preview tile (enter placement or rotate)
-    if (isMouseOverPreviewTile(mousePos.x, mousePos.y, PREVIEW_X, PREVIEW_Y)) {
+    if (isMouseOverPreviewTile(mousePos.x, mousePos.y, turnManager.getState().grid)) {
       if (turnManager.canPlaceTile()) {
         this.callbacks.onEnterTilePlacement();
         return true;
@@ -206,10 +241,10 @@ export class ClickManager {
 
     // Check for direct movement to grid tile
     if (player.movesRemaining > 0) {
-      const gridPos = screenToGrid(mousePos.x, mousePos.y);
+      const gridPos = screenToGrid(mousePos.x, mousePos.y, turnManager.getState().grid);
       if (gridPos) {
         const moves = turnManager.getObjectManager().getAvailableMoves(player);
-        const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], true);
+        const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], player.flying, getCostProfile(player));
         const target = reachable.find(
           (t) => t.position.row === gridPos.row && t.position.col === gridPos.col
         );
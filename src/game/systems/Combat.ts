@@ -1,5 +1,6 @@
 import { type MapObject } from "../types";
 import { COMBAT } from "../config";
+import { getRunRandom } from "../core/Random";
 
 export interface AttackResult {
   attacker: MapObject;
@@ -26,7 +27,7 @@ function calculateToHit(attacker: MapObject, defender: MapObject): { hit: boolea
   }
 
   const agiDiff = attacker.stats.agi - defender.stats.agi;
-  const toHitRoll = Math.random() * 100;
+  const toHitRoll = getRunRandom().next() * 100;
   const hitThreshold = COMBAT.BASE_HIT + agiDiff * COMBAT.HIT_MODIFIER;
 
   const hit = toHitRoll <= hitThreshold;
@@ -52,7 +53,7 @@ function calculateDamage(attacker: MapObject, defender: MapObject, critical: boo
 
   // random damage bonus
   let variance = Math.max(1, defender.stats.agi - attacker.stats.agi * .1);
-  let bonus = Math.floor(Math.random() * (2 * variance) - variance);
+  let bonus = Math.floor(getRunRandom().next() * (2 * variance) - variance);
 
   let damage = Math.max(1, baseDamage + bonus);
 
@@ -1,9 +1,9 @@
 import { k } from "../../kaplayCtx";
-import { PlayerPhase, Direction, TurnOwner } from "../types";
+import { PlayerPhase, Direction, TurnOwner, type TileInstance } from "../types";
 import type { TurnManager } from "./TurnManager";
-import { PREVIEW_X, PREVIEW_Y } from "../config";
-import { findReachableTiles } from "./Pathfinding";
+import { findReachableTiles, getCostProfile } from "./Pathfinding";
 import { isWallBlocking } from "./WallBump";
+import { isBlockedByFeature } from "./SurfaceFeatures";
 import {
   screenToGrid,
   getEnemyAtPosition,
@@ -64,6 +64,19 @@ export class CursorManager {
     return false;
   }
 
+  /**
+   * Check if mouse is over an inactive hand tile or the hold slot
+   */
+  private isMouseOverHand(mousePos: { x: number; y: number }): boolean {
+    const handObjects = [...k.get("handTile"), ...k.get("holdSlot")];
+    for (const obj of handObjects) {
+      if ((obj as any).hasPoint && (obj as any).hasPoint(mousePos)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   initialize(): void {
     this.changeCursorType("default");
   }
@@ -85,6 +98,11 @@ export class CursorManager {
       return this.getRotationModeCursor(mousePos, state, turnManager);
     }
 
+    // HAND: Choosing a tile or using the hold slot
+    if (state.turnOwner === TurnOwner.Player && this.isMouseOverHand(mousePos)) {
+      return "default";
+    }
+
     // TILE PLACEMENT STATE: Check for rotate or place/push cursors
     if (state.playerPhase === PlayerPhase.TilePlacement) {
       // Check if hovering over the tile at the selected plot position (for rotation)
@@ -93,13 +111,13 @@ export class CursorManager {
       }
 
       // Check if hovering over preview tile (for rotation)
-      if (!state.selectedPlot && isMouseOverPreviewTile(mousePos.x, mousePos.y, PREVIEW_X, PREVIEW_Y)) {
+      if (!state.selectedPlot && isMouseOverPreviewTile(mousePos.x, mousePos.y, turnManager.getState().grid)) {
         return "rotate";
       }
 
       // Check if hovering over selected plot's affected row/column (push cursor)
       if (state.selectedPlot) {
-        const pushCursor = this.getPushCursor(mousePos, state.selectedPlot);
+        const pushCursor = this.getPushCursor(mousePos, state.selectedPlot, state.grid);
         if (pushCursor) return pushCursor;
       }
 
@@ -123,7 +141,7 @@ export class CursorManager {
         return "default";
       }
 
-      const gridPos = screenToGrid(mousePos.x, mousePos.y);
+      const gridPos = screenToGrid(mousePos.x, mousePos.y, turnManager.getState().grid);
       if (!gridPos) {
         // Not over grid, check if over plots
         if (state.currentTile && this.isMouseOverPlot(mousePos)) {
@@ -142,7 +160,7 @@ export class CursorManager {
       // Calculate reachable tiles (no caching)
       // Note: Player doesn't avoid dangerous tiles - treat as flying for pathfinding to allow all tiles
       const moves = turnManager.getObjectManager().getAvailableMoves(player);
-      const reachableTiles = findReachableTiles(state.grid, player.gridPosition, moves, [], true);
+      const reachableTiles = findReachableTiles(state.grid, player.gridPosition, moves, [], player.flying, getCostProfile(player));
       const target = reachableTiles.find(t => t.position.row === gridPos.row && t.position.col === gridPos.col);
 
       // Check if enemy at position (attack cursor)
@@ -159,8 +177,8 @@ export class CursorManager {
       const dCol = Math.abs(gridPos.col - player.gridPosition.col);
       const isAdjacent = (dRow === 1 && dCol === 0) || (dRow === 0 && dCol === 1);
       if (isAdjacent && isWallBlocking(state.grid, player.gridPosition, gridPos)) {
-        // Check if player can break walls (has required equipment with charges)
-        if (this.canBreakWalls(state, turnManager)) {
+        // Check if player can break walls (has required equipment with charges), rubble needs no tools
+        if (this.canBreakWalls(state, turnManager) || isBlockedByFeature(state.grid[gridPos.row][gridPos.col])) {
           return "demolish";
         } else {
           return "cancel";
@@ -179,7 +197,7 @@ export class CursorManager {
   private getRotationModeCursor(mousePos: any, state: any, turnManager: TurnManager): CursorType {
     if (!state.rotatingTilePosition) return "cancel";
 
-    const gridPos = screenToGrid(mousePos.x, mousePos.y);
+    const gridPos = screenToGrid(mousePos.x, mousePos.y, turnManager.getState().grid);
     if (!gridPos) return "cancel";
 
     // Hovering over the rotating tile -> rotate cursor
@@ -192,14 +210,14 @@ export class CursorManager {
     if (!player) return "cancel";
 
     const moves = turnManager.getObjectManager().getAvailableMoves(player);
-    const reachable = findReachableTiles(state.grid, state.rotatingTilePosition, moves, [], true);
+    const reachable = findReachableTiles(state.grid, state.rotatingTilePosition, moves, [], player.flying, getCostProfile(player));
     const isReachable = reachable.some(t => t.position.row === gridPos.row && t.position.col === gridPos.col && t.path.length > 1);
 
     return isReachable ? "confirm" : "cancel";
   }
 
-  private getPushCursor(mousePos: any, selectedPlot: any): CursorType | null {
-    const gridPos = screenToGrid(mousePos.x, mousePos.y);
+  private getPushCursor(mousePos: any, selectedPlot: any, grid: TileInstance[][]): CursorType | null {
+    const gridPos = screenToGrid(mousePos.x, mousePos.y, grid);
     if (!gridPos) return null;
 
     // Check if in affected row/column
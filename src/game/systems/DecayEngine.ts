@@ -0,0 +1,243 @@
+import {
+  DecayArea,
+  ObjectType,
+  type DecayAction,
+  type DecayEvent,
+  type DecayProfile,
+  type GameState,
+  type GridPosition,
+  type PlotPosition,
+  type TileInstance,
+} from "../types";
+import { DECAY_PROGRESSION } from "../config";
+import { getGridSize, getPushedLinePositions, getRandomDecay, isPit, isVoid } from "../core/Grid";
+import { getRunRandom } from "../core/Random";
+
+export type ObjectLookup = { getObjectsAtPosition(row: number, col: number): any[] };
+
+/**
+ * Something that happened on the grid and may cause decay
+ */
+export interface DecayTrigger {
+  action: DecayAction;
+  at: GridPosition[];   // Tiles the action hit (pushed-in tile, rotated tile, bumped tiles, blast, enemy steps)
+  plot?: PlotPosition;  // Pushed plot, needed for DecayArea.Line
+}
+
+/**
+ * Current and worst-case decay of a tile that may decay
+ */
+export interface DecayPreview {
+  position: GridPosition;
+  decay: number;
+  maxDecay: number;
+}
+
+const positionKey = (pos: GridPosition) => `${pos.row},${pos.col}`;
+
+/**
+ * Returns true if decay may be applied to a tile.
+ * Fixed tiles, pits, void cells and tiles with exit objects never decay.
+ */
+export function canTileDecay(grid: TileInstance[][], pos: GridPosition, objects?: ObjectLookup): boolean {
+  const tile = grid[pos.row]?.[pos.col];
+  if (!tile || tile.fixed || isPit(tile) || isVoid(tile)) {
+    return false;
+  }
+
+  if (objects) {
+    return !objects.getObjectsAtPosition(pos.row, pos.col).some(obj => obj.type === ObjectType.Exit);
+  }
+
+  return true;
+}
+
+/**
+ * Returns the tiles a trigger affects, without duplicates or out-of-bounds positions.
+ * DecayArea.Random is resolved by applyDecay(), so only the hit tiles are returned for it.
+ */
+function getAreaPositions(grid: TileInstance[][], profile: DecayProfile, trigger: DecayTrigger): GridPosition[] {
+  const { rows, cols } = getGridSize(grid);
+  const positions = new Map<string, GridPosition>();
+  const add = (pos: GridPosition) => {
+    if (pos.row >= 0 && pos.row < rows && pos.col >= 0 && pos.col < cols) {
+      positions.set(positionKey(pos), pos);
+    }
+  };
+
+  switch (profile.area) {
+    case DecayArea.Target:
+    case DecayArea.Random:
+      trigger.at.forEach(add);
+      break;
+    case DecayArea.Neighbours:
+      for (const { row, col } of trigger.at) {
+        add({ row, col });
+        add({ row: row - 1, col });
+        add({ row: row + 1, col });
+        add({ row, col: col - 1 });
+        add({ row, col: col + 1 });
+      }
+      break;
+    case DecayArea.Line:
+      if (trigger.plot) {
+        getPushedLinePositions(grid, trigger.plot).forEach(add);
+      }
+      trigger.at.forEach(add);
+      break;
+    case DecayArea.Radius: {
+      const radius = profile.radius ?? 1;
+      for (const { row, col } of trigger.at) {
+        for (let dRow = -radius; dRow <= radius; dRow++) {
+          const span = radius - Math.abs(dRow);
+          for (let dCol = -span; dCol <= span; dCol++) {
+            add({ row: row + dRow, col: col + dCol });
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return [...positions.values()];
+}
+
+/**
+ * Returns the amount table for a tile: hit tiles use hitAmounts if the profile has them
+ */
+function getAmounts(profile: DecayProfile, pos: GridPosition, hitKeys: Set<string>): Record<number, number> {
+  return hitKeys.has(positionKey(pos)) && profile.hitAmounts ? profile.hitAmounts : profile.amounts;
+}
+
+/**
+ * Returns the largest increase an amount table can roll
+ */
+function getMaxAmount(amounts: Record<number, number>): number {
+  return Math.max(0, ...Object.entries(amounts).filter(([, weight]) => weight > 0).map(([amount]) => Number(amount)));
+}
+
+/**
+ * Rolls decay for every tile a trigger affects, using the profile of its action in the
+ * biome of the level. Does nothing in the boss room.
+ *
+ * Tiles that reach DECAY_PROGRESSION.MAX_DECAY collapse into pits. The resulting events
+ * are returned and also queued in `state.decayEvents` so the renderer can animate them.
+ *
+ * @param state Game state (grid is modified in place)
+ * @param trigger Action that happened and the tiles it hit
+ * @param objects Optional object lookup (tiles with exits don't decay)
+ * @returns One event per tile whose decay increased
+ */
+export function applyDecay(state: GameState, trigger: DecayTrigger, objects?: ObjectLookup): DecayEvent[] {
+  if (state.isBossRoom) {
+    return [];
+  }
+
+  const grid = state.grid;
+  const profile = state.biome.decayProfiles[trigger.action];
+  const hitKeys = new Set(trigger.at.map(positionKey));
+
+  let positions = getAreaPositions(grid, profile, trigger)
+    .filter(pos => canTileDecay(grid, pos, objects) && grid[pos.row][pos.col].decay < DECAY_PROGRESSION.MAX_DECAY);
+
+  if (profile.area === DecayArea.Random) {
+    // Random decay picks from the whole grid, the hit tiles are ignored
+    const { rows, cols } = getGridSize(grid);
+    const candidates: GridPosition[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        if (canTileDecay(grid, { row, col }, objects) && grid[row][col].decay < DECAY_PROGRESSION.MAX_DECAY) {
+          candidates.push({ row, col });
+        }
+      }
+    }
+    positions = getRunRandom().shuffle(candidates).slice(0, profile.count ?? 1);
+  }
+
+  const events: DecayEvent[] = [];
+  for (const position of positions) {
+    const tile = grid[position.row][position.col];
+    const increase = getRandomDecay(getAmounts(profile, position, hitKeys));
+    if (increase <= 0) continue;
+
+    const from = tile.decay;
+    tile.decay = Math.min(tile.decay + increase, DECAY_PROGRESSION.MAX_DECAY);
+
+    // A tile at max decay collapses into a pit
+    if (tile.decay === DECAY_PROGRESSION.MAX_DECAY) {
+      tile.collapsed = true;
+    }
+
+    events.push({ position, from, to: tile.decay, action: trigger.action });
+  }
+
+  state.decayEvents.push(...events);
+  return events;
+}
+
+/**
+ * Collapses tiles into pits at once (max decay), skipping tiles that can't decay.
+ * Does nothing in the boss room.
+ *
+ * @param state Game state (grid is modified in place)
+ * @param positions Tiles to collapse
+ * @param action Action the collapse is reported as
+ * @param objects Optional object lookup (tiles with exits don't decay)
+ * @returns One event per collapsed tile, also queued in `state.decayEvents`
+ */
+export function collapseTiles(
+  state: GameState,
+  positions: GridPosition[],
+  action: DecayAction,
+  objects?: ObjectLookup
+): DecayEvent[] {
+  if (state.isBossRoom) {
+    return [];
+  }
+
+  const events: DecayEvent[] = [];
+  for (const position of positions) {
+    if (!canTileDecay(state.grid, position, objects)) continue;
+
+    const tile = state.grid[position.row][position.col];
+    events.push({ position, from: tile.decay, to: DECAY_PROGRESSION.MAX_DECAY, action });
+    tile.decay = DECAY_PROGRESSION.MAX_DECAY;
+    tile.collapsed = true;
+  }
+
+  state.decayEvents.push(...events);
+  return events;
+}
+
+/**
+ * Side-effect-free counterpart of applyDecay().
+ * Returns the current and worst-case decay of every tile the trigger may decay.
+ * DecayArea.Random is not previewed since any tile could be picked.
+ *
+ * @param grid The grid the decay would apply to
+ * @param profiles Decay profiles of the level's biome
+ * @param trigger Action and the tiles it would hit
+ * @param objects Optional object positions (tiles with exits don't decay)
+ */
+export function previewDecay(
+  grid: TileInstance[][],
+  profiles: Record<DecayAction, DecayProfile>,
+  trigger: DecayTrigger,
+  objects?: ObjectLookup
+): DecayPreview[] {
+  const profile = profiles[trigger.action];
+  if (profile.area === DecayArea.Random) {
+    return [];
+  }
+
+  const hitKeys = new Set(trigger.at.map(positionKey));
+
+  return getAreaPositions(grid, profile, trigger)
+    .filter(pos => canTileDecay(grid, pos, objects))
+    .map(position => {
+      const decay = grid[position.row][position.col].decay;
+      const maxIncrease = getMaxAmount(getAmounts(profile, position, hitKeys));
+      return { position, decay, maxDecay: Math.min(decay + maxIncrease, DECAY_PROGRESSION.MAX_DECAY) };
+    })
+    .filter(({ decay, maxDecay }) => maxDecay > decay);
+}
@@ -0,0 +1,58 @@
+import { TileType, type DeckComposition } from "../types";
+import { DECK_BUILDING } from "../config";
+import { getRunRandom } from "../core/Random";
+import { isSpecialTile } from "../core/Tile";
+
+/**
+ * Returns the number of tiles in a deck
+ */
+export function getDeckSize(deck: DeckComposition): number {
+  return Object.values(deck).reduce((sum, count) => sum + (count ?? 0), 0);
+}
+
+/**
+ * Returns the tile type an upgrade turns the given type into, or null if it can't be upgraded
+ */
+export function getUpgradedType(type: TileType): TileType | null {
+  return (DECK_BUILDING.UPGRADES[type] as TileType | undefined) ?? null;
+}
+
+export function addTileToDeck(deck: DeckComposition, type: TileType): DeckComposition {
+  return { ...deck, [type]: (deck[type] ?? 0) + 1 };
+}
+
+/**
+ * Removes one tile of the given type
+ * Returns the deck unchanged if there is no such tile or the deck is at DECK_BUILDING.MIN_SIZE
+ */
+export function removeTileFromDeck(deck: DeckComposition, type: TileType): DeckComposition {
+  if (!canRemoveTile(deck, type)) {
+    return deck;
+  }
+  return { ...deck, [type]: deck[type]! - 1 };
+}
+
+export function canRemoveTile(deck: DeckComposition, type: TileType): boolean {
+  return (deck[type] ?? 0) > 0 && getDeckSize(deck) > DECK_BUILDING.MIN_SIZE;
+}
+
+/**
+ * Replaces one tile of the given type with its upgraded type
+ * Returns the deck unchanged if there is no such tile or it can't be upgraded
+ */
+export function upgradeTileInDeck(deck: DeckComposition, type: TileType): DeckComposition {
+  const upgraded = getUpgradedType(type);
+  if (!upgraded || !deck[type]) {
+    return deck;
+  }
+  return addTileToDeck({ ...deck, [type]: deck[type]! - 1 }, upgraded);
+}
+
+/**
+ * Picks the tile types offered to add to the deck between floors
+ * Only plain tiles are offered (never a gate, bridge or door)
+ */
+export function getTileOffers(count: number = DECK_BUILDING.OFFER_COUNT): TileType[] {
+  const types = Object.values(TileType).filter(type => !isSpecialTile(type));
+  return getRunRandom().shuffle(types).slice(0, count);
+}
@@ -1,7 +1,11 @@
-import { type TileInstance, type GridPosition, type MapObject, ObjectType, AIType } from "../types";
-import { findReachableTiles } from "./Pathfinding";
+import { type TileInstance, type GridPosition, type MapObject, type PlotPosition, type TileAction, type BehaviorAction, type BehaviorCondition, type BehaviorRule, type BehaviorState, ObjectType, SpawnStyle } from "../types";
+import { DEFAULT_ENEMY_BEHAVIOR, KITE } from "../config";
+import { findReachableTiles, getCostProfile, FlowField } from "./Pathfinding";
 import { MapObjectManager } from "./MapObjectManager";
-import { getTileEdges } from "../core/Tile";
+import { getConnectivity } from "../core/Connectivity";
+import { getRunRandom } from "../core/Random";
+import { isVoid } from "../core/Grid";
+import { findTileAction } from "./EnemyTactics";
 
 function manhattanDistance(a: GridPosition, b: GridPosition): number {
   return Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
@@ -9,6 +13,7 @@ function manhattanDistance(a: GridPosition, b: GridPosition): number {
 
 /**
  * Checks if there's a straight line of sight between two positions with no blocking walls
+ * (answered from the grid's connectivity graph, see ConnectivityGraph.hasLineOfSight())
  * @param grid The game grid
  * @param from Starting position
  * @param to Target position
@@ -19,93 +24,29 @@ function hasLineOfSight(
   from: GridPosition,
   to: GridPosition
 ): boolean {
-  const rows = grid.length;
-  const cols = grid[0].length;
-
-  // Check if positions are in a straight line (same row or same column)
-  const isSameRow = from.row === to.row;
-  const isSameCol = from.col === to.col;
-
-  if (!isSameRow && !isSameCol) {
-    return false; // Not a straight line
-  }
-
-  // Check each tile along the path
-  if (isSameRow) {
-    // Horizontal line of sight
-    const direction = from.col < to.col ? 1 : -1;
-
-    for (let col = from.col; col !== to.col; col += direction) {
-      const currentPos = { row: from.row, col };
-      const nextPos = { row: from.row, col: col + direction };
-
-      // Check bounds
-      if (nextPos.col < 0 || nextPos.col >= cols) {
-        return false;
-      }
-
-      const currentTile = grid[currentPos.row][currentPos.col];
-      const nextTile = grid[nextPos.row][nextPos.col];
-
-      if (!currentTile || !nextTile) {
-        return false;
-      }
-
-      // Check if there's an opening in the correct direction
-      const currentEdges = getTileEdges(currentTile.type, currentTile.orientation);
-      const nextEdges = getTileEdges(nextTile.type, nextTile.orientation);
-
-      if (direction > 0) {
-        // Moving east
-        if (!currentEdges.east || !nextEdges.west) {
-          return false; // Wall blocking
-        }
-      } else {
-        // Moving west
-        if (!currentEdges.west || !nextEdges.east) {
-          return false; // Wall blocking
-        }
-      }
-    }
-  } else {
-    // Vertical line of sight
-    const direction = from.row < to.row ? 1 : -1;
-
-    for (let row = from.row; row !== to.row; row += direction) {
-      const currentPos = { row, col: from.col };
-      const nextPos = { row: row + direction, col: from.col };
-
-      // Check bounds
-      if (nextPos.row < 0 || nextPos.row >= rows) {
-        return false;
-      }
-
-      const currentTile = grid[currentPos.row][currentPos.col];
-      const nextTile = grid[nextPos.row][nextPos.col];
-
-      if (!currentTile || !nextTile) {
-        return false;
-      }
+  return getConnectivity(grid).hasLineOfSight(from, to);
+}
 
-      // Check if there's an opening in the correct direction
-      const currentEdges = getTileEdges(currentTile.type, currentTile.orientation);
-      const nextEdges = getTileEdges(nextTile.type, nextTile.orientation);
+/**
+ * Flow fields towards the player, one per way of moving, shared by the enemies of a turn
+ * Keyed by "flying:profile", built when the first enemy that moves that way needs one.
+ */
+export type FlowFields = Map<string, FlowField>;
 
-      if (direction > 0) {
-        // Moving south
-        if (!currentEdges.south || !nextEdges.north) {
-          return false; // Wall blocking
-        }
-      } else {
-        // Moving north
-        if (!currentEdges.north || !nextEdges.south) {
-          return false; // Wall blocking
-        }
-      }
-    }
+function getFlowField(
+  flowFields: FlowFields,
+  grid: TileInstance[][],
+  enemy: MapObject,
+  playerPos: GridPosition
+): FlowField {
+  const profile = getCostProfile(enemy);
+  const key = `${enemy.flying}:${profile}`;
+  let field = flowFields.get(key);
+  if (!field) {
+    field = new FlowField(grid, playerPos, enemy.flying, profile);
+    flowFields.set(key, field);
   }
-
-  return true; // Clear line of sight
+  return field;
 }
 
 export interface EnemyMove {
@@ -116,24 +57,36 @@ export interface EnemyMove {
   healTarget?: MapObject;  // Target to heal (only for healing actions)
   isTeleportAction?: boolean;  // True if this is a teleport action
   isSummonAction?: boolean;  // True if this is a summon action
-  summonPosition?: GridPosition;  // Position where skeleton will be summoned
-  isBossSpawnAction?: boolean;  // True if this is a boss spawn action
-  bossSpawnEnemyType?: string;  // Type of enemy to spawn (only for boss spawn actions)
-  bossSpawnPosition?: GridPosition;  // Position where enemy will be spawned
+  summonEnemyType?: string;  // Type of enemy to summon (only for summon actions)
+  summonPosition?: GridPosition;  // Position where the enemy will be summoned
+  spawnStyle?: SpawnStyle;  // How the enemy is brought in (only for summon actions)
+  isTileAction?: boolean;  // True if this is a push or rotation instead of movement
+  tileAction?: TileAction;  // Push or rotation to take (only for tile actions)
 }
 
+/**
+ * Calculates hunter behavior: follow the true path towards the player
+ * An enemy with no way to the player gets as close as the crow flies instead.
+ */
 function calculateHunterMove(
   grid: TileInstance[][],
   enemy: MapObject,
   playerPos: GridPosition,
-  blockedPositions: GridPosition[]
+  blockedPositions: GridPosition[],
+  flowFields: FlowFields
 ): EnemyMove | null {
   const moves = enemy.movesRemaining;
   if (moves <= 0) {
     return null;
   }
 
-  const reachable = findReachableTiles(grid, enemy.gridPosition, moves, blockedPositions, enemy.flying);
+  const field = getFlowField(flowFields, grid, enemy, playerPos);
+  if (field.getCost(enemy.gridPosition) < Infinity) {
+    const walk = field.follow(enemy.gridPosition, moves, blockedPositions);
+    return walk ? { enemy, path: walk.path } : null;
+  }
+
+  const reachable = findReachableTiles(grid, enemy.gridPosition, moves, blockedPositions, enemy.flying, getCostProfile(enemy));
   if (reachable.length === 0) {
     return null;
   }
@@ -142,11 +95,14 @@ function calculateHunterMove(
 
   let bestMove: EnemyMove | null = null;
   let bestDistance = currentDistance;
+  let bestCost = Infinity;
 
+  // Closest to the player wins, the path the enemy's cost profile likes best breaks ties
   for (const tile of reachable) {
     const distance = manhattanDistance(tile.position, playerPos);
-    if (distance < bestDistance) {
+    if (distance < bestDistance || (distance === bestDistance && bestMove && tile.cost < bestCost)) {
       bestDistance = distance;
+      bestCost = tile.cost;
       bestMove = { enemy, path: tile.path };
     }
   }
@@ -155,96 +111,161 @@ function calculateHunterMove(
 }
 
 /**
- * Calculates ranged enemy behavior
- * If line of sight exists, perform ranged attack instead of moving
- * Otherwise, move toward player like Hunter
+ * Everything a behavior rule looks at to decide an enemy's move
  */
-function calculateRangedMove(
-  grid: TileInstance[][],
-  enemy: MapObject,
-  playerPos: GridPosition,
-  blockedPositions: GridPosition[]
-): EnemyMove | null {
-  // Check if we have line of sight to player
-  const hasLOS = hasLineOfSight(grid, enemy.gridPosition, playerPos);
+interface BehaviorContext {
+  grid: TileInstance[][];
+  enemy: MapObject;
+  playerPos: GridPosition;
+  blockedPositions: GridPosition[];
+  allEnemies: MapObject[];
+  objectManager?: MapObjectManager;
+  flowFields: FlowFields;
+  lastPushedPlot: PlotPosition | null;
+  huntMove?: EnemyMove | null;  // Hunter move, once worked out (see getHuntMove())
+}
 
-  if (hasLOS) {
-    // Perform ranged attack - no movement, just mark as ranged attack
-    return {
-      enemy,
-      path: [enemy.gridPosition], // Stay in place
-      isRangedAttack: true,
-    };
-  }
+type BehaviorHandler = (context: BehaviorContext, rule: BehaviorRule) => EnemyMove | null;
 
-  // No line of sight, behave like Hunter (move toward player)
-  return calculateHunterMove(grid, enemy, playerPos, blockedPositions);
+function getHuntMove(context: BehaviorContext): EnemyMove | null {
+  if (context.huntMove === undefined) {
+    const { grid, enemy, playerPos, blockedPositions, flowFields } = context;
+    context.huntMove = calculateHunterMove(grid, enemy, playerPos, blockedPositions, flowFields);
+  }
+  return context.huntMove;
 }
 
 /**
- * Calculates healer enemy behavior
- * If there's a wounded ally with LOS, heal them instead of moving
- * Otherwise, move toward player like Hunter
+ * Returns every tile an enemy could be summoned onto: not void, and free of mobs and objects
  */
-function calculateHealerMove(
-  grid: TileInstance[][],
-  enemy: MapObject,
-  playerPos: GridPosition,
-  blockedPositions: GridPosition[],
-  allEnemies: MapObject[]
-): EnemyMove | null {
-  // Find wounded allies (enemies that are not at full HP)
-  const woundedAllies = allEnemies.filter(ally =>
-    ally.id !== enemy.id &&
-    ally.currentHP !== undefined &&
-    ally.stats?.hp !== undefined &&
-    ally.currentHP < ally.stats.hp &&
-    ally.currentHP > 0  // Not dead
-  );
-
-  // Check each wounded ally for line of sight
-  for (const ally of woundedAllies) {
-    const hasLOS = hasLineOfSight(grid, enemy.gridPosition, ally.gridPosition);
-
-    if (hasLOS) {
-      // Heal this ally
-      return {
-        enemy,
-        path: [enemy.gridPosition], // Stay in place
-        isHealingAction: true,
-        healTarget: ally,
-      };
+function findFreePositions(context: BehaviorContext, objectManager: MapObjectManager): GridPosition[] {
+  const { grid, enemy, playerPos, blockedPositions } = context;
+  const isTaken = (pos: GridPosition) =>
+    [...blockedPositions, playerPos, enemy.gridPosition].some(taken => taken.row === pos.row && taken.col === pos.col);
+
+  const positions: GridPosition[] = [];
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[0].length; col++) {
+      const pos = { row, col };
+      if (!isVoid(grid[row][col]) && !isTaken(pos) && objectManager.getObjectsAtPosition(row, col).length === 0) {
+        positions.push(pos);
+      }
     }
   }
+  return positions;
+}
 
-  // No wounded allies with LOS, behave like Hunter (move toward player and attack normally)
-  return calculateHunterMove(grid, enemy, playerPos, blockedPositions);
+/**
+ * Returns the tiles the player could attack next turn: every tile within a turn's movement
+ * (a step onto an enemy's tile is an attack), or its neighbours when there's no player object
+ */
+function getPlayerReach(context: BehaviorContext): Set<string> {
+  const { grid, playerPos, objectManager } = context;
+  const player = objectManager?.getPlayer();
+  const reach = player
+    ? findReachableTiles(grid, playerPos, Math.max(1, Math.floor(player.movementSpeed)), [], player.flying, getCostProfile(player))
+        .map(({ position }) => position)
+    : [
+        { row: playerPos.row - 1, col: playerPos.col },
+        { row: playerPos.row + 1, col: playerPos.col },
+        { row: playerPos.row, col: playerPos.col - 1 },
+        { row: playerPos.row, col: playerPos.col + 1 },
+      ];
+  return new Set(reach.map(({ row, col }) => `${row},${col}`));
 }
 
 /**
- * Calculates teleporter enemy behavior
- * Tracks movement count and teleports next to player every 5 moves
- * Between teleports, moves toward player like Hunter
+ * Calculates kiting behavior: keep the player in sight at a preferred range, out of its reach
+ *
+ * Scores every reachable tile (and staying put) by, in order: out of the player's reach,
+ * in line of sight of the player, closest to the preferred range, cheapest path. An enemy
+ * within the player's reach backs off to the best tile; one out of reach only moves to a
+ * tile in line of sight, and leaves closing in to the next rule (usually Hunt).
+ *
+ * @param range Preferred distance to the player, in tiles
+ * @returns The move, or null if staying put is as good as any tile in reach
  */
-function calculateTeleporterMove(
-  grid: TileInstance[][],
-  enemy: MapObject,
-  playerPos: GridPosition,
-  blockedPositions: GridPosition[]
-): EnemyMove | null {
-  const TELEPORT_THRESHOLD = 5;
+function calculateKiteMove(context: BehaviorContext, range: number): EnemyMove | null {
+  const { grid, enemy, playerPos, blockedPositions } = context;
+  const moves = enemy.movesRemaining;
+  if (moves <= 0) {
+    return null;
+  }
 
-  // Initialize counter if not set
-  if (enemy.teleportCounter === undefined) {
-    enemy.teleportCounter = 0;
+  const playerReach = getPlayerReach(context);
+  const isSafe = (pos: GridPosition) => !playerReach.has(`${pos.row},${pos.col}`);
+  const score = (pos: GridPosition, cost: number) => [
+    isSafe(pos) ? 0 : 1,
+    hasLineOfSight(grid, pos, playerPos) ? 0 : 1,
+    Math.abs(manhattanDistance(pos, playerPos) - range),
+    cost,
+  ];
+  const isBetter = (a: number[], b: number[]) => {
+    const i = a.findIndex((value, index) => value !== b[index]);
+    return i !== -1 && a[i] < b[i];
+  };
+
+  const reachable = findReachableTiles(grid, enemy.gridPosition, moves, blockedPositions, enemy.flying, getCostProfile(enemy))
+    .filter(({ position }) => position.row !== playerPos.row || position.col !== playerPos.col);
+
+  let bestMove: EnemyMove | null = null;
+  let bestScore = score(enemy.gridPosition, 0);
+  for (const tile of reachable) {
+    const tileScore = score(tile.position, tile.cost);
+    if (isBetter(tileScore, bestScore)) {
+      bestScore = tileScore;
+      bestMove = { enemy, path: tile.path };
+    }
   }
 
-  // Increment counter
-  enemy.teleportCounter++;
+  // Out of reach, only a tile to shoot from is worth a move
+  const [, outOfSight] = bestScore;
+  if (isSafe(enemy.gridPosition) && outOfSight) {
+    return null;
+  }
+  return bestMove;
+}
 
-  // Check if ready to teleport
-  if (enemy.teleportCounter >= TELEPORT_THRESHOLD) {
-    // Find unoccupied tiles adjacent to player
+const BEHAVIOR_CONDITIONS: Record<BehaviorCondition, (context: BehaviorContext) => boolean> = {
+  PlayerInSight: ({ grid, enemy, playerPos }) => hasLineOfSight(grid, enemy.gridPosition, playerPos),
+
+  PlayerInReach: (context) => {
+    const path = getHuntMove(context)?.path;
+    const target = path?.[path.length - 1];
+    return target !== undefined && target.row === context.playerPos.row && target.col === context.playerPos.col;
+  },
+
+  PlayerAdjacent: ({ enemy, playerPos }) => manhattanDistance(enemy.gridPosition, playerPos) === 1,
+
+  Wounded: ({ enemy }) =>
+    enemy.currentHP !== undefined && enemy.stats?.hp !== undefined && enemy.currentHP < enemy.stats.hp,
+};
+
+const BEHAVIOR_ACTIONS: Record<BehaviorAction, BehaviorHandler> = {
+  Hunt: (context) => getHuntMove(context),
+
+  // Shoot instead of moving
+  RangedAttack: ({ grid, enemy, playerPos }) => hasLineOfSight(grid, enemy.gridPosition, playerPos)
+    ? { enemy, path: [enemy.gridPosition], isRangedAttack: true }
+    : null,
+
+  // Heal the first wounded (and living) ally in line of sight instead of moving
+  Heal: ({ grid, enemy, allEnemies }) => {
+    const healTarget = allEnemies.find(ally =>
+      ally.id !== enemy.id &&
+      ally.currentHP !== undefined &&
+      ally.stats?.hp !== undefined &&
+      ally.currentHP < ally.stats.hp &&
+      ally.currentHP > 0 &&
+      hasLineOfSight(grid, enemy.gridPosition, ally.gridPosition)
+    );
+    return healTarget ? { enemy, path: [enemy.gridPosition], isHealingAction: true, healTarget } : null;
+  },
+
+  Kite: (context, rule) => calculateKiteMove(context, rule.range ?? KITE.PREFERRED_RANGE),
+
+  // Jump onto a random free tile next to the player
+  Teleport: ({ grid, enemy, playerPos, blockedPositions }) => {
     const adjacentPositions: GridPosition[] = [
       { row: playerPos.row - 1, col: playerPos.col },     // North
       { row: playerPos.row + 1, col: playerPos.col },     // South
@@ -252,241 +273,120 @@ function calculateTeleporterMove(
       { row: playerPos.row, col: playerPos.col + 1 },     // East
     ];
 
-    // Filter for valid, unoccupied positions
-    const validPositions = adjacentPositions.filter(pos => {
-      // Check bounds
-      if (pos.row < 0 || pos.row >= grid.length || pos.col < 0 || pos.col >= grid[0].length) {
-        return false;
-      }
-
-      // Check if position is blocked by another enemy
-      const isBlocked = blockedPositions.some(blocked =>
-        blocked.row === pos.row && blocked.col === pos.col
-      );
-
-      return !isBlocked;
-    });
-
-    if (validPositions.length > 0) {
-      // Pick random adjacent position
-      const targetPos = validPositions[Math.floor(Math.random() * validPositions.length)];
-
-      // Reset counter
-      enemy.teleportCounter = 0;
-
-      // Return teleport action with path from current position to target
-      return {
-        enemy,
-        path: [enemy.gridPosition, targetPos],
-        isTeleportAction: true,
-      };
+    const validPositions = adjacentPositions.filter(pos =>
+      pos.row >= 0 && pos.row < grid.length && pos.col >= 0 && pos.col < grid[0].length &&
+      !isVoid(grid[pos.row][pos.col]) &&
+      !blockedPositions.some(blocked => blocked.row === pos.row && blocked.col === pos.col)
+    );
+    if (validPositions.length === 0) {
+      return null;
     }
-    // No valid positions, don't reset counter - will try again next turn
-  }
-
-  // Not ready to teleport or no valid positions, behave like Hunter
-  return calculateHunterMove(grid, enemy, playerPos, blockedPositions);
-}
-
-/**
- * Calculates summoner enemy behavior
- * Tracks movement count and summons a skeleton every 5 moves
- * Between summons, moves toward player like Hunter
- */
-function calculateSummonerMove(
-  grid: TileInstance[][],
-  enemy: MapObject,
-  playerPos: GridPosition,
-  blockedPositions: GridPosition[],
-  objectManager: MapObjectManager
-): EnemyMove | null {
-  const SUMMON_THRESHOLD = 5;
-
-  // Initialize counter if not set
-  if (enemy.summonCounter === undefined) {
-    enemy.summonCounter = 0;
-  }
-
-  // Increment counter
-  enemy.summonCounter++;
-
-  // Check if ready to summon
-  if (enemy.summonCounter >= SUMMON_THRESHOLD) {
-    // Find all unoccupied tiles in the grid
-    const unoccupiedPositions: GridPosition[] = [];
-
-    for (let row = 0; row < grid.length; row++) {
-      for (let col = 0; col < grid[0].length; col++) {
-        const pos = { row, col };
-
-        // Check if position is blocked by another enemy
-        const isBlocked = blockedPositions.some(blocked =>
-          blocked.row === pos.row && blocked.col === pos.col
-        );
-
-        // Check if position is the player's position
-        const isPlayer = pos.row === playerPos.row && pos.col === playerPos.col;
-
-        // Check if position is the summoner's own position
-        const isSelf = pos.row === enemy.gridPosition.row && pos.col === enemy.gridPosition.col;
-
-        // Check if position has any other map objects (items, bombs, exits)
-        const objectsAtPosition = objectManager.getObjectsAtPosition(row, col);
-        const hasOtherObjects = objectsAtPosition.length > 0;
-
-        if (!isBlocked && !isPlayer && !isSelf && !hasOtherObjects) {
-          unoccupiedPositions.push(pos);
-        }
-      }
+    return { enemy, path: [enemy.gridPosition, getRunRandom().pick(validPositions)], isTeleportAction: true };
+  },
+
+  // Call one of the rule's summons onto a random free tile (the summoner stays in place)
+  Summon: (context, rule) => {
+    const { enemy, objectManager } = context;
+    if (!objectManager || !rule.summons || rule.summons.length === 0) {
+      return null;
     }
-
-    if (unoccupiedPositions.length > 0) {
-      // Pick random unoccupied position
-      const summonPos = unoccupiedPositions[Math.floor(Math.random() * unoccupiedPositions.length)];
-
-      // Reset counter
-      enemy.summonCounter = 0;
-
-      // Return summon action (summoner stays in place)
-      return {
-        enemy,
-        path: [enemy.gridPosition],
-        isSummonAction: true,
-        summonPosition: summonPos,
-      };
+    const freePositions = findFreePositions(context, objectManager);
+    if (freePositions.length === 0) {
+      return null;
     }
-    // No valid positions, don't reset counter - will try again next turn
-  }
+    return {
+      enemy,
+      path: [enemy.gridPosition],
+      isSummonAction: true,
+      summonPosition: getRunRandom().pick(freePositions),
+      summonEnemyType: getRunRandom().pick(rule.summons),
+      spawnStyle: rule.spawnStyle ?? SpawnStyle.Summon,
+    };
+  },
 
-  // Not ready to summon or no valid positions, behave like Hunter
-  return calculateHunterMove(grid, enemy, playerPos, blockedPositions);
-}
+  // Push or rotate a tile if that sets the player back enough (see findTileAction())
+  TileAction: ({ grid, enemy, objectManager, lastPushedPlot }) => {
+    const tileAction = objectManager ? findTileAction(grid, enemy, objectManager, lastPushedPlot) : null;
+    return tileAction ? { enemy, path: [enemy.gridPosition], isTileAction: true, tileAction } : null;
+  },
+
+  Wait: ({ enemy }) => ({ enemy, path: [enemy.gridPosition] }),
+};
 
 /**
- * Calculates king enemy behavior (final boss)
- * Spawns enemies on turns 1, 2, 3, then once every 10 turns
+ * Checks whether a rule is due on the enemy's current turn (see BehaviorRule.every and firstTurns)
  */
-function calculateKingMove(
-  grid: TileInstance[][],
-  enemy: MapObject,
-  playerPos: GridPosition,
-  blockedPositions: GridPosition[],
-  objectManager: MapObjectManager
-): EnemyMove | null {
-  // Initialize counter if not set
-  if (enemy.kingSpawnCounter === undefined) {
-    enemy.kingSpawnCounter = 0;
+function isRuleDue(rule: BehaviorRule, index: number, state: BehaviorState): boolean {
+  if (rule.firstTurns !== undefined && state.turns <= rule.firstTurns) {
+    return true;
   }
-
-  // Increment counter
-  enemy.kingSpawnCounter++;
-
-  // Check if ready to spawn:
-  // - Spawn on turns 1, 2, 3 (first 3 turns)
-  // - Then spawn every 10 turns (turn 13, 23, 33, etc.)
-  const shouldSpawn = enemy.kingSpawnCounter <= 3 ||
-                      (enemy.kingSpawnCounter > 3 && (enemy.kingSpawnCounter - 3) % 10 === 0);
-
-  // Check if ready to spawn
-  if (shouldSpawn) {
-    // Find all unoccupied tiles in the grid
-    const unoccupiedPositions: GridPosition[] = [];
-
-    for (let row = 0; row < grid.length; row++) {
-      for (let col = 0; col < grid[0].length; col++) {
-        const pos = { row, col };
-
-        // Check if position is blocked by another enemy
-        const isBlocked = blockedPositions.some(blocked =>
-          blocked.row === pos.row && blocked.col === pos.col
-        );
-
-        // Check if position is the player's position
-        const isPlayer = pos.row === playerPos.row && pos.col === playerPos.col;
-
-        // Check if position is the king's own position
-        const isSelf = pos.row === enemy.gridPosition.row && pos.col === enemy.gridPosition.col;
-
-        // Check if position has any other map objects (items, bombs, exits)
-        const objectsAtPosition = objectManager.getObjectsAtPosition(row, col);
-        const hasOtherObjects = objectsAtPosition.length > 0;
-
-        if (!isBlocked && !isPlayer && !isSelf && !hasOtherObjects) {
-          unoccupiedPositions.push(pos);
-        }
-      }
-    }
-
-    if (unoccupiedPositions.length > 0) {
-      // Pick random unoccupied position
-      const spawnPos = unoccupiedPositions[Math.floor(Math.random() * unoccupiedPositions.length)];
-
-      // Pick random enemy type (excluding king)
-      const enemyTypes = ["goblin", "bat", "archer", "brute", "shaman", "assassin", "skeleton", "summoner"];
-      const randomEnemyType = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-
-      // Counter keeps incrementing, no reset needed (handled by shouldSpawn logic)
-
-      // Return boss spawn action (king stays in place)
-      return {
-        enemy,
-        path: [enemy.gridPosition],
-        isBossSpawnAction: true,
-        bossSpawnEnemyType: randomEnemyType,
-        bossSpawnPosition: spawnPos,
-      };
-    }
-    // No valid positions, don't reset counter - will try again next turn
-  }
-
-  // King doesn't move - stay in place
-  return null;
+  return rule.every === undefined || state.turns - (state.lastTaken[index] ?? 0) >= rule.every;
 }
 
+/**
+ * Calculates an enemy's move from its behavior rules (declared in enemies.json)
+ *
+ * Counts the turn, then takes the first rule that is due, whose conditions hold and
+ * whose action can be taken. A rule that is due but can't be taken stays due, so it's
+ * tried again next turn.
+ *
+ * @param lastPushedPlot Plot of the most recent push (for RULES.FORBID_REVERSE_PUSH)
+ * @returns The move, or null if no rule applies (the enemy stays put)
+ */
 export function calculateEnemyMove(
   grid: TileInstance[][],
   enemy: MapObject,
   playerPos: GridPosition,
   blockedPositions: GridPosition[] = [],
   allEnemies: MapObject[] = [],
-  objectManager?: MapObjectManager
+  objectManager?: MapObjectManager,
+  flowFields: FlowFields = new Map(),
+  lastPushedPlot: PlotPosition | null = null
 ): EnemyMove | null {
+  const state = enemy.behaviorState ??= { turns: 0, lastTaken: {} };
+  state.turns++;
 
-  // Check AI type and dispatch to appropriate function
-  if (enemy.aiType === AIType.Ranged) {
-    return calculateRangedMove(grid, enemy, playerPos, blockedPositions);
-  }
-
-  if (enemy.aiType === AIType.Healer) {
-    return calculateHealerMove(grid, enemy, playerPos, blockedPositions, allEnemies);
-  }
-
-  if (enemy.aiType === AIType.Teleporter) {
-    return calculateTeleporterMove(grid, enemy, playerPos, blockedPositions);
-  }
+  const context: BehaviorContext = { grid, enemy, playerPos, blockedPositions, allEnemies, objectManager, flowFields, lastPushedPlot };
+  const holds = (condition: BehaviorCondition) => BEHAVIOR_CONDITIONS[condition]?.(context) ?? false;
+  const rules = enemy.behavior ?? DEFAULT_ENEMY_BEHAVIOR;
 
-  if (enemy.aiType === AIType.Summoner && objectManager) {
-    return calculateSummonerMove(grid, enemy, playerPos, blockedPositions, objectManager);
-  }
+  for (const [index, rule] of rules.entries()) {
+    if (!isRuleDue(rule, index, state)) continue;
+    if (!(rule.if ?? []).every(holds) || (rule.unless ?? []).some(holds)) continue;
+    if (rule.chance !== undefined && getRunRandom().next() >= rule.chance) continue;
 
-  if (enemy.aiType === AIType.King && objectManager) {
-    return calculateKingMove(grid, enemy, playerPos, blockedPositions, objectManager);
+    const move = BEHAVIOR_ACTIONS[rule.action]?.(context, rule) ?? null;
+    if (move) {
+      state.lastTaken[index] = state.turns;
+      return move;
+    }
   }
 
-  // Default to Hunter behavior
-  return calculateHunterMove(grid, enemy, playerPos, blockedPositions);
+  return null;
 }
 
+/**
+ * Calculates every enemy's move for a turn, in the order they should be played
+ *
+ * At most one enemy pushes or rotates a tile per turn, and it acts last: every other
+ * move was worked out on the board as it is now. A later one hunts instead.
+ *
+ * @param lastPushedPlot Plot of the most recent push (for RULES.FORBID_REVERSE_PUSH)
+ */
 export function calculateAllEnemyMoves(
   grid: TileInstance[][],
   objectManager: MapObjectManager,
-  playerPos: GridPosition
+  playerPos: GridPosition,
+  lastPushedPlot: PlotPosition | null = null
 ): EnemyMove[] {
   const enemies = objectManager.getAllObjects().filter(
     (obj) => obj.type === ObjectType.Enemy
   );
 
   const moves: EnemyMove[] = [];
+  let tileActionMove: EnemyMove | null = null;
+  // Every enemy heads for the same player, so the distance fields are worked out once
+  const flowFields: FlowFields = new Map();
   // Track positions by enemy ID for reliable updates
   const occupiedPositions = new Map<number, GridPosition>();
   for (const enemy of enemies) {
@@ -502,13 +402,20 @@ export function calculateAllEnemyMoves(
       }
     }
 
-    const move = calculateEnemyMove(grid, enemy, playerPos, otherEnemyPositions, enemies, objectManager);
+    let move = calculateEnemyMove(grid, enemy, playerPos, otherEnemyPositions, enemies, objectManager, flowFields, lastPushedPlot);
+    if (move?.isTileAction) {
+      if (!tileActionMove) {
+        tileActionMove = move;
+        continue;
+      }
+      move = calculateHunterMove(grid, enemy, playerPos, otherEnemyPositions, flowFields);
+    }
     if (move) {
-      // Include ranged attacks, healing actions, teleport actions, summon actions, boss spawn actions, and movement
-      if (move.isRangedAttack || move.isHealingAction || move.isTeleportAction || move.isSummonAction || move.isBossSpawnAction || move.path.length > 1) {
+      // Include ranged attacks, healing actions, teleport actions, summon actions, and movement
+      if (move.isRangedAttack || move.isHealingAction || move.isTeleportAction || move.isSummonAction || move.path.length > 1) {
         moves.push(move);
         // Update this enemy's position in the map (only if actually moving or teleporting)
-        if (!move.isRangedAttack && !move.isHealingAction && !move.isSummonAction && !move.isBossSpawnAction) {
+        if (!move.isRangedAttack && !move.isHealingAction && !move.isSummonAction) {
           const finalPos = move.path[move.path.length - 1];
           occupiedPositions.set(enemy.id, { ...finalPos });
         }
@@ -516,5 +423,9 @@ export function calculateAllEnemyMoves(
     }
   }
 
+  if (tileActionMove) {
+    moves.push(tileActionMove);
+  }
+
   return moves;
 }
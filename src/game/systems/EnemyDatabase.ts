@@ -1,15 +1,18 @@
-import type { Stats, AIType } from "../types";
+import { BehaviorAction, BehaviorCondition, SpawnStyle, type Stats, type AIType, type BehaviorRule, type CostProfile } from "../types";
 
 export interface EnemyDefinition {
   name: string;
   stats: Stats;
   movementSpeed: number;
-  aiType: AIType;
+  aiType: AIType;  // The enemy's role (the King's counts in combat), its moves come from behavior
+  behavior?: BehaviorRule[];  // Rules the enemy picks its moves by, in priority order, defaults to hunting the player
   sprite: string;
   flying?: boolean;  // True if enemy is flying (immune to ground hazards), defaults to false
+  costProfile?: CostProfile;  // How the enemy weighs risky tiles, defaults to Flyer for flyers and Cautious otherwise
   tier: number;  // Enemy tier (1, 2, 3, etc.)
   dropChance?: number;  // Probability (0.0 - 1.0) of dropping an item on death, defaults to 0.1
   projectile?: string;  // Projectile sprite name for ranged enemies (default: "arrow")
+  riseAnim?: boolean;  // True if the sprite has a "rise" animation, played when the enemy is summoned
   color?: {
     r: number;
     g: number;
@@ -38,12 +41,44 @@ export class EnemyDatabase {
         throw new Error(`Failed to load enemies.json: ${response.statusText}`);
       }
       this.data = await response.json();
+      this.validateBehaviors();
     } catch (error) {
       console.error("[EnemyDatabase] Error loading enemies.json:", error);
       throw error;
     }
   }
 
+  /**
+   * Warns about behavior rules that name unknown actions, conditions, spawn styles or enemies
+   * (a rule with an unknown action is never taken, an unknown summon fails to spawn)
+   */
+  private validateBehaviors(): void {
+    const actions = new Set<string>(Object.values(BehaviorAction));
+    const conditions = new Set<string>(Object.values(BehaviorCondition));
+    const spawnStyles = new Set<string>(Object.values(SpawnStyle));
+
+    for (const [enemyId, enemy] of Object.entries(this.data?.enemies ?? {})) {
+      for (const rule of enemy.behavior ?? []) {
+        if (!actions.has(rule.action)) {
+          console.warn(`[EnemyDatabase] Unknown behavior action "${rule.action}" for ${enemyId}`);
+        }
+        for (const condition of [...rule.if ?? [], ...rule.unless ?? []]) {
+          if (!conditions.has(condition)) {
+            console.warn(`[EnemyDatabase] Unknown behavior condition "${condition}" for ${enemyId}`);
+          }
+        }
+        if (rule.spawnStyle && !spawnStyles.has(rule.spawnStyle)) {
+          console.warn(`[EnemyDatabase] Unknown spawn style "${rule.spawnStyle}" for ${enemyId}`);
+        }
+        for (const summon of rule.summons ?? []) {
+          if (!this.data?.enemies[summon]) {
+            console.warn(`[EnemyDatabase] Unknown summon "${summon}" for ${enemyId}`);
+          }
+        }
+      }
+    }
+  }
+
   getEnemyDefinition(enemyId: string): EnemyDefinition | undefined {
     if (!this.data) {
       console.error("[EnemyDatabase] Database not loaded! Call load() first.");
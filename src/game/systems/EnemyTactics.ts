@@ -0,0 +1,189 @@
+import { RULES, SABOTEUR } from "../config";
+import { DecayAction, ObjectType, TileType, type GameState, type GridPosition, type MapObject, type Orientation, type PlotPosition, type TileAction, type TileInstance } from "../types";
+import { getGridSize, getPlotPositions, getPushedTilePosition, pushTileIntoGrid, isPlotBlocked, isReversePush, isPit } from "../core/Grid";
+import { deriveConnectivity, updateConnectivity } from "../core/Connectivity";
+import { isSpecialTile } from "../core/Tile";
+import { getRunRandom } from "../core/Random";
+import { applyDecay } from "./DecayEngine";
+import { FlowField, getCostProfile } from "./Pathfinding";
+import { getDistinctOrientations } from "./LevelSolver";
+import type { MapObjectManager, PushOutcome } from "./MapObjectManager";
+
+/**
+ * Where the mobs a board is scored for stand on it
+ */
+export interface BoardPositions {
+  enemy: GridPosition;
+  player: GridPosition;
+  exit: GridPosition | null;  // Null when the board has no exit (e.g. a room without one)
+}
+
+/**
+ * Returns a fresh tile for a saboteur to push (a plain tile, never a gate, bridge or door)
+ */
+export function createSaboteurTile(): TileInstance {
+  const types = Object.values(TileType).filter(type => !isSpecialTile(type));
+  return { type: getRunRandom().pick(types), orientation: getRunRandom().nextInt(4) as Orientation, decay: 0 };
+}
+
+/**
+ * Checks that a push only moves objects around: nothing but items may be pushed off
+ * the grid or drop into a pit (a saboteur never destroys mobs, bombs or the exit)
+ */
+export function isHarmlessPush(outcome: PushOutcome): boolean {
+  return [...outcome.ejected, ...outcome.fallen].every(obj => obj.type === ObjectType.Item);
+}
+
+/**
+ * Scores a board from an enemy's point of view, higher is worse for the player
+ *
+ * The player's path cost to the exit counts for the enemy, its own path cost to the
+ * player against it (both true path costs, see FlowField). A target that can't be
+ * reached at all counts as SABOTEUR.UNREACHABLE_COST.
+ *
+ * @param grid Board to score
+ * @param enemy Enemy that scores it (flying and cost profile are used)
+ * @param player The player (flying and cost profile are used)
+ * @param positions Where the enemy, player and exit stand on this board
+ */
+export function scoreBoard(grid: TileInstance[][], enemy: MapObject, player: MapObject, positions: BoardPositions): number {
+  const cap = (cost: number) => Math.min(cost, SABOTEUR.UNREACHABLE_COST);
+  let score = 0;
+
+  if (positions.exit) {
+    const toExit = new FlowField(grid, positions.exit, player.flying, getCostProfile(player));
+    score += SABOTEUR.EXIT_WEIGHT * cap(toExit.getCost(positions.player));
+  }
+
+  const toPlayer = new FlowField(grid, positions.player, enemy.flying, getCostProfile(enemy));
+  score -= SABOTEUR.CHASE_WEIGHT * cap(toPlayer.getCost(positions.enemy));
+
+  return score;
+}
+
+/**
+ * Picks the push or rotation that sets the player back the most
+ *
+ * Tries the enemy's held tile in every free plot and distinct orientation, and every
+ * other orientation of the tile it stands on, scoring each resulting board with
+ * scoreBoard(). Pushes that would destroy anything but items are left out.
+ *
+ * @param grid Current grid (not modified)
+ * @param enemy Saboteur that acts (its heldTile is pushed)
+ * @param objectManager Object manager, for the player, the exit and push outcomes (not modified)
+ * @param lastPushedPlot Plot of the most recent push (for RULES.FORBID_REVERSE_PUSH)
+ * @returns The best action, or null if none beats the current board by more than SABOTEUR.MIN_GAIN
+ */
+export function findTileAction(
+  grid: TileInstance[][],
+  enemy: MapObject,
+  objectManager: MapObjectManager,
+  lastPushedPlot: PlotPosition | null = null
+): TileAction | null {
+  const player = objectManager.getPlayer();
+  if (!player) return null;
+
+  const exit = objectManager.getAllObjects().find(obj => obj.type === ObjectType.Exit);
+  const current: BoardPositions = { enemy: enemy.gridPosition, player: player.gridPosition, exit: exit?.gridPosition ?? null };
+
+  let best: TileAction | null = null;
+  let bestScore = scoreBoard(grid, enemy, player, current) + SABOTEUR.MIN_GAIN;
+  const consider = (action: TileAction, board: TileInstance[][], positions: BoardPositions) => {
+    const score = scoreBoard(board, enemy, player, positions);
+    if (score > bestScore) {
+      best = action;
+      bestScore = score;
+    }
+  };
+
+  // Push the held tile
+  const tile = enemy.heldTile;
+  if (tile) {
+    const { rows, cols } = getGridSize(grid);
+    for (const plot of getPlotPositions(rows, cols)) {
+      if (isPlotBlocked(grid, plot) || isReversePush(grid, plot, lastPushedPlot)) continue;
+
+      const outcome = objectManager.getPushOutcome(plot, grid);
+      if (!isHarmlessPush(outcome)) continue;
+      const shifted = (obj: MapObject | undefined) =>
+        obj ? outcome.moved.find(({ object }) => object === obj)?.to ?? obj.gridPosition : null;
+      const positions: BoardPositions = { enemy: shifted(enemy)!, player: shifted(player)!, exit: shifted(exit) };
+
+      for (const orientation of getDistinctOrientations(tile.type)) {
+        const pushed = { ...tile, orientation };
+        consider({ type: "push", plot, tile: pushed }, pushTileIntoGrid(grid, plot, pushed).newGrid, positions);
+      }
+    }
+  }
+
+  // Rotate the tile underfoot
+  const at = { ...enemy.gridPosition };
+  const standingOn = grid[at.row][at.col];
+  if (!standingOn.fixed && !isPit(standingOn)) {
+    for (const orientation of getDistinctOrientations(standingOn.type)) {
+      if (orientation === standingOn.orientation) continue;
+      const rotated = { ...standingOn, orientation };
+      const rotatedGrid = grid.map(row => [...row]);
+      rotatedGrid[at.row][at.col] = rotated;
+      deriveConnectivity(grid, rotatedGrid, [at]);
+      consider({ type: "rotate", at, tile: rotated }, rotatedGrid, current);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Checks that a tile action can still be taken on the board as it is now
+ * (other enemies may have moved onto the pushed line since it was picked)
+ */
+export function canTakeTileAction(state: GameState, objectManager: MapObjectManager, action: TileAction): boolean {
+  if (action.type === "rotate") {
+    return !isPit(state.grid[action.at.row][action.at.col]);
+  }
+  return !isPlotBlocked(state.grid, action.plot) && isHarmlessPush(objectManager.getPushOutcome(action.plot, state.grid));
+}
+
+/**
+ * Applies a saboteur's push or rotation to the game state
+ *
+ * Mirrors the player's own: TilePlacementState.executePush() for a push (objects move
+ * first, then the tiles shift, then push decay is rolled) and RotatingTileState for a
+ * rotation. The saboteur picks up its next tile (see getNextHeldTile()).
+ *
+ * @param state Game state (grid, lastPushedPlot and decayEvents are updated)
+ * @param objectManager Object manager (pushed objects move)
+ * @param enemy Saboteur that acts
+ * @param action Push or rotation to apply
+ */
+export function applyTileAction(state: GameState, objectManager: MapObjectManager, enemy: MapObject, action: TileAction): void {
+  if (action.type === "rotate") {
+    const { row, col } = action.at;
+    state.grid[row][col] = { ...state.grid[row][col], orientation: action.tile.orientation };
+    updateConnectivity(state.grid, [action.at]);
+    applyDecay(state, { action: DecayAction.Rotate, at: [action.at] }, objectManager);
+    return;
+  }
+
+  objectManager.handlePush(action.plot, state.grid);
+  const { newGrid, ejectedTile } = pushTileIntoGrid(state.grid, action.plot, action.tile);
+  state.grid = newGrid;
+
+  const { rows, cols } = getGridSize(state.grid);
+  applyDecay(state, {
+    action: DecayAction.Push,
+    at: [getPushedTilePosition(action.plot, rows, cols)],
+    plot: action.plot,
+  }, objectManager);
+
+  state.lastPushedPlot = action.plot;
+  enemy.heldTile = getNextHeldTile(ejectedTile);
+}
+
+/**
+ * Returns the tile a saboteur holds after pushing
+ * Mirrors TilePlacementState.executePush(): the ejected tile is kept or a fresh one is drawn.
+ */
+function getNextHeldTile(ejectedTile: TileInstance | null): TileInstance {
+  return RULES.EJECTED_TILE_BECOMES_CURRENT && ejectedTile ? ejectedTile : createSaboteurTile();
+}
@@ -0,0 +1,131 @@
+import { Direction, ObjectType, TileType, type Board, type Doorway, type FloorState, type GameState, type GridPosition, type MapObject, type TileInstance } from "../types";
+import { FLOOR } from "../config";
+import { getConnectivity } from "../core/Connectivity";
+import { findReachableTiles, getCostProfile } from "./Pathfinding";
+import type { MapObjectManager } from "./MapObjectManager";
+
+/**
+ * Returns a doorway tile: a fixed crossing, open to every side
+ */
+export function createDoorwayTile(): TileInstance {
+  return { type: TileType.Cross, orientation: 0, decay: 0, fixed: true };
+}
+
+/**
+ * Returns a board that waits to be linked, with no doorways or objects yet
+ */
+export function createBoard(grid: TileInstance[][]): Board {
+  return { grid, doorways: [], objects: [], followers: [] };
+}
+
+/**
+ * Links two neighbouring boards of a floor, west to east
+ * @param boards Boards of the floor (modified in place)
+ * @param index Index of the western board, the eastern one is index + 1
+ * @param exit Doorway tile on the eastern edge of the western board
+ * @param entry Doorway tile on the western edge of the eastern board
+ */
+export function linkBoards(boards: Board[], index: number, exit: GridPosition, entry: GridPosition): void {
+  boards[index].doorways.push({ position: { ...exit }, side: Direction.East, toBoard: index + 1, toPosition: { ...entry } });
+  boards[index + 1].doorways.push({ position: { ...entry }, side: Direction.West, toBoard: index, toPosition: { ...exit } });
+}
+
+/**
+ * Returns the board the player is on
+ */
+export function getCurrentBoard(floor: FloorState): Board {
+  return floor.boards[floor.current];
+}
+
+/**
+ * Returns the doorway at a position of the board the player is on
+ */
+export function getDoorwayAt(floor: FloorState, pos: GridPosition): Doorway | undefined {
+  return getCurrentBoard(floor).doorways.find(d => d.position.row === pos.row && d.position.col === pos.col);
+}
+
+/**
+ * Returns the enemies close enough to follow the player through a doorway
+ * An enemy follows if it stands on the doorway or could walk onto it within FLOOR.FOLLOW_DISTANCE moves.
+ */
+function getFollowers(state: GameState, objectManager: MapObjectManager, doorway: Doorway): MapObject[] {
+  return objectManager.getEnemies().filter(enemy => {
+    if (enemy.movementSpeed <= 0) return false;
+
+    const { row, col } = enemy.gridPosition;
+    if (row === doorway.position.row && col === doorway.position.col) return true;
+    if (!enemy.flying && !getConnectivity(state.grid).canReach(enemy.gridPosition, doorway.position)) return false;
+
+    return findReachableTiles(state.grid, enemy.gridPosition, FLOOR.FOLLOW_DISTANCE, [], enemy.flying, getCostProfile(enemy))
+      .some(({ position }) => position.row === doorway.position.row && position.col === doorway.position.col);
+  });
+}
+
+/**
+ * Moves the player through a doorway onto the board it leads to
+ *
+ * The board left behind keeps its grid and objects as they are. Enemies close to the
+ * doorway come along: they wait on the new board until the arrival tile is free
+ * (see releaseFollowers()). The objects of the new board take over the object manager.
+ *
+ * @param state Game state (grid and floor are replaced)
+ * @param objectManager Object manager (objects are swapped)
+ * @param doorway Doorway the player stands on
+ * @returns The enemies that follow the player
+ */
+export function switchBoard(state: GameState, objectManager: MapObjectManager, doorway: Doorway): MapObject[] {
+  const floor = state.floor!;
+  const from = getCurrentBoard(floor);
+  const to = floor.boards[doorway.toBoard];
+  const followers = getFollowers(state, objectManager, doorway);
+
+  from.grid = state.grid;
+  from.objects = objectManager.detachObjects().filter(obj => !followers.includes(obj));
+  to.followers.push(...followers.map(enemy => ({ enemy, at: { ...doorway.toPosition } })));
+
+  state.grid = to.grid;
+  floor.current = doorway.toBoard;
+  to.objects.forEach(obj => { obj.isInStartLevelSequence = false; });
+  objectManager.attachObjects(to.objects);
+  to.objects = [];
+
+  const player = objectManager.getPlayer();
+  if (player) {
+    player.gridPosition = { ...doorway.toPosition };
+  }
+
+  // Plots of the old board mean nothing here
+  state.selectedPlot = null;
+  state.lastPushedPlot = null;
+
+  return followers;
+}
+
+/**
+ * Steps waiting followers out of their doorway onto the board the player is on
+ * A follower waits while a mob stands on its arrival tile.
+ * @returns The enemies that arrived
+ */
+export function releaseFollowers(state: GameState, objectManager: MapObjectManager): MapObject[] {
+  if (!state.floor) {
+    return [];
+  }
+
+  const board = getCurrentBoard(state.floor);
+  const released: MapObject[] = [];
+  board.followers = board.followers.filter(({ enemy, at }) => {
+    const isOccupied = objectManager.getObjectsAtPosition(at.row, at.col).some(obj =>
+      obj.type === ObjectType.Player || obj.type === ObjectType.Enemy
+    );
+    if (isOccupied) {
+      return true;
+    }
+
+    enemy.gridPosition = { ...at };
+    objectManager.attachObjects([enemy]);
+    released.push(enemy);
+    return false;
+  });
+
+  return released;
+}
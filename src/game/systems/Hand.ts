@@ -0,0 +1,54 @@
+import type { GameState } from "../types";
+import type { TileDeck } from "../core/TileDeck";
+
+/**
+ * Draws tiles until the hand (currentTile plus state.hand) holds state.handSize tiles
+ * The active tile is filled first, from the hand if possible
+ */
+export function fillHand(state: GameState, deck: TileDeck): void {
+  if (!state.currentTile) {
+    state.currentTile = state.hand.shift() ?? deck.draw();
+  }
+  while (state.hand.length < state.handSize - 1) {
+    state.hand.push(deck.draw());
+  }
+}
+
+/**
+ * Replaces the active tile after it was pushed into the grid
+ * The next hand tile becomes active and the hand is refilled from the deck
+ */
+export function advanceHand(state: GameState, deck: TileDeck): void {
+  state.currentTile = null;
+  fillHand(state, deck);
+}
+
+/**
+ * Makes a hand tile the active tile, the previous active tile takes its place in hand
+ * @returns false if there is no hand tile at the index
+ */
+export function selectHandTile(state: GameState, index: number): boolean {
+  const tile = state.hand[index];
+  if (!tile || !state.currentTile) {
+    return false;
+  }
+  state.hand[index] = state.currentTile;
+  state.currentTile = tile;
+  return true;
+}
+
+/**
+ * Swaps the active tile with the hold slot
+ * If the hold slot is empty, the active tile is saved and the next hand tile becomes active
+ * @returns false if there is no active tile
+ */
+export function holdTile(state: GameState, deck: TileDeck): boolean {
+  if (!state.currentTile) {
+    return false;
+  }
+  const held = state.heldTile;
+  state.heldTile = state.currentTile;
+  state.currentTile = held;
+  fillHand(state, deck);
+  return true;
+}
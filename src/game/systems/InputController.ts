@@ -1,5 +1,8 @@
 import { k } from "../../kaplayCtx";
 import type { TurnManager } from "./TurnManager";
+import { HAND } from "../config";
+
+const HAND_KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"] as const;
 
 export type PushCallback = () => void;
 export type IsAnimatingCallback = () => boolean;
@@ -40,5 +43,23 @@ export class InputController {
         this.onPushRequested();
       }
     });
+
+    k.onKeyPress("e", () => {
+      // Block input during animations or start level sequence
+      if (this.isAnimating() || this.turnManager.getState().isInStartLevelSequence) {
+        return;
+      }
+      this.turnManager.holdTile();
+    });
+
+    // Number keys pick a tile from the hand (1 = first tile after the active one)
+    HAND_KEYS.slice(0, HAND.MAX_SIZE - 1).forEach((key, index) => {
+      k.onKeyPress(key, () => {
+        if (this.isAnimating() || this.turnManager.getState().isInStartLevelSequence) {
+          return;
+        }
+        this.turnManager.selectHandTile(index);
+      });
+    });
   }
 }
@@ -0,0 +1,327 @@
+import {
+  TileType,
+  SurfaceFeature,
+  WinConditionType,
+  type TileInstance,
+  type Orientation,
+  type GridPosition,
+  type DeckComposition,
+  type WinCondition,
+  type GameState,
+  type MapObjectCallback,
+  type BiomeTables,
+} from "../types";
+import { DECAY_PROGRESSION, HAND } from "../config";
+import { TileDeck } from "../core/TileDeck";
+import { createVoidTile } from "../core/Grid";
+import { MapObjectManager } from "./MapObjectManager";
+import { createGameState } from "./TurnManager";
+import { DEFAULT_BIOME } from "./BiomeDatabase";
+import type { EnemyDatabase } from "./EnemyDatabase";
+import type { ItemDatabase } from "./ItemDatabase";
+
+/**
+ * A single cell of a hand-authored level
+ */
+export interface LevelTileDefinition {
+  type: TileType;
+  orientation: Orientation;
+  decay?: number;  // Starting decay, defaults to 0
+  fixed?: boolean;  // Fixed tiles never decay, rotate, break or get pushed
+  feature?: SurfaceFeature;  // Surface feature lying on the tile
+  padId?: number;  // Links teleport pads, each id must be used by exactly two pads
+  void?: boolean;  // Cell doesn't exist (type and orientation are still required but unused)
+}
+
+export interface LevelEnemyPlacement extends GridPosition {
+  enemyId: string;  // Key into enemies.json
+}
+
+export interface LevelItemPlacement extends GridPosition {
+  itemId: string;  // Key into items.json
+}
+
+/**
+ * JSON format of a hand-authored level (see public/levels/)
+ *
+ * Grid size is taken from `tiles` (rows x cols, both odd and at least 3).
+ * Positions use the same (row, col) coordinates as the grid.
+ * Void tiles shape the grid (see getShiftedPositions() for how they stop pushes),
+ * nothing may be placed on them.
+ */
+export interface LevelDefinition {
+  name: string;
+  tiles: LevelTileDefinition[][];
+  player: GridPosition;
+  exit?: GridPosition;  // Omit for levels that end another way (e.g. boss arenas)
+  enemies?: LevelEnemyPlacement[];
+  items?: LevelItemPlacement[];
+  bombs?: GridPosition[];
+  deck?: DeckComposition;  // Exact tiles in the deck, defaults to a random deck
+  handSize?: number;  // Tiles in hand, defaults to HAND.DEFAULT_SIZE
+  biome?: string;  // Key into biomes.json for tile and decay tables, defaults to the biome of the depth
+  winConditions?: WinCondition[];  // Must all hold before the exit opens
+  isBossRoom?: boolean;  // Disables decay like the procedural boss room
+}
+
+/**
+ * Databases a level's enemy and item ids are checked against
+ */
+export interface LevelDatabases {
+  enemies: EnemyDatabase;
+  items: ItemDatabase;
+}
+
+/**
+ * Everything a TurnManager needs to play a hand-authored level
+ */
+export interface LoadedLevel {
+  state: GameState;
+  objectManager: MapObjectManager;
+  deck: TileDeck;
+}
+
+/**
+ * Fetches and validates a level file
+ * @param url URL of the level JSON file
+ * @param databases Databases to check enemy and item ids against (ids aren't checked without)
+ */
+export async function loadLevelDefinition(url: string, databases?: LevelDatabases): Promise<LevelDefinition> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load level ${url}: ${response.statusText}`);
+    }
+    return parseLevelDefinition(await response.json(), databases);
+  } catch (error) {
+    console.error(`[LevelLoader] Error loading level ${url}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Validates raw JSON data and returns it as a level definition
+ * Throws an Error describing the first problem found
+ * @param databases Databases to check enemy and item ids against (ids aren't checked without)
+ */
+export function parseLevelDefinition(data: any, databases?: LevelDatabases): LevelDefinition {
+  if (!data || typeof data !== "object") {
+    throw new Error("Level must be a JSON object");
+  }
+
+  const tiles = data.tiles;
+  if (!Array.isArray(tiles) || tiles.length === 0 || !Array.isArray(tiles[0])) {
+    throw new Error("Level tiles must be a non-empty 2D array");
+  }
+
+  const rows = tiles.length;
+  const cols = tiles[0].length;
+  if (rows < 3 || cols < 3 || rows % 2 === 0 || cols % 2 === 0) {
+    throw new Error(`Invalid level size ${rows}x${cols}: rows and cols must be odd and at least 3`);
+  }
+
+  const tileTypes = Object.values(TileType) as string[];
+  const featureTypes = Object.values(SurfaceFeature) as string[];
+  const padCounts = new Map<number, number>();
+  for (let row = 0; row < rows; row++) {
+    if (!Array.isArray(tiles[row]) || tiles[row].length !== cols) {
+      throw new Error(`Level row ${row} must have ${cols} tiles`);
+    }
+    for (let col = 0; col < cols; col++) {
+      const tile = tiles[row][col];
+      if (!tile || !tileTypes.includes(tile.type)) {
+        throw new Error(`Invalid tile type at (${row},${col}): ${tile?.type}`);
+      }
+      if (![0, 1, 2, 3].includes(tile.orientation)) {
+        throw new Error(`Invalid tile orientation at (${row},${col}): ${tile.orientation}`);
+      }
+      if (tile.decay !== undefined && (tile.decay < 0 || tile.decay > DECAY_PROGRESSION.MAX_DECAY)) {
+        throw new Error(`Invalid tile decay at (${row},${col}): ${tile.decay}`);
+      }
+      if (tile.void && (tile.fixed || tile.feature !== undefined)) {
+        throw new Error(`Void tile at (${row},${col}) can't be fixed or have a feature`);
+      }
+      if (tile.feature !== undefined && !featureTypes.includes(tile.feature)) {
+        throw new Error(`Invalid tile feature at (${row},${col}): ${tile.feature}`);
+      }
+      if (tile.feature === SurfaceFeature.Teleport) {
+        if (!Number.isInteger(tile.padId)) {
+          throw new Error(`Teleport pad at (${row},${col}) needs a padId`);
+        }
+        padCounts.set(tile.padId, (padCounts.get(tile.padId) ?? 0) + 1);
+      }
+    }
+  }
+
+  for (const [padId, count] of padCounts) {
+    if (count !== 2) {
+      throw new Error(`Teleport pad ${padId} must link exactly 2 pads, found ${count}`);
+    }
+  }
+
+  const checkPosition = (pos: any, label: string) => {
+    if (!pos || !Number.isInteger(pos.row) || !Number.isInteger(pos.col) ||
+        pos.row < 0 || pos.row >= rows || pos.col < 0 || pos.col >= cols) {
+      throw new Error(`Invalid ${label} position: ${JSON.stringify(pos)}`);
+    }
+    if (tiles[pos.row][pos.col].void) {
+      throw new Error(`The ${label} is on a void tile at (${pos.row},${pos.col})`);
+    }
+  };
+
+  checkPosition(data.player, "player");
+  if (data.exit !== undefined) {
+    checkPosition(data.exit, "exit");
+  }
+  const checkEnemyId = (enemyId: any) => {
+    if (databases && !databases.enemies.getEnemyDefinition(enemyId)) {
+      throw new Error(`Unknown enemy: ${enemyId}`);
+    }
+  };
+  const checkItemId = (itemId: any) => {
+    if (databases && !databases.items.getItem(itemId)) {
+      throw new Error(`Unknown item: ${itemId}`);
+    }
+  };
+
+  for (const enemy of data.enemies ?? []) {
+    checkPosition(enemy, `enemy ${enemy?.enemyId}`);
+    checkEnemyId(enemy.enemyId);
+  }
+  for (const item of data.items ?? []) {
+    checkPosition(item, `item ${item?.itemId}`);
+    checkItemId(item.itemId);
+  }
+  for (const bomb of data.bombs ?? []) {
+    checkPosition(bomb, "bomb");
+  }
+
+  for (const [type, count] of Object.entries(data.deck ?? {})) {
+    if (!tileTypes.includes(type) || !Number.isInteger(count) || (count as number) < 0) {
+      throw new Error(`Invalid deck entry: ${type}: ${count}`);
+    }
+  }
+
+  if (data.handSize !== undefined &&
+      (!Number.isInteger(data.handSize) || data.handSize < 1 || data.handSize > HAND.MAX_SIZE)) {
+    throw new Error(`Invalid hand size ${data.handSize}: must be between 1 and ${HAND.MAX_SIZE}`);
+  }
+
+  if (data.biome !== undefined && typeof data.biome !== "string") {
+    throw new Error(`Invalid biome: ${JSON.stringify(data.biome)}`);
+  }
+
+  const conditionTypes = Object.values(WinConditionType) as string[];
+  for (const condition of data.winConditions ?? []) {
+    if (!conditionTypes.includes(condition?.type)) {
+      throw new Error(`Invalid win condition: ${condition?.type}`);
+    }
+    if (condition.type === WinConditionType.CollectItem && !condition.itemId) {
+      throw new Error("CollectItem win condition needs an itemId");
+    }
+    if (condition.type === WinConditionType.CollectItem) {
+      checkItemId(condition.itemId);
+    }
+    if (condition.type === WinConditionType.ReachExit && data.exit === undefined) {
+      throw new Error("ReachExit win condition needs an exit");
+    }
+  }
+
+  return {
+    ...data,
+    name: data.name ?? "Untitled",
+  } as LevelDefinition;
+}
+
+/**
+ * Builds the game state, deck and map objects of a hand-authored level
+ *
+ * @param definition Validated level definition
+ * @param enemyDatabase Database used to create enemies
+ * @param itemDatabase Database used to create items
+ * @param onExit Callback for the exit (same as procedural levels)
+ * @param biome Tile and decay tables of the level
+ */
+export function buildLevel(
+  definition: LevelDefinition,
+  enemyDatabase: EnemyDatabase,
+  itemDatabase: ItemDatabase,
+  onExit?: MapObjectCallback,
+  biome: BiomeTables = DEFAULT_BIOME
+): LoadedLevel {
+  const grid: TileInstance[][] = definition.tiles.map(row =>
+    row.map(tile => tile.void ? createVoidTile() : ({
+      type: tile.type,
+      orientation: tile.orientation,
+      decay: tile.fixed || definition.isBossRoom ? 0 : tile.decay ?? 0,
+      ...(tile.fixed ? { fixed: true } : {}),
+      ...(tile.feature ? { feature: tile.feature } : {}),
+      ...(tile.feature === SurfaceFeature.Teleport ? { padId: tile.padId } : {}),
+    }))
+  );
+
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const deck = new TileDeck(definition.deck ?? rows * cols + 1, biome.tileWeights);
+
+  const state = createGameState(grid, biome);
+  state.winConditions = definition.winConditions ?? [];
+  state.isBossRoom = definition.isBossRoom ?? false;
+  state.handSize = definition.handSize ?? HAND.DEFAULT_SIZE;
+
+  const objectManager = new MapObjectManager(enemyDatabase, itemDatabase);
+  populateLevelObjects(definition, objectManager, onExit);
+
+  return { state, objectManager, deck };
+}
+
+/**
+ * Creates the player, exit, enemies, items and bombs of a level definition
+ *
+ * @param definition Validated level definition
+ * @param objectManager Object manager to create the objects in
+ * @param onExit Callback for the exit
+ */
+export function populateLevelObjects(
+  definition: LevelDefinition,
+  objectManager: MapObjectManager,
+  onExit?: MapObjectCallback
+): void {
+  if (definition.exit) {
+    objectManager.createExit(definition.exit, "Exit Stairs", onExit);
+  }
+
+  objectManager.createPlayer(definition.player, "Player1");
+
+  for (const { enemyId, row, col } of definition.enemies ?? []) {
+    const enemy = objectManager.createEnemy({ row, col }, enemyId);
+    enemy.isInStartLevelSequence = true;
+  }
+
+  for (const { itemId, row, col } of definition.items ?? []) {
+    objectManager.createItem({ row, col }, itemId);
+  }
+
+  for (const { row, col } of definition.bombs ?? []) {
+    objectManager.createBomb({ row, col });
+  }
+}
+
+/**
+ * Returns true if every win condition of the level holds
+ * Procedural levels have no win conditions, so their exit is always open
+ */
+export function areWinConditionsMet(state: GameState, objectManager: MapObjectManager): boolean {
+  return state.winConditions.every(condition => {
+    switch (condition.type) {
+      case WinConditionType.ReachExit:
+        return true;  // Checked by stepping on the exit itself
+      case WinConditionType.DefeatAllEnemies:
+        return objectManager.getEnemies().length === 0;
+      case WinConditionType.CollectItem:
+        return [...state.inventory, ...state.equipment].some(
+          item => item?.definitionId === condition.itemId
+        );
+    }
+  });
+}
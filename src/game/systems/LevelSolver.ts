@@ -0,0 +1,287 @@
+import { TileType, type TileInstance, type GridPosition, type PlotPosition, type Orientation } from "../types";
+import { getGridSize, getPlotPositions, pushTileIntoGrid, isPlotBlocked, getShiftedPositions, getPitInPushedLine, isPit, isVoid } from "../core/Grid";
+import { getOneWayEntry, getTileEdges } from "../core/Tile";
+import { findReachableTiles } from "./Pathfinding";
+import { SOLVER } from "../config";
+
+export type SolverAction =
+  | { type: "move"; to: GridPosition }
+  | { type: "push"; plot: PlotPosition; orientation: Orientation }
+  | { type: "rotate"; orientation: Orientation };
+
+export interface LevelSolution {
+  actions: SolverAction[];  // Pushes, rotations and one-tile moves, in order
+  par: number;              // Minimum number of actions to reach the exit
+}
+
+interface SolverNode {
+  grid: TileInstance[][];
+  player: GridPosition;
+  goal: GridPosition;
+  handIndex: number;  // Index of the next tile in hand
+  actions: SolverAction[];
+}
+
+const TILE_CODES: Record<TileType, string> = {
+  [TileType.CulDeSac]: "c",
+  [TileType.Straight]: "s",
+  [TileType.L]: "l",
+  [TileType.T]: "t",
+  [TileType.Cross]: "x",
+  [TileType.OneWay]: "o",
+  [TileType.Bridge]: "b",
+  [TileType.LockedDoor]: "d",
+};
+
+/**
+ * Returns a key of the tiles of a grid (equal keys mean the same layout, decay aside)
+ *
+ * Searches share grids between nodes (moves don't copy them), so keys are cached in the
+ * search's own map: a grid may be edited in place between two searches (rotations, doors,
+ * rubble), so a key must never outlive the search it was made for.
+ *
+ * @param cache Keys of the grids seen by the calling search
+ */
+export function gridKey(grid: TileInstance[][], cache: Map<TileInstance[][], string>): string {
+  let key = cache.get(grid);
+  if (key === undefined) {
+    // Features change what's reachable, so they're part of the key (first letter is unique)
+    key = grid.map(row => row.map(tile =>
+      isVoid(tile) ? ".." : isPit(tile) ? "__" : `${TILE_CODES[tile.type]}${tile.orientation}${tile.feature?.[0] ?? ""}`
+    ).join("")).join("|");
+    cache.set(grid, key);
+  }
+  return key;
+}
+
+function edgesKey(type: TileType, orientation: Orientation): string {
+  const edges = getTileEdges(type, orientation);
+  const key = `${+edges.north}${+edges.east}${+edges.south}${+edges.west}`;
+  // A one-way gate has the same openings both ways round, but not the same flow
+  return type === TileType.OneWay ? `${key}>${getOneWayEntry(orientation)}` : key;
+}
+
+/**
+ * Returns the orientations of a tile type that have distinct openings
+ * (a cross needs only one, a straight tile two)
+ */
+export function getDistinctOrientations(type: TileType): Orientation[] {
+  const seen = new Set<string>();
+  return ([0, 1, 2, 3] as Orientation[]).filter(orientation => {
+    const key = edgesKey(type, orientation);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function nodeKey(node: SolverNode, gridKeys: Map<TileInstance[][], string>): string {
+  return `${node.player.row},${node.player.col};${node.goal.row},${node.goal.col};${node.handIndex};${gridKey(node.grid, gridKeys)}`;
+}
+
+/**
+ * Returns where a position ends up after a push, or null if it is pushed off the grid
+ * (or into a void cell) or falls into a pit. Mirrors MapObjectManager.handlePush() (exits don't fall)
+ */
+export function shiftPosition(pos: GridPosition, grid: TileInstance[][], plot: PlotPosition, canFall: boolean): GridPosition | null {
+  const shifted = getShiftedPositions(grid, plot);
+  const index = shifted.findIndex(p => p.row === pos.row && p.col === pos.col);
+  const filledPit = getPitInPushedLine(grid, plot);
+
+  if (index === -1 || (filledPit && index === shifted.length - 1)) return pos;
+  const to = shifted[index + 1];
+  if (!to || (canFall && filledPit && index + 1 === shifted.length - 1)) return null;
+  return to;
+}
+
+/**
+ * Searches for the shortest sequence of player actions that reaches the goal
+ *
+ * An action either moves the player one tile, pushes the tile in hand (in any
+ * orientation) into a free plot, or rotates the tile they are standing on.
+ * The count is of actions, not of turns: a turn with a longer move counts once per tile.
+ * Only the given hand tiles are pushed, since later draws from the deck are not
+ * known in advance. Enemies, items and decay progression are ignored.
+ *
+ * @param grid Level grid (not modified)
+ * @param start Player start position
+ * @param goal Exit position
+ * @param hand Tiles the player will hold, in order (usually just the first tile)
+ * @param maxActions Maximum number of actions to search
+ * @param maxStates Maximum number of states to explore before giving up
+ * @returns The shortest solution, or null if none was found within the limits
+ */
+export function solveLevel(
+  grid: TileInstance[][],
+  start: GridPosition,
+  goal: GridPosition,
+  hand: TileInstance[] = [],
+  maxActions: number = SOLVER.MAX_ACTIONS,
+  maxStates: number = SOLVER.MAX_STATES
+): LevelSolution | null {
+  const { rows, cols } = getGridSize(grid);
+  const plots = getPlotPositions(rows, cols);
+  const isAt = (a: GridPosition, b: GridPosition) => a.row === b.row && a.col === b.col;
+
+  const startNode: SolverNode = { grid, player: start, goal, handIndex: 0, actions: [] };
+  if (isAt(start, goal)) {
+    return { actions: [], par: 0 };
+  }
+
+  // Every action changes the player's distance to the goal by at most one,
+  // so the distance never overestimates the remaining actions
+  const estimate = (node: SolverNode) =>
+    node.actions.length + Math.abs(node.player.row - node.goal.row) + Math.abs(node.player.col - node.goal.col);
+
+  // A* with one bucket per estimated total, so the first solution found is the shortest
+  const buckets: SolverNode[][] = [];
+  const enqueue = (node: SolverNode) => {
+    const f = estimate(node);
+    (buckets[f] ??= []).push(node);
+  };
+
+  const gridKeys = new Map<TileInstance[][], string>();
+  const visited = new Map<string, number>([[nodeKey(startNode, gridKeys), 0]]);
+  enqueue(startNode);
+
+  for (let f = 0; f < buckets.length; f++) {
+    const bucket = buckets[f];
+    while (bucket && bucket.length > 0) {
+      const node = bucket.pop()!;
+      if (node.actions.length >= maxActions) continue;
+
+      for (const successor of getSuccessors(node, hand, plots)) {
+        if (isAt(successor.player, successor.goal)) {
+          return { actions: successor.actions, par: successor.actions.length };
+        }
+
+        const key = nodeKey(successor, gridKeys);
+        const previousActions = visited.get(key);
+        if (previousActions !== undefined && previousActions <= successor.actions.length) continue;
+        if (visited.size >= maxStates) return null;
+
+        visited.set(key, successor.actions.length);
+        enqueue(successor);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns every node reachable with one more player action
+ */
+function getSuccessors(
+  node: SolverNode,
+  hand: TileInstance[],
+  plots: PlotPosition[]
+): SolverNode[] {
+  const successors: SolverNode[] = [];
+  const currentMoves = findReachableTiles(node.grid, node.player, 1);
+
+  // Move one tile
+  for (const reachable of currentMoves) {
+    successors.push({
+      ...node,
+      player: reachable.position,
+      actions: [...node.actions, { type: "move", to: reachable.position }],
+    });
+  }
+
+  // Rotate the tile the player is standing on
+  // Only rotations that open a move the player doesn't already have are worth a turn
+  const standingOn = node.grid[node.player.row][node.player.col];
+  if (!standingOn.fixed) {
+    const currentKeys = new Set(currentMoves.map(t => `${t.position.row},${t.position.col}`));
+    const currentEdges = edgesKey(standingOn.type, standingOn.orientation);
+    for (const orientation of getDistinctOrientations(standingOn.type)) {
+      if (edgesKey(standingOn.type, orientation) === currentEdges) continue;
+      const rotatedGrid = node.grid.map(row => [...row]);
+      rotatedGrid[node.player.row][node.player.col] = { ...standingOn, orientation };
+      const opensNewMove = findReachableTiles(rotatedGrid, node.player, 1)
+        .some(t => !currentKeys.has(`${t.position.row},${t.position.col}`));
+      if (!opensNewMove) continue;
+      successors.push({
+        ...node,
+        grid: rotatedGrid,
+        actions: [...node.actions, { type: "rotate", orientation }],
+      });
+    }
+  }
+
+  // Push the tile in hand
+  const handTile = hand[node.handIndex];
+  if (handTile) {
+    for (const plot of plots) {
+      if (isPlotBlocked(node.grid, plot)) continue;
+
+      const player = shiftPosition(node.player, node.grid, plot, true);
+      const shiftedGoal = shiftPosition(node.goal, node.grid, plot, false);
+      if (!player || !shiftedGoal) continue;
+
+      for (const orientation of getDistinctOrientations(handTile.type)) {
+        const { newGrid } = pushTileIntoGrid(node.grid, plot, { ...handTile, orientation });
+        successors.push({
+          grid: newGrid,
+          player,
+          goal: shiftedGoal,
+          handIndex: node.handIndex + 1,
+          actions: [...node.actions, { type: "push", plot, orientation }],
+        });
+      }
+    }
+  }
+
+  return successors;
+}
+
+/**
+ * Returns a shortest run of existing cells from start to goal, ignoring walls
+ * (just the start if the grid's shape keeps them apart)
+ */
+function getPavingPath(grid: TileInstance[][], start: GridPosition, goal: GridPosition): GridPosition[] {
+  const { rows, cols } = getGridSize(grid);
+  const key = (pos: GridPosition) => `${pos.row},${pos.col}`;
+  const previous = new Map<string, GridPosition | null>([[key(goal), null]]);
+  const queue: GridPosition[] = [goal];
+
+  // Searched backwards from the goal, so following `previous` from the start leads to the goal
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current.row === start.row && current.col === start.col) break;
+
+    const neighbours = [
+      { row: current.row - 1, col: current.col },
+      { row: current.row + 1, col: current.col },
+      { row: current.row, col: current.col - 1 },
+      { row: current.row, col: current.col + 1 },
+    ];
+    for (const next of neighbours) {
+      if (next.row < 0 || next.row >= rows || next.col < 0 || next.col >= cols) continue;
+      if (previous.has(key(next)) || isVoid(grid[next.row][next.col])) continue;
+      previous.set(key(next), current);
+      queue.push(next);
+    }
+  }
+
+  const path: GridPosition[] = [];
+  for (let pos: GridPosition | null | undefined = start; pos; pos = previous.get(key(pos))) {
+    path.push(pos);
+  }
+  return path;
+}
+
+/**
+ * Makes a level solvable by laying a path of cross tiles from start to goal
+ * The path is the shortest one over existing cells (void cells are walked around).
+ * Fixed tiles are left alone.
+ *
+ * @param grid Level grid (modified in place)
+ */
+export function repairLevel(grid: TileInstance[][], start: GridPosition, goal: GridPosition): void {
+  for (const { row, col } of getPavingPath(grid, start, goal)) {
+    if (grid[row][col].fixed) continue;
+    grid[row][col] = { type: TileType.Cross, orientation: 0, decay: 0 };
+  }
+}
@@ -1,7 +1,10 @@
-import { ObjectType, type MapObject, type GridPosition, type PlotPosition, Direction, type MapObjectCallback, AIType, type Stats, type ItemInstance } from "../types";
-import { GRID_ROWS, GRID_COLS } from "../config";
+import { ObjectType, CostProfile, BehaviorAction, type MapObject, type GridPosition, type PlotPosition, type MapObjectCallback, AIType, type Stats, type ItemInstance, type TileInstance } from "../types";
 import { EnemyDatabase } from "./EnemyDatabase";
 import { ItemDatabase } from "./ItemDatabase";
+import { getRunRandom } from "../core/Random";
+import { COST_PROFILES, COLORS, DEFAULT_ENEMY_BEHAVIOR } from "../config";
+import { getGridSize, getShiftedPositions, getPitInPushedLine, isPit, isVoid } from "../core/Grid";
+import { createSaboteurTile } from "./EnemyTactics";
 
 export interface EnemyConfig {
   name?: string;
@@ -11,6 +14,13 @@ export interface EnemyConfig {
   stats?: Stats;
 }
 
+// Result of MapObjectManager.getPushOutcome()
+export interface PushOutcome {
+  moved: { object: MapObject; to: GridPosition }[];  // Objects shifted along the pushed line
+  ejected: MapObject[];  // Objects pushed off the grid or into a void cell (destroyed by the push)
+  fallen: MapObject[];  // Grounded objects riding the tile that drops into a pit
+}
+
 let nextId = 1;
 
 export class MapObjectManager {
@@ -81,6 +91,31 @@ export class MapObjectManager {
     return player;
   }
 
+  /**
+   * Creates a rival mason (see Rival), drawn like the player in a tint of its own
+   */
+  createRival(gridPosition: GridPosition): MapObject {
+    const playerDef = this.enemyDatabase.getPlayerDefinition();
+    const rival = this.createObject(
+      ObjectType.Rival,
+      gridPosition,
+      "Rival",
+      "mason",
+      95,
+      1,
+      undefined,  // stats (rivals don't fight)
+      { x: 0, y: -4 },  // Sprite offset to lift rival sprite up
+      undefined,  // onEnter
+      undefined,  // onExit
+      playerDef.flying || false  // flying
+    );
+    rival.costProfile = CostProfile.Player;
+    const [r, g, b] = COLORS.rival;
+    (rival as any).color = { r, g, b };
+    rival.isInStartLevelSequence = true;  // Will be managed by StartLevelSequence
+    return rival;
+  }
+
   createEnemy(gridPosition: GridPosition, enemyId: string): MapObject {
     const enemyDef = this.enemyDatabase.getEnemyDefinition(enemyId);
     if (!enemyDef) {
@@ -103,23 +138,22 @@ export class MapObjectManager {
     );
 
     enemy.aiType = enemyDef.aiType;
+    if (enemyDef.costProfile && enemyDef.costProfile in COST_PROFILES) {
+      enemy.costProfile = enemyDef.costProfile;
+    } else if (enemyDef.costProfile) {
+      console.warn(`[MapObjectManager] Unknown cost profile "${enemyDef.costProfile}" for ${enemyId}`);
+    }
     enemy.tier = enemyDef.tier;
     enemy.dropChance = enemyDef.dropChance ?? 0.1;  // Default to 0.1 if not specified
     enemy.projectile = enemyDef.projectile || "arrow";  // Default to "arrow" if not specified
+    enemy.riseAnim = enemyDef.riseAnim ?? false;
 
-    // Initialize teleport counter for teleporter enemies
-    if (enemyDef.aiType === "Teleporter") {
-      enemy.teleportCounter = 0;
-    }
-
-    // Initialize summon counter for summoner enemies
-    if (enemyDef.aiType === "Summoner") {
-      enemy.summonCounter = 0;
-    }
+    enemy.behavior = enemyDef.behavior ?? DEFAULT_ENEMY_BEHAVIOR;
+    enemy.behaviorState = { turns: 0, lastTaken: {} };
 
-    // Initialize king spawn counter for king enemies
-    if (enemyDef.aiType === "King") {
-      enemy.kingSpawnCounter = 0;
+    // Give enemies that push tiles a tile to push
+    if (enemy.behavior.some(rule => rule.action === BehaviorAction.TileAction)) {
+      enemy.heldTile = createSaboteurTile();
     }
 
     if (enemyDef.color) {
@@ -283,68 +317,99 @@ export class MapObjectManager {
     this.objects.delete(obj.id);
   }
 
-  handlePush(plot: PlotPosition): void {
-    const rows = GRID_ROWS;
-    const cols = GRID_COLS;
+  /**
+   * Removes every object except the player and returns them (leaving a board of a floor)
+   */
+  detachObjects(): MapObject[] {
+    const detached = this.getAllObjects().filter(obj => obj.type !== ObjectType.Player);
+    detached.forEach(obj => this.objects.delete(obj.id));
+    return detached;
+  }
 
-    const objectsToDestroy: MapObject[] = [];
+  /**
+   * Adds objects that were detached from the manager back (entering a board of a floor)
+   */
+  attachObjects(objects: MapObject[]): void {
+    objects.forEach(obj => this.objects.set(obj.id, obj));
+  }
+
+  /**
+   * Computes where every object ends up after a push, without moving anything
+   * Objects pushed off the far end of the line are returned as ejected. If the push
+   * stops at a pit, grounded objects riding the tile that fills it are returned as fallen
+   * (they are also listed in moved, so they can be animated). Exits never fall.
+   */
+  getPushOutcome(plot: PlotPosition, grid: TileInstance[][]): PushOutcome {
+    const outcome: PushOutcome = { moved: [], ejected: [], fallen: [] };
+    const shifted = getShiftedPositions(grid, plot);
+    const filledPit = getPitInPushedLine(grid, plot);
 
     for (const obj of this.getAllObjects()) {
       const { row, col } = obj.gridPosition;
-      let isAffected = false;
-      let isEjected = false;
-
-      switch (plot.direction) {
-        case Direction.South:
-          if (col === plot.col) {
-            isAffected = true;
-            if (row === rows - 1) {
-              isEjected = true;
-            } else {
-              obj.gridPosition.row = row + 1;
-            }
-          }
-          break;
-        case Direction.North:
-          if (col === plot.col) {
-            isAffected = true;
-            if (row === 0) {
-              isEjected = true;
-            } else {
-              obj.gridPosition.row = row - 1;
-            }
-          }
-          break;
-        case Direction.East:
-          if (row === plot.row) {
-            isAffected = true;
-            if (col === cols - 1) {
-              isEjected = true;
-            } else {
-              obj.gridPosition.col = col + 1;
-            }
-          }
-          break;
-        case Direction.West:
-          if (row === plot.row) {
-            isAffected = true;
-            if (col === 0) {
-              isEjected = true;
-            } else {
-              obj.gridPosition.col = col - 1;
-            }
-          }
-          break;
+      const index = shifted.findIndex(pos => pos.row === row && pos.col === col);
+
+      // The pit itself doesn't move: the tile in front of it slides in underneath
+      if (index === -1 || (filledPit && index === shifted.length - 1)) continue;
+
+      const to = shifted[index + 1];
+      if (!to) {
+        outcome.ejected.push(obj);
+        continue;
       }
 
-      if (isAffected && isEjected) {
-        objectsToDestroy.push(obj);
+      outcome.moved.push({ object: obj, to });
+      if (filledPit && index + 1 === shifted.length - 1 && !obj.flying && obj.type !== ObjectType.Exit) {
+        outcome.fallen.push(obj);
       }
     }
 
-    for (const obj of objectsToDestroy) {
+    return outcome;
+  }
+
+  /**
+   * Moves every object affected by a push
+   * Ejected objects are destroyed, and so are fallen ones except the player,
+   * whose fall is handled by the caller (it ends the level)
+   */
+  handlePush(plot: PlotPosition, grid: TileInstance[][]): PushOutcome {
+    const outcome = this.getPushOutcome(plot, grid);
+
+    for (const { object, to } of outcome.moved) {
+      object.gridPosition.row = to.row;
+      object.gridPosition.col = to.col;
+    }
+
+    for (const obj of outcome.ejected) {
       this.destroyObject(obj);
     }
+
+    for (const obj of outcome.fallen) {
+      if (obj.type !== ObjectType.Player) {
+        this.destroyObject(obj);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Destroys every grounded object standing on a pit, except the player and exits
+   * Used after decay collapses tiles under objects
+   * @returns The destroyed objects
+   */
+  dropObjectsIntoPits(grid: TileInstance[][]): MapObject[] {
+    const dropped = this.getAllObjects().filter(obj =>
+      obj.type !== ObjectType.Player &&
+      obj.type !== ObjectType.Exit &&
+      !obj.flying &&
+      isPit(grid[obj.gridPosition.row]?.[obj.gridPosition.col])
+    );
+
+    for (const obj of dropped) {
+      this.destroyObject(obj);
+    }
+
+    return dropped;
   }
 
   setPixelOffset(obj: MapObject, x: number, y: number): void {
@@ -393,10 +458,11 @@ export class MapObjectManager {
 
   /**
    * Randomly spawns items on empty tiles
+   * @param grid Level grid (determines which tiles are checked)
    * @param spawnChance Probability (0-1) that each empty tile will have an item
    * @param level Current dungeon level (used to determine max item tier)
    */
-  spawnRandomItems(spawnChance: number = 0.1, level: number = 10): void {
+  spawnRandomItems(grid: TileInstance[][], spawnChance: number = 0.1, level: number = 10): void {
     const allItems = this.itemDatabase.getAllItems();
     if (allItems.length === 0) {
       console.warn("[MapObjectManager] No items in database, skipping item spawn");
@@ -419,18 +485,24 @@ export class MapObjectManager {
     let itemsSpawned = 0;
 
     // Check each tile on the grid
-    for (let row = 0; row < GRID_ROWS; row++) {
-      for (let col = 0; col < GRID_COLS; col++) {
+    const { rows, cols } = getGridSize(grid);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
         // Check if this tile is empty (no objects on it)
         const objectsAtPosition = this.getObjectsAtPosition(row, col);
         if (objectsAtPosition.length > 0) {
           continue; // Tile is occupied
         }
 
+        // Void cells don't exist
+        if (isVoid(grid[row][col])) {
+          continue;
+        }
+
         // Random chance to spawn item
-        if (Math.random() < spawnChance) {
+        if (getRunRandom().next() < spawnChance) {
           // Weighted random selection
-          let roll = Math.random() * totalWeight;
+          let roll = getRunRandom().next() * totalWeight;
           let selectedItem = eligibleItems[0];
           for (const item of eligibleItems) {
             roll -= (item.weight ?? 1);
@@ -1,78 +1,197 @@
-import { type TileInstance, type GridPosition } from "../types";
-import { getTileEdges } from "../core/Tile";
-import { getFallChance, AI } from "../config";
+import { type TileInstance, type GridPosition, type MapObject, CostProfile, Direction, ObjectType, TileType } from "../types";
+import { canLeaveTile, getOppositeDirection } from "../core/Tile";
+import { getConnectivity, type ConnectivityGraph } from "../core/Connectivity";
+import { isPit } from "../core/Grid";
+import { getFallChance, COST_PROFILES, DECAY_PROGRESSION } from "../config";
+import { getWallDirection } from "./WallBump";
+import { getMovementCost, getStepDistance, isBlockedByFeature, isHazardous } from "./SurfaceFeatures";
 
 export interface ReachableTile {
   position: GridPosition;
-  distance: number;
+  distance: number;  // Movement points spent on the path
+  cost: number;  // Movement points plus the risk penalties of the mover's cost profile
+  risky: boolean;  // True if the path enters a tile that may give way or hurt
   path: GridPosition[];
 }
 
-function canMove(
-  grid: TileInstance[][],
-  from: GridPosition,
-  to: GridPosition
-): boolean {
-  const rows = grid.length;
-  const cols = grid[0].length;
+/**
+ * Min-heap of path entries, ordered by priority and then by insertion (so ties keep the order they were found in)
+ */
+class PathQueue<T> {
+  private entries: { priority: number; order: number; item: T }[] = [];
+  private inserted = 0;
 
-  if (to.row < 0 || to.row >= rows || to.col < 0 || to.col >= cols) {
-    return false;
+  get size(): number {
+    return this.entries.length;
   }
 
-  const fromTile = grid[from.row][from.col];
-  const toTile = grid[to.row][to.col];
+  push(item: T, priority: number): void {
+    const entries = this.entries;
+    entries.push({ priority, order: this.inserted++, item });
+    for (let i = entries.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (!this.isBefore(i, parent)) break;
+      [entries[i], entries[parent]] = [entries[parent], entries[i]];
+      i = parent;
+    }
+  }
 
-  if (!fromTile || !toTile) {
-    return false;
+  pop(): T {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop()!;
+    if (entries.length > 0) {
+      entries[0] = last;
+      for (let i = 0; ;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < entries.length && this.isBefore(left, first)) first = left;
+        if (right < entries.length && this.isBefore(right, first)) first = right;
+        if (first === i) break;
+        [entries[i], entries[first]] = [entries[first], entries[i]];
+        i = first;
+      }
+    }
+    return top.item;
   }
 
-  const fromEdges = getTileEdges(fromTile.type, fromTile.orientation);
-  const toEdges = getTileEdges(toTile.type, toTile.orientation);
+  private isBefore(a: number, b: number): boolean {
+    const { priority: pa, order: oa } = this.entries[a];
+    const { priority: pb, order: ob } = this.entries[b];
+    return pa < pb || (pa === pb && oa < ob);
+  }
+}
+
+/**
+ * Returns the cost profile a mob paths with: its own, or the default for what it is
+ * (the player takes risks, flyers ignore the floor, other mobs are cautious)
+ */
+export function getCostProfile(mob: MapObject): CostProfile {
+  if (mob.costProfile) return mob.costProfile;
+  if (mob.type === ObjectType.Player) return CostProfile.Player;
+  return mob.flying ? CostProfile.Flyer : CostProfile.Cautious;
+}
+
+/**
+ * Returns true if stepping onto a tile risks a grounded mover: it may give way or it hurts
+ */
+export function isRiskyTile(tile: TileInstance | undefined, isFlying: boolean = false): boolean {
+  return !isFlying && !!tile && (getFallChance(tile.decay) > 0 || isHazardous(tile));
+}
 
-  const dRow = to.row - from.row;
-  const dCol = to.col - from.col;
+/**
+ * Returns the cost of stepping onto a tile for a profile, or null if the profile never enters it
+ * Flyers pay the movement cost only, the floor can't hurt them.
+ */
+function getStepCost(tile: TileInstance | undefined, isFlying: boolean, profile: CostProfile): number | null {
+  const movement = getMovementCost(tile, isFlying);
+  if (isFlying || !tile) {
+    return movement;
+  }
 
-  if (dRow === -1 && dCol === 0) {
-    return fromEdges.north && toEdges.south;
-  } else if (dRow === 1 && dCol === 0) {
-    return fromEdges.south && toEdges.north;
-  } else if (dRow === 0 && dCol === -1) {
-    return fromEdges.west && toEdges.east;
-  } else if (dRow === 0 && dCol === 1) {
-    return fromEdges.east && toEdges.west;
+  const weights = COST_PROFILES[profile];
+  if (getFallChance(tile.decay) >= weights.maxFallChance) {
+    return null;
   }
 
-  return false;
+  return movement +
+    weights.decayWeight * tile.decay / DECAY_PROGRESSION.MAX_DECAY +
+    (isHazardous(tile) ? weights.hazardCost : 0);
 }
 
-export function findReachableTiles(
+/**
+ * Returns true if a mover can step from one tile to an adjacent one
+ * Nobody, not even a flyer, can enter a void cell: it has no doors in the connectivity graph.
+ * @param enteredThrough Side of `from` the mover came in through, null if it started there
+ *   (needed for bridges, see canLeaveTile())
+ */
+function canMove(
   grid: TileInstance[][],
-  start: GridPosition,
-  maxDistance: number,
-  blockedPositions: GridPosition[] = [],
-  isFlying: boolean = false
-): ReachableTile[] {
-  if (maxDistance <= 0) {
-    return [];
+  graph: ConnectivityGraph,
+  from: GridPosition,
+  to: GridPosition,
+  enteredThrough: Direction | null = null
+): boolean {
+  const direction = getWallDirection(from, to);
+  if (direction === null || !graph.canStep(from, direction)) {
+    return false;
   }
 
-  const reachable: Map<string, ReachableTile> = new Map();
-  const queue: ReachableTile[] = [
-    { position: { ...start }, distance: 0, path: [{ ...start }] },
-  ];
+  // The graph has bridges open to every side, a mover on one keeps going straight
+  const fromTile = grid[from.row][from.col];
+  return fromTile.type !== TileType.Bridge || canLeaveTile(fromTile.type, fromTile.orientation, direction, enteredThrough);
+}
+
+/**
+ * Returns the side of the last tile of a path the mover came in through, null for a path of one tile
+ */
+function getEnteredThrough(path: GridPosition[]): Direction | null {
+  if (path.length < 2) {
+    return null;
+  }
+  const direction = getWallDirection(path[path.length - 2], path[path.length - 1]);
+  return direction === null ? null : getOppositeDirection(direction);
+}
 
+/**
+ * Searches paths from start, cheapest first (Dijkstra, or A* when a target is given)
+ *
+ * A path may spend at most maxDistance movement points, and among those the cheapest one by
+ * cost is kept. Cost and movement differ (a detour around decay costs less for a cautious mob
+ * but takes more steps), so a state is only dropped when another path there is at least as
+ * cheap and spends no more movement.
+ *
+ * @param onSettled Called with the cheapest path to each tile, in order of cost; returning true stops the search
+ * @param heuristic Lower bound of the cost left from a position, 0 for a plain Dijkstra search
+ */
+function searchPaths(
+  grid: TileInstance[][],
+  start: GridPosition,
+  maxDistance: number,
+  blockedPositions: GridPosition[],
+  isFlying: boolean,
+  profile: CostProfile,
+  onSettled: (tile: ReachableTile) => boolean,
+  heuristic: (pos: GridPosition) => number = () => 0
+): void {
   const key = (pos: GridPosition) => `${pos.row},${pos.col}`;
-  const visited = new Set<string>();
-  visited.add(key(start));
+  const stateKey = (pos: GridPosition, enteredThrough: Direction | null) =>
+    grid[pos.row]?.[pos.col]?.type === TileType.Bridge ? `${key(pos)}:${enteredThrough}` : key(pos);
+
+  // Paths kept per state: none of them is both cheaper and shorter than another
+  const labels = new Map<string, ReachableTile[]>();
+  const isDominated = (state: string, cost: number, distance: number) =>
+    (labels.get(state) ?? []).some(label => label.cost <= cost && label.distance <= distance);
+  const addLabel = (state: string, tile: ReachableTile) => {
+    const kept = (labels.get(state) ?? []).filter(label => label.cost < tile.cost || label.distance < tile.distance);
+    labels.set(state, [...kept, tile]);
+  };
 
+  const graph = getConnectivity(grid);
   const blockedSet = new Set(blockedPositions.map(p => key(p)));
+  const settled = new Set<string>([key(start)]);
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
+  const first: ReachableTile = { position: { ...start }, distance: 0, cost: 0, risky: false, path: [{ ...start }] };
+  const queue = new PathQueue<ReachableTile>();
+  queue.push(first, heuristic(start));
+  addLabel(stateKey(start, null), first);
+
+  while (queue.size > 0) {
+    const current = queue.pop();
+    const enteredThrough = getEnteredThrough(current.path);
+
+    // A better path to this state was found after this one was queued
+    if (!labels.get(stateKey(current.position, enteredThrough))!.includes(current)) {
+      continue;
+    }
 
-    if (current.distance > 0) {
-      reachable.set(key(current.position), current);
+    // The first visit of a tile is the cheapest, later ones cross a bridge the other way or spend less movement
+    if (!settled.has(key(current.position))) {
+      settled.add(key(current.position));
+      if (onSettled(current)) {
+        return;
+      }
     }
 
     if (current.distance >= maxDistance) {
@@ -87,43 +206,114 @@ export function findReachableTiles(
     ];
 
     for (const neighbor of neighbors) {
-      const neighborKey = key(neighbor);
+      if (blockedSet.has(key(neighbor))) {
+        continue;
+      }
 
-      if (visited.has(neighborKey)) {
+      const neighborTile = grid[neighbor.row]?.[neighbor.col];
+
+      // Pits have no floor, only flyers can cross them
+      if (!isFlying && isPit(neighborTile)) {
         continue;
       }
 
-      if (blockedSet.has(neighborKey)) {
+      // Rubble has to be cleared before anyone can walk in
+      if (isBlockedByFeature(neighborTile, isFlying)) {
         continue;
       }
 
-      // Non-flying entities avoid tiles with high fall chance
-      if (!isFlying) {
-        const rows = grid.length;
-        const cols = grid[0].length;
-        if (neighbor.row >= 0 && neighbor.row < rows && neighbor.col >= 0 && neighbor.col < cols) {
-          const neighborTile = grid[neighbor.row][neighbor.col];
-          if (neighborTile) {
-            const fallChance = getFallChance(neighborTile.decay);
-            if (fallChance >= AI.FALL_AVOIDANCE_THRESHOLD) {
-              continue; // Skip this tile - too dangerous
-            }
-          }
-        }
+      // The profile may refuse the tile outright (cautious mobs never risk a likely fall)
+      const stepCost = getStepCost(neighborTile, isFlying, profile);
+      if (stepCost === null) {
+        continue;
+      }
+
+      const distance = getStepDistance(neighborTile, current.distance, maxDistance, isFlying);
+      const cost = current.cost + stepCost;
+      const direction = getWallDirection(current.position, neighbor)!;
+      const neighborKey = stateKey(neighbor, getOppositeDirection(direction));
+      if (distance === null || isDominated(neighborKey, cost, distance)) {
+        continue;
       }
 
-      if (canMove(grid, current.position, neighbor)) {
-        visited.add(neighborKey);
-        queue.push({
+      if (canMove(grid, graph, current.position, neighbor, enteredThrough)) {
+        const next: ReachableTile = {
           position: { ...neighbor },
-          distance: current.distance + 1,
+          distance,
+          cost,
+          risky: current.risky || isRiskyTile(neighborTile, isFlying),
           path: [...current.path, { ...neighbor }],
-        });
+        };
+        addLabel(neighborKey, next);
+        queue.push(next, cost + heuristic(neighbor));
       }
     }
   }
+}
+
+/**
+ * Returns every tile reachable from start within maxDistance movement points, with the cheapest path to it
+ *
+ * Steps cost 1, except onto features that cost more (see getMovementCost()), so `distance`
+ * is the movement spent rather than the number of steps. A first step the mover can't afford
+ * is still taken and spends the whole budget (see getStepDistance()). Paths are picked by
+ * `cost`, which adds the risk penalties of the mover's cost profile (see COST_PROFILES).
+ *
+ * Follows one-way gates and bridges: a mover on a bridge keeps going the way it came in,
+ * so a bridge tile is visited once per side it can be entered through.
+ *
+ * @param isFlying Flyers can cross pits and rubble, grounded movers never enter them
+ * @param profile How the mover weighs risky tiles (see getCostProfile()), cautious by default for grounded movers
+ */
+export function findReachableTiles(
+  grid: TileInstance[][],
+  start: GridPosition,
+  maxDistance: number,
+  blockedPositions: GridPosition[] = [],
+  isFlying: boolean = false,
+  profile: CostProfile = isFlying ? CostProfile.Flyer : CostProfile.Cautious
+): ReachableTile[] {
+  if (maxDistance <= 0) {
+    return [];
+  }
+
+  const reachable: ReachableTile[] = [];
+  searchPaths(grid, start, maxDistance, blockedPositions, isFlying, profile, tile => {
+    if (tile.distance > 0) {
+      reachable.push(tile);
+    }
+    return false;
+  });
+
+  return reachable;
+}
+
+/**
+ * Returns the cheapest path from start to target within maxDistance movement points (A*)
+ * @returns null if the target can't be reached within the budget
+ */
+export function findPath(
+  grid: TileInstance[][],
+  start: GridPosition,
+  target: GridPosition,
+  maxDistance: number,
+  blockedPositions: GridPosition[] = [],
+  isFlying: boolean = false,
+  profile: CostProfile = isFlying ? CostProfile.Flyer : CostProfile.Cautious
+): ReachableTile | null {
+  // Every step costs at least one, so the Manhattan distance never overestimates
+  const heuristic = (pos: GridPosition) => Math.abs(pos.row - target.row) + Math.abs(pos.col - target.col);
+
+  let found: ReachableTile | null = null;
+  searchPaths(grid, start, maxDistance, blockedPositions, isFlying, profile, tile => {
+    if (tile.position.row === target.row && tile.position.col === target.col) {
+      found = tile;
+      return true;
+    }
+    return false;
+  }, heuristic);
 
-  return Array.from(reachable.values());
+  return found;
 }
 
 export function getPathTo(
@@ -133,14 +323,168 @@ export function getPathTo(
   maxDistance: number,
   isFlying: boolean = false
 ): GridPosition[] | null {
-  const reachable = findReachableTiles(grid, start, maxDistance, [], isFlying);
-  const targetKey = `${target.row},${target.col}`;
+  return findPath(grid, start, target, maxDistance, [], isFlying)?.path ?? null;
+}
+
+const NEIGHBOUR_DIRECTIONS: Direction[] = [Direction.North, Direction.South, Direction.West, Direction.East];
+const START_SLOT = 4;  // Slot of a mover that starts on a tile, slots 0-3 are the sides it came in through
+
+/**
+ * Cost of the cheapest path from every tile to one target, for one way of moving
+ *
+ * Built once by searching backwards from the target over the connectivity graph, then shared
+ * by every mover that moves the same way (flying or not, same cost profile): a mover just
+ * walks downhill (see follow()). Bridges keep a cost per side they were entered through,
+ * since a mover on one has to go straight on. Costs go stale once the grid changes.
+ */
+export class FlowField {
+  private readonly grid: TileInstance[][];
+  private readonly graph: ConnectivityGraph;
+  private readonly cols: number;
+  private readonly isFlying: boolean;
+  private readonly profile: CostProfile;
+  private readonly target: GridPosition;
+  private readonly costs: Float64Array;  // Per cell and slot, Infinity where the target can't be reached
+
+  constructor(
+    grid: TileInstance[][],
+    target: GridPosition,
+    isFlying: boolean = false,
+    profile: CostProfile = isFlying ? CostProfile.Flyer : CostProfile.Cautious
+  ) {
+    this.grid = grid;
+    this.graph = getConnectivity(grid);
+    this.cols = grid[0]?.length ?? 0;
+    this.isFlying = isFlying;
+    this.profile = profile;
+    this.target = { ...target };
+    this.costs = new Float64Array(grid.length * this.cols * (START_SLOT + 1)).fill(Infinity);
+
+    const queue = new PathQueue<{ position: GridPosition; slot: number; cost: number }>();
+    if (grid[target.row]?.[target.col]) {
+      for (let slot = 0; slot <= START_SLOT; slot++) {
+        this.costs[this.indexOf(target, slot)] = 0;
+        queue.push({ position: target, slot, cost: 0 }, 0);
+      }
+    }
+
+    while (queue.size > 0) {
+      const { position, slot, cost } = queue.pop();
+      if (cost > this.costs[this.indexOf(position, slot)]) continue;
+
+      // Stepping onto this tile costs the same from every side
+      const stepCost = this.getEnterCost(position);
+      if (stepCost === null) continue;
+
+      const isBridge = this.grid[position.row][position.col].type === TileType.Bridge;
+      for (const side of NEIGHBOUR_DIRECTIONS) {
+        // A bridge state is only reached by coming in through its side
+        if (isBridge && side !== slot) continue;
+        if (!isBridge && slot !== START_SLOT) continue;
+
+        const from = this.neighbourOf(position, side);
+        const direction = getOppositeDirection(side);
+        if (!from || !this.graph.canStep(from, direction)) continue;
+
+        // A mover leaves a bridge straight on, or any way if it started there
+        const fromTile = this.grid[from.row][from.col];
+        const fromSlots = fromTile.type === TileType.Bridge ? [side, START_SLOT] : [START_SLOT];
+        for (const fromSlot of fromSlots) {
+          const index = this.indexOf(from, fromSlot);
+          if (cost + stepCost < this.costs[index]) {
+            this.costs[index] = cost + stepCost;
+            queue.push({ position: from, slot: fromSlot, cost: cost + stepCost }, cost + stepCost);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the cost of the cheapest path from a position to the target (Infinity if there's none)
+   * @param enteredThrough Side the mover came in through, null if it starts there
+   */
+  getCost(pos: GridPosition, enteredThrough: Direction | null = null): number {
+    const tile = this.grid[pos.row]?.[pos.col];
+    if (!tile) return Infinity;
+    const slot = tile.type === TileType.Bridge && enteredThrough !== null ? enteredThrough : START_SLOT;
+    return this.costs[this.indexOf(pos, slot)];
+  }
+
+  /**
+   * Walks downhill from a position towards the target, as far as maxDistance movement points go
+   * Each step takes the neighbour on the cheapest way on. Blocked tiles are stepped around if
+   * another neighbour still leads closer, otherwise the walk stops there.
+   * @returns The path walked, or null if the mover can't get any closer
+   */
+  follow(start: GridPosition, maxDistance: number, blockedPositions: GridPosition[] = []): ReachableTile | null {
+    const blocked = new Set(blockedPositions.map(pos => `${pos.row},${pos.col}`));
+    let current: ReachableTile = { position: { ...start }, distance: 0, cost: 0, risky: false, path: [{ ...start }] };
+    let enteredThrough: Direction | null = null;
 
-  for (const tile of reachable) {
-    if (`${tile.position.row},${tile.position.col}` === targetKey) {
-      return tile.path;
+    for (;;) {
+      const here = this.getCost(current.position, enteredThrough);
+      let best: { next: ReachableTile; side: Direction; total: number } | null = null;
+
+      for (const direction of NEIGHBOUR_DIRECTIONS) {
+        const neighbour = this.neighbourOf(current.position, direction);
+        if (!neighbour || blocked.has(`${neighbour.row},${neighbour.col}`)) continue;
+
+        const stepCost = this.getEnterCost(neighbour);
+        const tile = this.grid[neighbour.row][neighbour.col];
+        const distance = getStepDistance(tile, current.distance, maxDistance, this.isFlying);
+        if (stepCost === null || distance === null) continue;
+        if (!canMove(this.grid, this.graph, current.position, neighbour, enteredThrough)) continue;
+
+        const side = getOppositeDirection(direction);
+        const rest = this.getCost(neighbour, side);
+        if (rest >= here || (best && stepCost + rest >= best.total)) continue;
+
+        best = {
+          next: {
+            position: neighbour,
+            distance,
+            cost: current.cost + stepCost,
+            risky: current.risky || isRiskyTile(tile, this.isFlying),
+            path: [...current.path, neighbour],
+          },
+          side,
+          total: stepCost + rest,
+        };
+      }
+
+      if (!best) break;
+      current = best.next;
+      enteredThrough = best.side;
+    }
+
+    return current.path.length > 1 ? current : null;
+  }
+
+  /**
+   * Returns the cost of stepping onto a tile, or null if this mover never enters it
+   * The profile can't refuse the target itself (a player on a crumbling tile is still attacked),
+   * stepping onto it then costs its movement points.
+   */
+  private getEnterCost(pos: GridPosition): number | null {
+    const tile = this.grid[pos.row][pos.col];
+    if ((!this.isFlying && isPit(tile)) || isBlockedByFeature(tile, this.isFlying)) {
+      return null;
+    }
+    const stepCost = getStepCost(tile, this.isFlying, this.profile);
+    if (stepCost === null && pos.row === this.target.row && pos.col === this.target.col) {
+      return getMovementCost(tile, this.isFlying);
     }
+    return stepCost;
   }
 
-  return null;
+  private neighbourOf(pos: GridPosition, direction: Direction): GridPosition | null {
+    const row = pos.row + (direction === Direction.South ? 1 : direction === Direction.North ? -1 : 0);
+    const col = pos.col + (direction === Direction.East ? 1 : direction === Direction.West ? -1 : 0);
+    return this.grid[row]?.[col] ? { row, col } : null;
+  }
+
+  private indexOf(pos: GridPosition, slot: number): number {
+    return (pos.row * this.cols + pos.col) * (START_SLOT + 1) + slot;
+  }
 }
@@ -1,17 +1,19 @@
-import { TILE_SIZE, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS, INVENTORY, EQUIPMENT, UI } from "../config";
-import { type GridPosition, type PlotPosition, Direction } from "../types";
+import { TILE_SIZE, GRID_OFFSET_X, INVENTORY, EQUIPMENT, UI, getGridOffsetY } from "../config";
+import { type GridPosition, type PlotPosition, type TileInstance, Direction } from "../types";
 import { type TurnManager } from "./TurnManager";
-import { inventorySlotPos, equipmentSlotPos, getEquipmentSlotGridPos } from "../render/UIRenderer";
+import { inventorySlotPos, equipmentSlotPos, getEquipmentSlotGridPos, getUIX, getPreviewPosition } from "../render/UIRenderer";
+import { getGridSize } from "../core/Grid";
 
 /**
  * Converts screen coordinates to grid position
  * Returns null if outside grid bounds
  */
-export function screenToGrid(screenX: number, screenY: number): GridPosition | null {
+export function screenToGrid(screenX: number, screenY: number, grid: TileInstance[][]): GridPosition | null {
+  const { rows, cols } = getGridSize(grid);
   const col = Math.floor((screenX - GRID_OFFSET_X) / TILE_SIZE);
-  const row = Math.floor((screenY - GRID_OFFSET_Y) / TILE_SIZE);
+  const row = Math.floor((screenY - getGridOffsetY(rows)) / TILE_SIZE);
 
-  if (row >= 0 && row < GRID_ROWS && col >= 0 && col < GRID_COLS) {
+  if (row >= 0 && row < rows && col >= 0 && col < cols) {
     return { row, col };
   }
   return null;
@@ -21,13 +23,13 @@ export function screenToGrid(screenX: number, screenY: number): GridPosition | n
  * Checks if mouse is hovering over a plot
  * Returns the plot if hovering, null otherwise
  */
-export function getPlotAtPosition(mouseX: number, mouseY: number, plots: PlotPosition[]): PlotPosition | null {
-  const gridPos = screenToGrid(mouseX, mouseY);
+export function getPlotAtPosition(mouseX: number, mouseY: number, plots: PlotPosition[], grid: TileInstance[][]): PlotPosition | null {
+  const gridPos = screenToGrid(mouseX, mouseY, grid);
   if (!gridPos) return null;
 
   // Check if mouse is near an edge of the tile to determine plot direction
   const localX = (mouseX - GRID_OFFSET_X) % TILE_SIZE;
-  const localY = (mouseY - GRID_OFFSET_Y) % TILE_SIZE;
+  const localY = (mouseY - getGridOffsetY(getGridSize(grid).rows)) % TILE_SIZE;
 
   const edgeThreshold = TILE_SIZE * 0.3; // 30% of tile size
 
@@ -52,7 +54,7 @@ export function getPlotAtPosition(mouseX: number, mouseY: number, plots: PlotPos
  * Returns the enemy if hovering, null otherwise
  */
 export function getEnemyAtPosition(mouseX: number, mouseY: number, turnManager: TurnManager): any | null {
-  const gridPos = screenToGrid(mouseX, mouseY);
+  const gridPos = screenToGrid(mouseX, mouseY, turnManager.getState().grid);
   if (!gridPos) return null;
 
   const enemies = turnManager.getObjectManager().getEnemies();
@@ -66,7 +68,7 @@ export function getEnemyAtPosition(mouseX: number, mouseY: number, turnManager:
  * Checks if mouse is hovering over the player
  */
 export function isMouseOverPlayer(mouseX: number, mouseY: number, turnManager: TurnManager): boolean {
-  const gridPos = screenToGrid(mouseX, mouseY);
+  const gridPos = screenToGrid(mouseX, mouseY, turnManager.getState().grid);
   if (!gridPos) return false;
 
   const player = turnManager.getObjectManager().getPlayer();
@@ -86,7 +88,7 @@ export function getInventoryItemAtPosition(mouseX: number, mouseY: number, turnM
   // Calculate inventory base position (same as in render function)
   const spacing = 8;
   const equipmentHeight = EQUIPMENT.SLOTS_Y * (EQUIPMENT.SLOT_SIZE + EQUIPMENT.SLOT_SPACING) - EQUIPMENT.SLOT_SPACING;
-  const inventorySlotsX = UI.X + UI.PADDING;
+  const inventorySlotsX = getUIX(getGridSize(state.grid).cols) + UI.PADDING;
   const inventorySlotsY = UI.Y + UI.PADDING + equipmentHeight + spacing;
 
   for (let i = 0; i < state.inventory.length; i++) {
@@ -108,9 +110,11 @@ export function getInventoryItemAtPosition(mouseX: number, mouseY: number, turnM
 /**
  * Get the equipment slot index at the mouse position (regardless of whether there's an item)
  */
-export function getEquipmentSlotAtPosition(mouseX: number, mouseY: number): number | null {
+export function getEquipmentSlotAtPosition(mouseX: number, mouseY: number, turnManager: TurnManager): number | null {
+  const state = turnManager.getState();
+
   // Calculate equipment base position (same as in render function)
-  const equipmentSlotsX = UI.X + UI.PADDING;
+  const equipmentSlotsX = getUIX(getGridSize(state.grid).cols) + UI.PADDING;
   const equipmentSlotsY = UI.Y + UI.PADDING;
 
   for (let i = 0; i < 5; i++) {
@@ -135,7 +139,7 @@ export function getEquipmentItemAtPosition(mouseX: number, mouseY: number, turnM
   const state = turnManager.getState();
 
   // Calculate equipment base position (same as in render function)
-  const equipmentSlotsX = UI.X + UI.PADDING;
+  const equipmentSlotsX = getUIX(getGridSize(state.grid).cols) + UI.PADDING;
   const equipmentSlotsY = UI.Y + UI.PADDING;
 
   for (let i = 0; i < state.equipment.length; i++) {
@@ -158,7 +162,8 @@ export function getEquipmentItemAtPosition(mouseX: number, mouseY: number, turnM
 /**
  * Checks if mouse is over the preview tile (for rotation)
  */
-export function isMouseOverPreviewTile(mouseX: number, mouseY: number, previewX: number, previewY: number): boolean {
+export function isMouseOverPreviewTile(mouseX: number, mouseY: number, grid: TileInstance[][]): boolean {
+  const { x: previewX, y: previewY } = getPreviewPosition(getGridSize(grid).cols);
   const previewSize = TILE_SIZE * 1.5; // Preview is scaled 1.5x
   return mouseX >= previewX - previewSize / 2 &&
          mouseX <= previewX + previewSize / 2 &&
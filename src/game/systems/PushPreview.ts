@@ -0,0 +1,75 @@
+import { DecayAction, type GameState, type GridPosition, type MapObject, type PlotPosition, type TileInstance } from "../types";
+import { pushTileIntoGrid, getGridSize, getPushedTilePosition } from "../core/Grid";
+import { previewDecay, type DecayPreview } from "./DecayEngine";
+import { findReachableTiles, getCostProfile, type ReachableTile } from "./Pathfinding";
+import type { MapObjectManager } from "./MapObjectManager";
+
+/**
+ * Outcome of a push that has not happened yet
+ */
+export interface PushPreview {
+  plot: PlotPosition;
+  grid: TileInstance[][];  // Grid after the push (decay not applied)
+  moved: { object: MapObject; to: GridPosition }[];  // Objects shifted along the pushed line
+  ejected: MapObject[];  // Objects pushed off the grid and destroyed
+  fallen: MapObject[];  // Grounded objects that drop into a pit with the tile that fills it
+  decay: DecayPreview[];  // Tiles that may decay, with worst case
+  reachable: ReachableTile[];  // Tiles the player can reach on their next turn (empty if ejected or fallen)
+}
+
+/**
+ * Simulates pushing a tile into the grid without changing any game state
+ *
+ * Mirrors TilePlacementState.executePush(): objects move first, then the tiles
+ * shift, then push decay is rolled (random, so the worst case is reported).
+ *
+ * @param state Current game state (not modified)
+ * @param objectManager Object manager (not modified)
+ * @param plot Plot to push from
+ * @param tile Tile to push in
+ */
+export function simulatePush(
+  state: GameState,
+  objectManager: MapObjectManager,
+  plot: PlotPosition,
+  tile: TileInstance
+): PushPreview {
+  const { moved, ejected, fallen } = objectManager.getPushOutcome(plot, state.grid);
+  const { newGrid } = pushTileIntoGrid(state.grid, plot, tile);
+
+  // Object positions after the push, for exit and player lookups
+  const positions = new Map<MapObject, GridPosition>();
+  for (const obj of objectManager.getAllObjects()) {
+    if (!ejected.includes(obj) && !fallen.includes(obj)) {
+      positions.set(obj, obj.gridPosition);
+    }
+  }
+  for (const { object, to } of moved) {
+    if (!fallen.includes(object)) {
+      positions.set(object, to);
+    }
+  }
+
+  const simulatedObjects = {
+    getObjectsAtPosition: (row: number, col: number) =>
+      [...positions].filter(([, pos]) => pos.row === row && pos.col === col).map(([obj]) => obj),
+  };
+
+  const { rows, cols } = getGridSize(newGrid);
+  const decay = state.isBossRoom
+    ? []
+    : previewDecay(newGrid, state.biome.decayProfiles, {
+      action: DecayAction.Push,
+      at: [getPushedTilePosition(plot, rows, cols)],
+      plot,
+    }, simulatedObjects);
+
+  // Pushing ends the turn, so reachability uses the movement of the player's next turn
+  const player = objectManager.getPlayer();
+  const playerPosition = player ? positions.get(player) : undefined;
+  const reachable = player && playerPosition
+    ? findReachableTiles(newGrid, playerPosition, Math.floor(player.movementAccumulator + player.movementSpeed), [], player.flying, getCostProfile(player))
+    : [];
+
+  return { plot, grid: newGrid, moved, ejected, fallen, decay, reachable };
+}
@@ -0,0 +1,172 @@
+import { RULES, RIVAL_DIFFICULTIES } from "../config";
+import { DecayAction, type GameState, type GridPosition, type MapObject, type PlanStep, type RivalDifficulty, type TileInstance } from "../types";
+import { getGridSize, getImmovableEdgeTiles, getPushedTilePosition, pushTileIntoGrid } from "../core/Grid";
+import { updateConnectivity } from "../core/Connectivity";
+import { getRunRandom } from "../core/Random";
+import type { TileDeck } from "../core/TileDeck";
+import { applyDecay } from "./DecayEngine";
+import { isHarmlessPush } from "./EnemyTactics";
+import { FlowField, findReachableTiles, getCostProfile } from "./Pathfinding";
+import { planRoute } from "./RoutePlanner";
+import type { MapObjectManager } from "./MapObjectManager";
+
+const manhattanDistance = (a: GridPosition, b: GridPosition) => Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
+const isAt = (a: GridPosition, b: GridPosition) => a.row === b.row && a.col === b.col;
+
+/**
+ * Picks where a rival starts: an immovable edge tile about as far from the exit as the player
+ * @returns The start, or null if the grid has no free edge tile
+ */
+export function pickRivalStart(grid: TileInstance[][], player: GridPosition, exit: GridPosition): GridPosition | null {
+  const { rows, cols } = getGridSize(grid);
+  const candidates = getImmovableEdgeTiles(rows, cols, grid)
+    .map(({ row, col }) => ({ row, col }))
+    .filter(pos => !isAt(pos, player) && !isAt(pos, exit));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const playerDistance = manhattanDistance(player, exit);
+  const gap = (pos: GridPosition) => Math.abs(manhattanDistance(pos, exit) - playerDistance);
+  const bestGap = Math.min(...candidates.map(gap));
+  return getRunRandom().pick(candidates.filter(pos => gap(pos) === bestGap));
+}
+
+/**
+ * A rival mason that races the player to the exit
+ *
+ * It plays the same game as the player: every turn it pushes the tile it holds into
+ * a free plot, rotates the tile it stands on or moves, and it draws from a deck of its
+ * own. Its step is the first of the shortest plan planRoute() finds within the limits
+ * of its difficulty (see RIVAL_DIFFICULTIES), so it plans again every turn.
+ */
+export class Rival {
+  readonly mob: MapObject;
+  readonly difficulty: RivalDifficulty;
+  private deck: TileDeck;
+  private tile: TileInstance | null;
+
+  constructor(mob: MapObject, deck: TileDeck, difficulty: RivalDifficulty) {
+    this.mob = mob;
+    this.deck = deck;
+    this.difficulty = difficulty;
+    this.tile = deck.draw();
+  }
+
+  /**
+   * Returns the tile the rival pushes next
+   */
+  getTile(): TileInstance | null {
+    return this.tile;
+  }
+
+  /**
+   * Picks the rival's step for this turn
+   *
+   * Follows the planned route to the exit. A push that would destroy more than items is
+   * never taken. Without a plan the rival walks downhill towards the exit, and now and
+   * then (its difficulty's blunderChance) it moves somewhere at random instead.
+   *
+   * @returns The step, or null if the rival has nothing to do
+   */
+  planTurn(state: GameState, objectManager: MapObjectManager): PlanStep | null {
+    const exit = objectManager.getExit();
+    if (!exit) {
+      return null;
+    }
+
+    const settings = RIVAL_DIFFICULTIES[this.difficulty];
+    if (getRunRandom().next() < settings.blunderChance) {
+      return this.getRandomMove(state.grid);
+    }
+
+    const tiles = [this.tile, ...this.deck.peekMany(settings.maxPushes)]
+      .filter((tile): tile is TileInstance => tile !== null);
+    const plan = planRoute(
+      state.grid,
+      this.mob,
+      { position: exit.gridPosition, shifts: true },
+      tiles,
+      state.lastPushedPlot,
+      settings.maxPushes,
+      settings.maxTurns,
+      settings.maxStates
+    );
+
+    const step = plan?.steps[0];
+    if (step && (step.type !== "push" || isHarmlessPush(objectManager.getPushOutcome(step.plot, state.grid)))) {
+      return step;
+    }
+
+    return this.getDownhillMove(state.grid, exit.gridPosition);
+  }
+
+  /**
+   * Applies a step to the game state
+   *
+   * Mirrors the player's own actions: TilePlacementState.executePush() for a push,
+   * RotatingTileState for a rotation. A move only sets the rival's position (the path
+   * is animated by the caller).
+   *
+   * @param state Game state (grid, lastPushedPlot and decayEvents are updated)
+   * @param objectManager Object manager (pushed objects move)
+   * @param step Step picked by planTurn()
+   */
+  takeStep(state: GameState, objectManager: MapObjectManager, step: PlanStep): void {
+    if (step.type === "move") {
+      this.mob.gridPosition = { ...step.to };
+      return;
+    }
+
+    if (step.type === "rotate") {
+      const { row, col } = step.at;
+      state.grid[row][col] = { ...state.grid[row][col], orientation: step.tile.orientation };
+      updateConnectivity(state.grid, [step.at]);
+      applyDecay(state, { action: DecayAction.Rotate, at: [step.at] }, objectManager);
+      return;
+    }
+
+    objectManager.handlePush(step.plot, state.grid);
+    const { newGrid, ejectedTile } = pushTileIntoGrid(state.grid, step.plot, step.tile);
+    state.grid = newGrid;
+
+    const { rows, cols } = getGridSize(state.grid);
+    applyDecay(state, {
+      action: DecayAction.Push,
+      at: [getPushedTilePosition(step.plot, rows, cols)],
+      plot: step.plot,
+    }, objectManager);
+    state.lastPushedPlot = step.plot;
+
+    // The ejected tile is kept or discarded into the rival's deck, like the player's
+    if (RULES.EJECTED_TILE_BECOMES_CURRENT && ejectedTile) {
+      this.tile = ejectedTile;
+    } else {
+      if (ejectedTile) this.deck.discard(ejectedTile);
+      this.tile = this.deck.draw();
+    }
+  }
+
+  /**
+   * Returns a move down the true path distance to the exit, or null if there's no way closer
+   */
+  private getDownhillMove(grid: TileInstance[][], exit: GridPosition): PlanStep | null {
+    const field = new FlowField(grid, exit, this.mob.flying, getCostProfile(this.mob));
+    const walk = field.getCost(this.mob.gridPosition) < Infinity
+      ? field.follow(this.mob.gridPosition, this.mob.movesRemaining)
+      : null;
+    return walk ? { type: "move", to: walk.position, path: walk.path } : null;
+  }
+
+  /**
+   * Returns a move to a random reachable tile, or null if none is reachable
+   */
+  private getRandomMove(grid: TileInstance[][]): PlanStep | null {
+    const reachable = findReachableTiles(grid, this.mob.gridPosition, this.mob.movesRemaining, [], this.mob.flying, getCostProfile(this.mob));
+    if (reachable.length === 0) {
+      return null;
+    }
+    const { position, path } = getRunRandom().pick(reachable);
+    return { type: "move", to: position, path };
+  }
+}
@@ -0,0 +1,252 @@
+import { RULES, PLANNER } from "../config";
+import type { TileInstance, GridPosition, PlotPosition, Orientation, MapObject, PlanStep, RoutePlan } from "../types";
+import { getGridSize, getPlotPositions, pushTileIntoGrid, isPlotBlocked, isReversePush, isPit } from "../core/Grid";
+import { deriveConnectivity } from "../core/Connectivity";
+import { findReachableTiles, getCostProfile, type ReachableTile } from "./Pathfinding";
+import { getDistinctOrientations, gridKey, shiftPosition } from "./LevelSolver";
+
+/**
+ * Where a route should lead
+ */
+export interface RouteGoal {
+  position: GridPosition;
+  shifts: boolean;  // True for an object that moves with pushed tiles (the exit), false for a grid cell
+}
+
+interface PlanNode {
+  grid: TileInstance[][];
+  mob: GridPosition;
+  goal: GridPosition;
+  tile: TileInstance | null;  // Tile the next push would use
+  nextTile: number;  // Index of the tile that follows it
+  pushes: number;
+  lastPushedPlot: PlotPosition | null;
+  parent: PlanNode | null;  // Node the step was taken from
+  step: PlanStep | null;  // Step that led here
+  turns: number;
+}
+
+interface PushResult {
+  newGrid: TileInstance[][];
+  ejectedTile: TileInstance | null;
+  pushed: TileInstance;
+}
+
+const isAt = (a: GridPosition, b: GridPosition) => a.row === b.row && a.col === b.col;
+
+function getSteps(node: PlanNode): PlanStep[] {
+  const steps: PlanStep[] = [];
+  for (let at: PlanNode | null = node; at?.step; at = at.parent) {
+    steps.unshift(at.step);
+  }
+  return steps;
+}
+
+/**
+ * Searches for the fewest turns a mob needs to reach a goal
+ *
+ * Every turn the mob either moves as far as its movement allows, pushes the tile it
+ * holds (in any orientation) into a free plot, or rotates the tile it stands on, like
+ * the player does. Unlike solveLevel() a move spans the whole turn's movement and the
+ * mob's cost profile, and pushes are limited. A turn's movement after the first is the
+ * mob's speed rounded down, at least one tile. Enemies, items and decay are left out.
+ *
+ * @param grid Grid to plan on (not modified)
+ * @param mob Mob that follows the plan (position, movement and cost profile are used)
+ * @param goal Goal to reach
+ * @param tiles Tiles the mob will push, in order (the first is the one it holds)
+ * @param lastPushedPlot Plot of the most recent push (for RULES.FORBID_REVERSE_PUSH)
+ * @param maxPushes Maximum number of pushes in a plan
+ * @param maxTurns Maximum number of turns to search
+ * @param maxStates Maximum number of states to explore before giving up
+ * @returns The shortest plan, or null if none was found within the limits
+ */
+export function planRoute(
+  grid: TileInstance[][],
+  mob: MapObject,
+  goal: RouteGoal,
+  tiles: TileInstance[],
+  lastPushedPlot: PlotPosition | null = null,
+  maxPushes: number = PLANNER.MAX_PUSHES,
+  maxTurns: number = PLANNER.MAX_TURNS,
+  maxStates: number = PLANNER.MAX_STATES
+): RoutePlan | null {
+  const start: PlanNode = {
+    grid,
+    mob: mob.gridPosition,
+    goal: goal.position,
+    tile: tiles[0] ?? null,
+    nextTile: 1,
+    pushes: 0,
+    lastPushedPlot,
+    parent: null,
+    step: null,
+    turns: 0,
+  };
+  if (isAt(start.mob, start.goal)) {
+    return { steps: [], goal: start.goal };
+  }
+
+  const { rows, cols } = getGridSize(grid);
+  const plots = getPlotPositions(rows, cols);
+  const profile = getCostProfile(mob);
+  const turnMoves = Math.max(1, Math.floor(mob.movementSpeed));
+  const getMoves = (node: PlanNode) => node.turns === 0 ? mob.movesRemaining : turnMoves;
+
+  // Many nodes share a grid (moves don't copy it), so pushes and reachable sets are
+  // computed once per grid, tile and position
+  const ids = new WeakMap<object, number>();
+  let nextId = 0;
+  const idOf = (value: object) => {
+    if (!ids.has(value)) ids.set(value, nextId++);
+    return ids.get(value)!;
+  };
+  const reachable = new Map<string, ReachableTile[]>();
+  const reach = (node: PlanNode, moves: number, on: TileInstance[][] = node.grid) => {
+    const key = `${idOf(on)};${node.mob.row},${node.mob.col};${moves}`;
+    let tiles = reachable.get(key);
+    if (!tiles) {
+      tiles = moves > 0 ? findReachableTiles(on, node.mob, moves, [], mob.flying, profile) : [];
+      reachable.set(key, tiles);
+    }
+    return tiles;
+  };
+  const pushed = new Map<string, PushResult>();
+  const push = (on: TileInstance[][], plot: PlotPosition, tile: TileInstance, orientation: Orientation) => {
+    const key = `${idOf(on)};${idOf(tile)};${plot.row},${plot.col};${orientation}`;
+    let result = pushed.get(key);
+    if (!result) {
+      const rotated = { ...tile, orientation };
+      result = { ...pushTileIntoGrid(on, plot, rotated), pushed: rotated };
+      pushed.set(key, result);
+    }
+    return result;
+  };
+
+  // Grids made in different ways may be laid out the same, they count as one
+  const gridKeys = new Map<TileInstance[][], string>();
+  const layouts = new Map<string, number>();
+  const nodeKey = (node: PlanNode) => {
+    const layout = gridKey(node.grid, gridKeys);
+    if (!layouts.has(layout)) layouts.set(layout, layouts.size);
+    const plot = node.lastPushedPlot ? `${node.lastPushedPlot.row},${node.lastPushedPlot.col}` : "";
+    return `${node.mob.row},${node.mob.col};${node.goal.row},${node.goal.col};${node.pushes};${node.nextTile};${node.tile?.type ?? ""};${plot};${layouts.get(layout)}`;
+  };
+  const follow = (node: PlanNode, step: PlanStep, changes: Partial<PlanNode>): PlanNode =>
+    ({ ...node, ...changes, parent: node, step, turns: node.turns + 1 });
+
+  // A turn brings the mob at most a turn's movement closer (a push only one tile), so the
+  // estimate never overestimates the remaining turns (teleport pads aside)
+  const stride = Math.max(turnMoves, mob.movesRemaining);
+  const estimate = (node: PlanNode) =>
+    node.turns + Math.ceil((Math.abs(node.mob.row - node.goal.row) + Math.abs(node.mob.col - node.goal.col)) / stride);
+
+  // A* with one bucket per estimated total, so the first plan found is the shortest
+  const buckets: PlanNode[][] = [];
+  const enqueue = (node: PlanNode) => {
+    (buckets[estimate(node)] ??= []).push(node);
+  };
+
+  const visited = new Map<string, number>([[nodeKey(start), 0]]);
+  enqueue(start);
+
+  for (let f = 0; f < buckets.length; f++) {
+    const bucket = buckets[f];
+    while (bucket && bucket.length > 0) {
+      const node = bucket.pop()!;
+      if (node.turns >= maxTurns) continue;
+
+      const successors: PlanNode[] = [];
+
+      // Move: the goal within reach ends the search
+      const moves = reach(node, getMoves(node));
+      const arrival = moves.find(({ position }) => isAt(position, node.goal));
+      if (arrival) {
+        return { steps: [...getSteps(node), { type: "move", to: arrival.position, path: arrival.path }], goal: node.goal };
+      }
+      for (const { position, path } of moves) {
+        successors.push(follow(node, { type: "move", to: position, path }, { mob: position }));
+      }
+
+      // Rotate the tile underfoot, only if that opens tiles the next turn couldn't reach
+      const standingOn = node.grid[node.mob.row][node.mob.col];
+      if (!standingOn.fixed && !isPit(standingOn)) {
+        const known = new Set(reach(node, turnMoves).map(({ position }) => `${position.row},${position.col}`));
+        for (const orientation of getDistinctOrientations(standingOn.type)) {
+          if (orientation === standingOn.orientation) continue;
+          const rotated = { ...standingOn, orientation };
+          const rotatedGrid = node.grid.map(row => [...row]);
+          rotatedGrid[node.mob.row][node.mob.col] = rotated;
+          deriveConnectivity(node.grid, rotatedGrid, [node.mob]);
+          const opensNewTiles = reach(node, turnMoves, rotatedGrid)
+            .some(({ position }) => !known.has(`${position.row},${position.col}`));
+          if (!opensNewTiles) continue;
+          successors.push(follow(node, { type: "rotate", at: node.mob, tile: rotated }, { grid: rotatedGrid }));
+        }
+      }
+
+      // Push the tile in hand
+      if (node.tile && node.pushes < maxPushes) {
+        successors.push(...getPushSuccessors(node, tiles, plots, goal.shifts, !mob.flying, push, follow));
+      }
+
+      for (const successor of successors) {
+        if (isAt(successor.mob, successor.goal)) {
+          return { steps: getSteps(successor), goal: successor.goal };
+        }
+
+        const key = nodeKey(successor);
+        const previousTurns = visited.get(key);
+        if (previousTurns !== undefined && previousTurns <= successor.turns) continue;
+        if (visited.size >= maxStates) return null;
+
+        visited.set(key, successor.turns);
+        enqueue(successor);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns every node one push away, in each plot and distinct orientation of the held tile
+ */
+function getPushSuccessors(
+  node: PlanNode,
+  tiles: TileInstance[],
+  plots: PlotPosition[],
+  goalShifts: boolean,
+  canFall: boolean,
+  push: (grid: TileInstance[][], plot: PlotPosition, tile: TileInstance, orientation: Orientation) => PushResult,
+  follow: (node: PlanNode, step: PlanStep, changes: Partial<PlanNode>) => PlanNode
+): PlanNode[] {
+  const successors: PlanNode[] = [];
+  const tile = node.tile!;
+
+  for (const plot of plots) {
+    if (isPlotBlocked(node.grid, plot) || isReversePush(node.grid, plot, node.lastPushedPlot)) continue;
+
+    const mob = shiftPosition(node.mob, node.grid, plot, canFall);
+    const goal = goalShifts ? shiftPosition(node.goal, node.grid, plot, false) : node.goal;
+    if (!mob || !goal) continue;
+
+    for (const orientation of getDistinctOrientations(tile.type)) {
+      const { newGrid, ejectedTile, pushed } = push(node.grid, plot, tile, orientation);
+
+      // Mirrors TilePlacementState.executePush(): the ejected tile or the next one is held
+      const keepsEjected = RULES.EJECTED_TILE_BECOMES_CURRENT && ejectedTile !== null;
+      successors.push(follow(node, { type: "push", plot, tile: pushed }, {
+        grid: newGrid,
+        mob,
+        goal,
+        tile: keepsEjected ? ejectedTile : tiles[node.nextTile] ?? null,
+        nextTile: keepsEjected ? node.nextTile : node.nextTile + 1,
+        pushes: node.pushes + 1,
+        lastPushedPlot: plot,
+      }));
+    }
+  }
+
+  return successors;
+}
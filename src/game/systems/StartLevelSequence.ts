@@ -1,7 +1,8 @@
 import { k } from "../../kaplayCtx";
 import type { GameState, MapObject } from "../types";
 import type { MapObjectManager } from "./MapObjectManager";
-import { START_LEVEL, GRID_OFFSET_X, GRID_OFFSET_Y, TILE_SIZE, GRID_ROWS, GRID_COLS } from "../config";
+import { START_LEVEL, GRID_OFFSET_X, TILE_SIZE, getGridOffsetY } from "../config";
+import { getGridSize } from "../core/Grid";
 
 /**
  * StartLevelSequence - Manages the animated sequence at the start of each level
@@ -59,13 +60,14 @@ export class StartLevelSequence {
    */
   private async revealGrid(): Promise<void> {
 
-    const totalTiles = GRID_ROWS * GRID_COLS;
+    const { rows, cols } = getGridSize(this.state.grid);
+    const totalTiles = rows * cols;
     const delayPerTile = START_LEVEL.GRID_REVEAL_DURATION / totalTiles;
 
     // Create array of all tile positions
     const positions: { row: number; col: number }[] = [];
-    for (let r = 0; r < GRID_ROWS; r++) {
-      for (let c = 0; c < GRID_COLS; c++) {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
         positions.push({ row: r, col: c });
       }
     }
@@ -91,8 +93,9 @@ export class StartLevelSequence {
    * Orders positions in a spiral pattern from center
    */
   private spiralOrder(positions: { row: number; col: number }[]): { row: number; col: number }[] {
-    const centerRow = Math.floor(GRID_ROWS / 2);
-    const centerCol = Math.floor(GRID_COLS / 2);
+    const { rows, cols } = getGridSize(this.state.grid);
+    const centerRow = Math.floor(rows / 2);
+    const centerCol = Math.floor(cols / 2);
 
     // Sort by Manhattan distance from center
     return positions.sort((a, b) => {
@@ -139,7 +142,7 @@ export class StartLevelSequence {
   private async spawnObject(obj: MapObject): Promise<void> {
 
     const x = GRID_OFFSET_X + obj.gridPosition.col * TILE_SIZE + TILE_SIZE / 2 + obj.spriteOffset.x;
-    const y = GRID_OFFSET_Y + obj.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + obj.spriteOffset.y;
+    const y = getGridOffsetY(getGridSize(this.state.grid).rows) + obj.gridPosition.row * TILE_SIZE + TILE_SIZE / 2 + obj.spriteOffset.y;
 
     // Create a temporary spawn effect
     const spawnEffect = k.add([
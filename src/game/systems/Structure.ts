@@ -0,0 +1,146 @@
+import { DecayAction, type DecayEvent, type GameState, type GridPosition, type TileInstance } from "../types";
+import { DECAY_PROGRESSION, STRUCTURE } from "../config";
+import { getGridSize, isImmovableEdge, isPit, isVoid } from "../core/Grid";
+import { getRunRandom } from "../core/Random";
+import { applyDecay, canTileDecay, collapseTiles, type ObjectLookup } from "./DecayEngine";
+
+const positionKey = (pos: GridPosition) => `${pos.row},${pos.col}`;
+
+function getNeighbours(grid: TileInstance[][], { row, col }: GridPosition): GridPosition[] {
+  const { rows, cols } = getGridSize(grid);
+  return [
+    { row: row - 1, col },
+    { row: row + 1, col },
+    { row, col: col - 1 },
+    { row, col: col + 1 },
+  ].filter(pos => pos.row >= 0 && pos.row < rows && pos.col >= 0 && pos.col < cols);
+}
+
+/**
+ * Returns true if a tile is a load-bearing anchor (an immovable edge tile that exists)
+ */
+export function isAnchor(grid: TileInstance[][], pos: GridPosition): boolean {
+  const { rows, cols } = getGridSize(grid);
+  return !isVoid(grid[pos.row][pos.col]) && isImmovableEdge(pos.row, pos.col, rows, cols);
+}
+
+/**
+ * Returns true if a tile weakens its neighbours (critical decay, not yet a pit)
+ */
+function isCritical(grid: TileInstance[][], pos: GridPosition): boolean {
+  const tile = grid[pos.row][pos.col];
+  return !isPit(tile) && tile.decay >= STRUCTURE.CRITICAL_DECAY;
+}
+
+/**
+ * Returns the chance that a tile decays in the next structural pass
+ * Each critical neighbour adds STRUCTURE.SPREAD_CHANCE, anchors slow the spread
+ */
+function getSpreadChance(grid: TileInstance[][], pos: GridPosition): number {
+  const neighbours = getNeighbours(grid, pos);
+  const criticalCount = neighbours.filter(n => isCritical(grid, n)).length;
+  if (criticalCount === 0) return 0;
+
+  const factor = isAnchor(grid, pos)
+    ? STRUCTURE.ANCHOR_SPREAD
+    : neighbours.some(n => isAnchor(grid, n)) ? STRUCTURE.NEAR_ANCHOR_SPREAD : 1;
+
+  return Math.min(1, criticalCount * STRUCTURE.SPREAD_CHANCE * factor);
+}
+
+/**
+ * Returns how stable a tile is, from 0 (pit) to 1 (sound and not under threat)
+ * Combines the tile's own decay with the chance that critical neighbours weaken it
+ */
+export function getTileStability(grid: TileInstance[][], pos: GridPosition): number {
+  const tile = grid[pos.row][pos.col];
+  if (isPit(tile)) return 0;
+  if (tile.fixed || isVoid(tile)) return 1;
+
+  const condition = 1 - tile.decay / DECAY_PROGRESSION.MAX_DECAY;
+  return Math.max(0, condition - getSpreadChance(grid, pos));
+}
+
+/**
+ * Returns the connected clusters of critical tiles that may cascade-collapse
+ * Anchors never join a cluster, they hold up the tiles around them.
+ */
+function getCascadeClusters(grid: TileInstance[][], objects?: ObjectLookup): GridPosition[][] {
+  const { rows, cols } = getGridSize(grid);
+  const visited = new Set<string>();
+  const clusters: GridPosition[][] = [];
+
+  const isCandidate = (pos: GridPosition) =>
+    isCritical(grid, pos) && !isAnchor(grid, pos) && canTileDecay(grid, pos, objects);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const start = { row, col };
+      if (visited.has(positionKey(start)) || !isCandidate(start)) continue;
+
+      const cluster: GridPosition[] = [];
+      const queue = [start];
+      visited.add(positionKey(start));
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        cluster.push(current);
+        for (const neighbour of getNeighbours(grid, current)) {
+          if (visited.has(positionKey(neighbour)) || !isCandidate(neighbour)) continue;
+          visited.add(positionKey(neighbour));
+          queue.push(neighbour);
+        }
+      }
+
+      if (cluster.length >= STRUCTURE.CASCADE_SIZE) {
+        clusters.push(cluster);
+      }
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Runs the structural pass at the end of a round
+ *
+ * 1. Every tile next to critical tiles may decay (see getSpreadChance())
+ * 2. Every cluster of STRUCTURE.CASCADE_SIZE connected critical tiles may collapse at once
+ *    (a cluster touching an anchor is less likely to)
+ *
+ * Critical tiles are taken from the grid before the pass, so spread doesn't chain within
+ * one round. Does nothing in the boss room.
+ *
+ * @param state Game state (grid is modified in place)
+ * @param objects Optional object lookup (tiles with exits don't decay)
+ * @returns Decay events of the pass, also queued in `state.decayEvents`
+ */
+export function runStructuralPass(state: GameState, objects?: ObjectLookup): DecayEvent[] {
+  if (state.isBossRoom) {
+    return [];
+  }
+
+  const grid = state.grid;
+  const { rows, cols } = getGridSize(grid);
+  const weakened: GridPosition[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const chance = getSpreadChance(grid, { row, col });
+      if (chance > 0 && getRunRandom().next() < chance) {
+        weakened.push({ row, col });
+      }
+    }
+  }
+
+  const events = applyDecay(state, { action: DecayAction.Spread, at: weakened }, objects);
+
+  for (const cluster of getCascadeClusters(grid, objects)) {
+    const isSupported = cluster.some(pos => getNeighbours(grid, pos).some(n => isAnchor(grid, n)));
+    const chance = STRUCTURE.CASCADE_CHANCE * (isSupported ? STRUCTURE.NEAR_ANCHOR_SPREAD : 1);
+    if (getRunRandom().next() < chance) {
+      events.push(...collapseTiles(state, cluster, DecayAction.Spread, objects));
+    }
+  }
+
+  return events;
+}
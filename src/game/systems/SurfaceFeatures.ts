@@ -0,0 +1,168 @@
+import { SurfaceFeature, type BiomeTables, type GridPosition, type MapObject, type TileInstance } from "../types";
+import { SURFACE_FEATURES } from "../config";
+import { getGridSize, isPit, isVoid } from "../core/Grid";
+import { getRunRandom } from "../core/Random";
+import type { ObjectLookup } from "./DecayEngine";
+
+/**
+ * Returns the feature lying on a tile (a pit has lost whatever was on it)
+ */
+export function getFeature(tile: TileInstance | undefined): SurfaceFeature | undefined {
+  return tile && !isPit(tile) ? tile.feature : undefined;
+}
+
+/**
+ * Returns the movement points spent to step onto a tile
+ * Flyers don't care what lies on the floor.
+ */
+export function getMovementCost(tile: TileInstance | undefined, isFlying: boolean = false): number {
+  return !isFlying && getFeature(tile) === SurfaceFeature.Water ? SURFACE_FEATURES.WATER_COST : 1;
+}
+
+/**
+ * Returns the movement points spent once a mover steps onto a tile, or null if it can't afford the step
+ * Water may cost more than a slow mob's whole turn, so a mover that hasn't moved yet can always
+ * take its first step: wading in then spends the rest of its budget and ends the move.
+ * @param spent Movement points spent on the way so far
+ * @param budget Movement points the mover has for the whole move
+ */
+export function getStepDistance(tile: TileInstance | undefined, spent: number, budget: number, isFlying: boolean = false): number | null {
+  const distance = spent + getMovementCost(tile, isFlying);
+  if (distance <= budget) {
+    return distance;
+  }
+  return spent === 0 && budget > 0 ? budget : null;
+}
+
+/**
+ * Returns the movement points spent to walk a path (the first position is the start)
+ * @param budget Movement points the mover had for the path (see getStepDistance())
+ */
+export function getPathCost(grid: TileInstance[][], path: GridPosition[], isFlying: boolean = false, budget: number = Infinity): number {
+  return path.slice(1).reduce((spent, { row, col }) => {
+    const tile = grid[row]?.[col];
+    return getStepDistance(tile, spent, budget, isFlying) ?? spent + getMovementCost(tile, isFlying);
+  }, 0);
+}
+
+/**
+ * Returns true if a feature stops grounded mobs from stepping onto a tile (rubble)
+ */
+export function isBlockedByFeature(tile: TileInstance | undefined, isFlying: boolean = false): boolean {
+  return !isFlying && getFeature(tile) === SurfaceFeature.Rubble;
+}
+
+/**
+ * Returns true if stepping onto a tile hurts a grounded mob (spikes)
+ * Cautious movers avoid these like tiles they may fall through.
+ */
+export function isHazardous(tile: TileInstance | undefined, isFlying: boolean = false): boolean {
+  return !isFlying && getFeature(tile) === SurfaceFeature.Spikes;
+}
+
+/**
+ * Returns the damage a mob takes stepping onto a tile
+ */
+export function getEnterDamage(tile: TileInstance | undefined, mob: MapObject): number {
+  return isHazardous(tile, mob.flying) ? SURFACE_FEATURES.SPIKE_DAMAGE : 0;
+}
+
+/**
+ * Returns the pad linked to the teleport pad at a position
+ * @returns null if there's no pad at the position or its partner is gone (pushed out or collapsed)
+ */
+export function getLinkedPad(grid: TileInstance[][], pos: GridPosition): GridPosition | null {
+  const pad = grid[pos.row]?.[pos.col];
+  if (getFeature(pad) !== SurfaceFeature.Teleport) {
+    return null;
+  }
+
+  const { rows, cols } = getGridSize(grid);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (row === pos.row && col === pos.col) continue;
+      const tile = grid[row][col];
+      if (getFeature(tile) === SurfaceFeature.Teleport && tile.padId === pad!.padId) {
+        return { row, col };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Clears the rubble off a tile
+ * @returns false if there was no rubble
+ */
+export function clearRubble(grid: TileInstance[][], pos: GridPosition): boolean {
+  const tile = grid[pos.row]?.[pos.col];
+  if (getFeature(tile) !== SurfaceFeature.Rubble) {
+    return false;
+  }
+
+  delete tile!.feature;
+  return true;
+}
+
+/**
+ * Clears every surface feature off a level
+ * @param grid Level grid (modified in place)
+ */
+export function clearSurfaceFeatures(grid: TileInstance[][]): void {
+  for (const tile of grid.flat()) {
+    delete tile.feature;
+    delete tile.padId;
+  }
+}
+
+function rollFeature(weights: Record<SurfaceFeature, number>): SurfaceFeature {
+  const entries = Object.entries(weights) as [SurfaceFeature, number][];
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let random = getRunRandom().next() * totalWeight;
+  for (const [feature, weight] of entries) {
+    random -= weight;
+    if (random <= 0) {
+      return feature;
+    }
+  }
+
+  return entries[entries.length - 1][0];
+}
+
+/**
+ * Scatters surface features over a generated level using the biome's tables
+ *
+ * Fixed tiles (doorways) and tiles with objects on them (player, exit, enemies, items) are left bare.
+ * Teleport pads are linked in pairs, an unpaired last pad is dropped.
+ *
+ * @param grid Level grid (modified in place)
+ * @param biome Tables with the feature chance and weights
+ * @param objects Optional object lookup
+ */
+export function spawnSurfaceFeatures(grid: TileInstance[][], biome: BiomeTables, objects?: ObjectLookup): void {
+  const { rows, cols } = getGridSize(grid);
+  const pads: TileInstance[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const tile = grid[row][col];
+      if (isPit(tile) || isVoid(tile) || tile.fixed || tile.feature) continue;
+      if (objects && objects.getObjectsAtPosition(row, col).length > 0) continue;
+      if (getRunRandom().next() >= biome.featureChance) continue;
+
+      tile.feature = rollFeature(biome.featureWeights);
+      if (tile.feature === SurfaceFeature.Teleport) {
+        pads.push(tile);
+      }
+    }
+  }
+
+  if (pads.length % 2 === 1) {
+    delete pads.pop()!.feature;
+  }
+  getRunRandom().shuffle(pads).forEach((pad, index) => {
+    pad.padId = Math.floor(index / 2);
+  });
+}
@@ -1,28 +1,74 @@
-import { TurnOwner, PlayerPhase, type PlotPosition, type GameState, type MapObject } from "../types";
-import { createGrid, getPlotPositions, pushTileIntoGrid } from "../core/Grid";
-import { TileDeck } from "../core/TileDeck";
+import { TurnOwner, PlayerPhase, DecayAction, type PlotPosition, type GridPosition, type GameState, type MapObject, type TileInstance, type DeckComposition, type BiomeTables, type RoutePlan, type PlanStep, type RivalDifficulty } from "../types";
+import { createGrid, getGridSize, getPlotPositions, getRandomGridShape, pushTileIntoGrid, isPlotBlocked, isReversePush } from "../core/Grid";
+import { TileDeck, countTiles } from "../core/TileDeck";
 import { rotateTile, rotateTileCounterClockwise } from "../core/Tile";
-import { GRID_COLS, GRID_ROWS, STARTING_LEVEL, INVENTORY } from "../config";
+import { updateConnectivity } from "../core/Connectivity";
+import { GRID_COLS, GRID_ROWS, STARTING_LEVEL, INVENTORY, RULES, HAND, HINT, PLANNER, RIVAL } from "../config";
 import { MapObjectManager } from "./MapObjectManager";
 import type { EnemyDatabase } from "./EnemyDatabase";
 import type { ItemDatabase } from "./ItemDatabase";
+import type { LoadedLevel } from "./LevelLoader";
+import { DEFAULT_BIOME } from "./BiomeDatabase";
+import { simulatePush, type PushPreview } from "./PushPreview";
+import { planRoute, type RouteGoal } from "./RoutePlanner";
+import { applyDecay } from "./DecayEngine";
+import { fillHand, advanceHand, selectHandTile, holdTile } from "./Hand";
+import { Rival } from "./Rival";
 import type { TurnState, StateContext } from "./states/interfaces";
 import { PlayerTurnState, AwaitingActionState } from "./states";
 
 export type TurnManagerCallback = () => void;
 
+/**
+ * Creates a fresh game state around the given grid
+ * Used for procedural levels and by the level loader for hand-authored levels
+ */
+export function createGameState(grid: TileInstance[][], biome: BiomeTables = DEFAULT_BIOME): GameState {
+  return {
+    grid,
+    currentTile: null,
+    hand: [],
+    heldTile: null,
+    handSize: HAND.DEFAULT_SIZE,
+    selectedPlot: null,
+    turnOwner: TurnOwner.Player,
+    playerPhase: PlayerPhase.AwaitingAction,
+    hasPlacedTile: false,
+    rotatingTilePosition: null,
+    originalTileOrientation: null,
+    isInStartLevelSequence: true,  // Start in sequence, will be set to false when complete
+    revealedTiles: new Set<string>(),  // Empty initially, tiles revealed during start sequence
+    wallBumpCount: 0,
+    wallBumpTarget: null,
+    currentLevel: STARTING_LEVEL,
+    isAscending: false,  // Initially false, set based on level transitions
+    inventory: Array(INVENTORY.SLOTS_X * INVENTORY.SLOTS_Y).fill(null),  // Initialize inventory slots
+    equipment: Array(5).fill(null),  // Initialize 5 empty equipment slots: [Head, MainHand, OffHand, Legs, Torso]
+    buffs: [],  // Initialize empty buffs array
+    isBossRoom: false,  // Initialize to false, set by mainScene when entering boss room
+    winConditions: [],  // Procedural levels only require reaching the exit
+    par: null,  // Set by mainScene once the level has been solved
+    lastPushedPlot: null,  // No push yet
+    biome,
+    decayEvents: [],  // Nothing decayed yet
+    floor: null,  // Set by mainScene for multi-room floors
+    hint: null,  // No hint asked for yet
+    hintsUsed: 0,
+  };
+}
+
 /**
  * TurnManager - Manages game turns and delegates to state objects
  *
  * @description
- * Coordinates game flow between player and enemy turns using the State pattern.
+ * Coordinates game flow between player, rival and enemy turns using the State pattern.
  * All turn-specific logic is delegated to TurnState and PlayerPhaseState objects
  * when `useStatePattern` is enabled.
  *
  * **Architecture:**
  * ```
  * TurnManager
- * ├── currentTurnState: TurnState (PlayerTurnState | EnemyTurnState)
+ * ├── currentTurnState: TurnState (PlayerTurnState | RivalTurnState | EnemyTurnState)
  * └── stateContext: StateContext (dependencies passed to states)
  *
  * PlayerTurnState
@@ -38,7 +84,7 @@ export type TurnManagerCallback = () => void;
  * Player Turn Start → AwaitingActionState
  *   → TilePlacementState → push tile → AwaitingActionState
  *   → RotatingTileState → confirm → AwaitingActionState
- *   → move player → Enemy Turn → Player Turn Start
+ *   → move player → Rival Turn (if the level has a rival) → Enemy Turn → Player Turn Start
  * ```
  *
  * **Feature Flag:**
@@ -65,6 +111,7 @@ export class TurnManager {
   private onStateChange: TurnManagerCallback;
   private deck: TileDeck;
   private objectManager: MapObjectManager;
+  private rival: Rival | null = null;
 
   // State pattern fields
   private currentTurnState: TurnState;
@@ -78,32 +125,14 @@ export class TurnManager {
    */
   private useStatePattern: boolean = true;
 
-  constructor(onStateChange: TurnManagerCallback, enemyDatabase: EnemyDatabase, itemDatabase: ItemDatabase, resetAnimation: TurnManagerCallback = () => {}, extraTiles: number = 1) {
+  constructor(onStateChange: TurnManagerCallback, enemyDatabase: EnemyDatabase, itemDatabase: ItemDatabase, resetAnimation: TurnManagerCallback = () => {}, extraTiles: number = 1, rows: number = GRID_ROWS, cols: number = GRID_COLS, biome: BiomeTables = DEFAULT_BIOME) {
     this.onStateChange = onStateChange;
     const n = Math.max(1, extraTiles);
-    const totalTiles = GRID_ROWS * GRID_COLS + n;
-    this.deck = new TileDeck(totalTiles);
+    const totalTiles = rows * cols + n;
+    this.deck = new TileDeck(totalTiles, biome.tileWeights);
     this.objectManager = new MapObjectManager(enemyDatabase, itemDatabase);
-    this.state = {
-      grid: createGrid(GRID_ROWS, GRID_COLS, this.deck),
-      currentTile: null,
-      selectedPlot: null,
-      turnOwner: TurnOwner.Player,
-      playerPhase: PlayerPhase.AwaitingAction,
-      hasPlacedTile: false,
-      rotatingTilePosition: null,
-      originalTileOrientation: null,
-      isInStartLevelSequence: true,  // Start in sequence, will be set to false when complete
-      revealedTiles: new Set<string>(),  // Empty initially, tiles revealed during start sequence
-      wallBumpCount: 0,
-      wallBumpTarget: null,
-      currentLevel: STARTING_LEVEL,
-      isAscending: false,  // Initially false, set based on level transitions
-      inventory: Array(INVENTORY.SLOTS_X * INVENTORY.SLOTS_Y).fill(null),  // Initialize inventory slots
-      equipment: Array(5).fill(null),  // Initialize 5 empty equipment slots: [Head, MainHand, OffHand, Legs, Torso]
-      buffs: [],  // Initialize empty buffs array
-      isBossRoom: false,  // Initialize to false, set by mainScene when entering boss room
-    };
+    const grid = createGrid(rows, cols, this.deck, false, biome.decayWeights, getRandomGridShape(biome.shapeWeights));
+    this.state = createGameState(grid, biome);
 
     // Initialize state pattern
     this.stateContext = {
@@ -116,6 +145,86 @@ export class TurnManager {
     this.currentTurnState = new PlayerTurnState(new AwaitingActionState());
   }
 
+  /**
+   * Replaces the generated level with a hand-authored one
+   *
+   * @remarks
+   * Must be called before the level starts (before anyone holds on to the old state).
+   *
+   * **Side Effects:**
+   * - Replaces state, deck and object manager
+   * - Resets to a fresh player turn
+   */
+  loadLevel(level: LoadedLevel): void {
+    this.state = level.state;
+    this.deck = level.deck;
+    this.objectManager = level.objectManager;
+    this.rival = null;
+    this.stateContext = {
+      ...this.stateContext,
+      state: this.state,
+      objectManager: this.objectManager,
+      deck: this.deck,
+    };
+    this.currentTurnState = new PlayerTurnState(new AwaitingActionState());
+  }
+
+  /**
+   * Replaces the grid with a freshly generated one of the same size
+   *
+   * @remarks
+   * Used when a generated level fails validation.
+   *
+   * **Side Effects:**
+   * - Replaces the grid with one drawn from fresh random tiles (the player's deck is not touched)
+   * - Picks the grid shape again from the biome's weights
+   */
+  regenerateGrid(): void {
+    const { rows, cols } = getGridSize(this.state.grid);
+    const { tileWeights, decayWeights, shapeWeights } = this.state.biome;
+    const deck = new TileDeck(rows * cols, tileWeights);
+    this.state.grid = createGrid(rows, cols, deck, this.state.isBossRoom, decayWeights, getRandomGridShape(shapeWeights));
+  }
+
+  /**
+   * Replaces the deck the hand draws from with the player's run deck
+   *
+   * @remarks
+   * The grid is not affected, it was built from the level's own tiles.
+   * Must be called before the first player turn.
+   */
+  usePlayerDeck(composition: DeckComposition): void {
+    this.deck = new TileDeck(composition, this.state.biome.tileWeights);
+    this.stateContext = {
+      ...this.stateContext,
+      deck: this.deck,
+    };
+  }
+
+  /**
+   * Returns every tile the player owns: draw and discard piles, hand and hold slot
+   * Tiles pushed into the grid leave the deck, tiles pushed off the grid join it
+   */
+  getPlayerDeck(): DeckComposition {
+    return countTiles([
+      ...this.deck.getTiles(),
+      this.state.currentTile,
+      ...this.state.hand,
+      this.state.heldTile,
+    ]);
+  }
+
+  getDeck(): TileDeck {
+    return this.deck;
+  }
+
+  /**
+   * Returns the tile the player will hold first without drawing it
+   */
+  peekNextTile(): TileInstance | null {
+    return this.state.currentTile ?? this.deck.peek();
+  }
+
   getObjectManager(): MapObjectManager {
     return this.objectManager;
   }
@@ -128,8 +237,43 @@ export class TurnManager {
     return this.state;
   }
 
+  /**
+   * Adds a rival mason that races the player to the exit with a deck of its own
+   * Must be called before the level starts, like the other objects are created.
+   */
+  addRival(gridPosition: GridPosition, difficulty: RivalDifficulty): Rival {
+    const mob = this.objectManager.createRival(gridPosition);
+    this.rival = new Rival(mob, new TileDeck(RIVAL.DECK_SIZE, this.state.biome.tileWeights), difficulty);
+    return this.rival;
+  }
+
+  /**
+   * Returns the level's rival, or null if there is none (or it was pushed off the grid or fell)
+   */
+  getRival(): Rival | null {
+    if (this.rival && !this.objectManager.getAllObjects().includes(this.rival.mob)) {
+      this.rival = null;
+    }
+    return this.rival;
+  }
+
   getPlots(): PlotPosition[] {
-    return getPlotPositions(GRID_ROWS, GRID_COLS);
+    const { rows, cols } = getGridSize(this.state.grid);
+    return getPlotPositions(rows, cols).filter(plot =>
+      !isPlotBlocked(this.state.grid, plot) &&
+      !isReversePush(this.state.grid, plot, this.state.lastPushedPlot)
+    );
+  }
+
+  /**
+   * Returns plots that exist but are closed by a game rule (shown as blocked)
+   */
+  getBlockedPlots(): PlotPosition[] {
+    const { rows, cols } = getGridSize(this.state.grid);
+    return getPlotPositions(rows, cols).filter(plot =>
+      !isPlotBlocked(this.state.grid, plot) &&
+      isReversePush(this.state.grid, plot, this.state.lastPushedPlot)
+    );
   }
 
   // === Turn Control ===
@@ -143,7 +287,7 @@ export class TurnManager {
    *
    * **Side Effects:**
    * - Calls objectManager.resetAllTurnMovement()
-   * - Draws new tile from deck
+   * - Fills the hand from the deck
    * - Clears selectedPlot
    * - Sets turnOwner to Player
    * - Sets playerPhase to AwaitingAction
@@ -153,11 +297,9 @@ export class TurnManager {
     if (this.useStatePattern) {
       this.objectManager.resetAllTurnMovement();
 
-      // Only draw a new tile if we don't have one
-      // (First turn or after tile was somehow consumed without replacement)
-      if (!this.state.currentTile) {
-        this.state.currentTile = this.deck.draw();
-      }
+      // Only draw tiles the hand is missing
+      // (First turn or after tiles were somehow consumed without replacement)
+      fillHand(this.state, this.deck);
 
       this.state.selectedPlot = null;
 
@@ -172,10 +314,8 @@ export class TurnManager {
       // Legacy implementation
       this.objectManager.resetAllTurnMovement();
 
-      // Only draw a new tile if we don't have one
-      if (!this.state.currentTile) {
-        this.state.currentTile = this.deck.draw();
-      }
+      // Only draw tiles the hand is missing
+      fillHand(this.state, this.deck);
 
       this.state.selectedPlot = null;
       this.state.turnOwner = TurnOwner.Player;
@@ -195,6 +335,9 @@ export class TurnManager {
    * - Calls onStateChange() to trigger render
    */
   startEnemyTurn(): void {
+    // A hint only holds until the player acts
+    this.state.hint = null;
+
     if (this.useStatePattern) {
       const oldState = this.currentTurnState;
       this.currentTurnState = oldState.startEnemyTurn(this.stateContext);
@@ -209,6 +352,50 @@ export class TurnManager {
     }
   }
 
+  /**
+   * Start the rival's turn
+   *
+   * @remarks
+   * Transitions to RivalTurnState. The rival's step is planned and played externally
+   * (see planRivalTurn() and takeRivalStep()).
+   *
+   * **Side Effects:**
+   * - Sets turnOwner to Rival
+   * - Calls onStateChange() to trigger render
+   */
+  startRivalTurn(): void {
+    // A hint only holds until the player acts
+    this.state.hint = null;
+
+    if (this.useStatePattern) {
+      const oldState = this.currentTurnState;
+      this.currentTurnState = oldState.startRivalTurn(this.stateContext);
+      if (oldState !== this.currentTurnState) {
+        oldState.onExit(this.stateContext);
+        this.currentTurnState.onEnter(this.stateContext);
+      }
+    } else {
+      // Legacy implementation
+      this.state.turnOwner = TurnOwner.Rival;
+      this.onStateChange();
+    }
+  }
+
+  /**
+   * Picks the rival's step for this turn (see Rival.planTurn())
+   * Returns null if there is no rival or it has nothing to do
+   */
+  planRivalTurn(): PlanStep | null {
+    return this.getRival()?.planTurn(this.state, this.objectManager) ?? null;
+  }
+
+  /**
+   * Applies the rival's step to the game state (see Rival.takeStep())
+   */
+  takeRivalStep(step: PlanStep): void {
+    this.getRival()?.takeStep(this.state, this.objectManager, step);
+  }
+
   // === State Queries ===
 
   isPlayerTurn(): boolean {
@@ -225,6 +412,13 @@ export class TurnManager {
     return this.state.turnOwner === TurnOwner.Enemy;
   }
 
+  isRivalTurn(): boolean {
+    if (this.useStatePattern) {
+      return this.currentTurnState.isRivalTurn();
+    }
+    return this.state.turnOwner === TurnOwner.Rival;
+  }
+
   isAwaitingAction(): boolean {
     return this.isPlayerTurn() && this.state.playerPhase === PlayerPhase.AwaitingAction;
   }
@@ -297,6 +491,45 @@ export class TurnManager {
     }
   }
 
+  /**
+   * Makes the hand tile at the given index the active tile
+   */
+  selectHandTile(index: number): void {
+    if (this.useStatePattern) {
+      if (this.currentTurnState instanceof PlayerTurnState) {
+        this.currentTurnState.selectHandTile(this.stateContext, index);
+      }
+    } else {
+      // Legacy implementation
+      if (this.isPlayerTurn() && selectHandTile(this.state, index)) {
+        this.onStateChange();
+      }
+    }
+  }
+
+  /**
+   * Swaps the active tile with the hold slot
+   */
+  holdTile(): void {
+    if (this.useStatePattern) {
+      if (this.currentTurnState instanceof PlayerTurnState) {
+        this.currentTurnState.holdTile(this.stateContext);
+      }
+    } else {
+      // Legacy implementation
+      if (this.isPlayerTurn() && holdTile(this.state, this.deck)) {
+        this.onStateChange();
+      }
+    }
+  }
+
+  /**
+   * Returns the next tiles the hand will draw, without drawing them
+   */
+  getUpcomingTiles(count: number): TileInstance[] {
+    return this.deck.peekMany(count);
+  }
+
   rotateTileCounterClockwise(): void {
     // Note: State pattern uses rotateTile() for clockwise rotation only
     // This method remains legacy-only for now
@@ -319,7 +552,7 @@ export class TurnManager {
       // Legacy implementation
       if (!this.state.currentTile || !this.state.selectedPlot) return;
 
-      this.objectManager.handlePush(this.state.selectedPlot);
+      this.objectManager.handlePush(this.state.selectedPlot, this.state.grid);
 
       const { newGrid, ejectedTile } = pushTileIntoGrid(
         this.state.grid,
@@ -327,17 +560,77 @@ export class TurnManager {
         this.state.currentTile
       );
 
-      this.deck.discard(ejectedTile);
       this.state.grid = newGrid;
+      this.state.lastPushedPlot = this.state.selectedPlot;
       this.state.selectedPlot = null;
       this.state.playerPhase = PlayerPhase.AwaitingAction;
 
-      // Auto-draw new tile for continuous placement
-      this.state.currentTile = this.deck.draw();
+      // Auto-draw new tile for continuous placement (or keep the ejected one)
+      // A push that fills a pit ejects nothing, so the next hand tile is used
+      if (RULES.EJECTED_TILE_BECOMES_CURRENT && ejectedTile) {
+        this.state.currentTile = ejectedTile;
+      } else {
+        if (ejectedTile) this.deck.discard(ejectedTile);
+        advanceHand(this.state, this.deck);
+      }
       this.onStateChange();
     }
   }
 
+  /**
+   * Simulates pushing the tile in hand into the selected plot
+   * Returns null if no plot is selected or there is no tile in hand
+   */
+  getPushPreview(): PushPreview | null {
+    if (!this.state.selectedPlot || !this.state.currentTile) {
+      return null;
+    }
+    return simulatePush(this.state, this.objectManager, this.state.selectedPlot, this.state.currentTile);
+  }
+
+  /**
+   * Plans the player's shortest route to the exit, or to a chosen grid cell
+   * The tiles in hand and the next ones in the deck are pushed in the order they would be drawn.
+   * Returns null if there is no player or no route within PLANNER's limits
+   */
+  planPlayerRoute(goal?: GridPosition): RoutePlan | null {
+    const player = this.objectManager.getPlayer();
+    const exit = this.objectManager.getExit();
+    const target: RouteGoal | null = goal
+      ? { position: goal, shifts: false }
+      : exit ? { position: exit.gridPosition, shifts: true } : null;
+    if (!player || !target) {
+      return null;
+    }
+
+    const tiles = [this.state.currentTile, ...this.state.hand, ...this.deck.peekMany(PLANNER.MAX_PUSHES)]
+      .filter((tile): tile is TileInstance => tile !== null);
+    return planRoute(this.state.grid, player, target, tiles, this.state.lastPushedPlot);
+  }
+
+  /**
+   * Shows the player's route as a hint until they act
+   * A hint costs one of HINT.MAX_USES per level and rolls DECAY_PROFILES.Hint, nothing is
+   * paid if no route was found.
+   * @returns The route, or null if the player is out of hints or there is no route
+   */
+  useHint(goal?: GridPosition): RoutePlan | null {
+    if (!this.isPlayerTurn() || this.state.hintsUsed >= HINT.MAX_USES) {
+      return null;
+    }
+
+    const plan = this.planPlayerRoute(goal);
+    if (!plan) {
+      return null;
+    }
+
+    this.state.hintsUsed++;
+    this.state.hint = plan;
+    applyDecay(this.state, { action: DecayAction.Hint, at: [] }, this.objectManager);
+    this.onStateChange();
+    return plan;
+  }
+
   isSelectedPlot(plot: PlotPosition): boolean {
     return (
       this.state.selectedPlot !== null &&
@@ -390,11 +683,22 @@ export class TurnManager {
       if (this.currentTurnState instanceof PlayerTurnState) {
         this.currentTurnState.completeMove(this.stateContext);
       }
-      // Then transition to enemy turn
-      this.startEnemyTurn();
+      // Then transition to the rival's turn, or straight to the enemy turn
+      this.startNextTurn();
     } else {
       // Legacy implementation
       this.state.playerPhase = PlayerPhase.AwaitingAction;
+      this.startNextTurn();
+    }
+  }
+
+  /**
+   * Hands the turn on after the player's: to the rival if the level has one, else to the enemies
+   */
+  private startNextTurn(): void {
+    if (this.getRival()) {
+      this.startRivalTurn();
+    } else {
       this.startEnemyTurn();
     }
   }
@@ -461,6 +765,7 @@ export class TurnManager {
         ...tile,
         orientation: rotateTile(tile.orientation),
       };
+      updateConnectivity(this.state.grid, [{ row, col }]);
       this.onStateChange();
     }
   }
@@ -497,6 +802,7 @@ export class TurnManager {
         ...this.state.grid[row][col],
         orientation: this.state.originalTileOrientation,
       };
+      updateConnectivity(this.state.grid, [{ row, col }]);
 
       this.state.rotatingTilePosition = null;
       this.state.originalTileOrientation = null;
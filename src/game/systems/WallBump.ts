@@ -1,8 +1,12 @@
 import { type TileInstance, type GridPosition, type Orientation, Direction, TileType } from "../types";
-import { getTileEdges } from "../core/Tile";
+import { getTileEdges, isSpecialTile } from "../core/Tile";
+import { getConnectivity, updateConnectivity } from "../core/Connectivity";
+import { isPit, isVoid } from "../core/Grid";
+import { isBlockedByFeature } from "./SurfaceFeatures";
 
 /**
  * Checks if a move from one position to another is blocked by a wall
+ * Rubble counts as a wall too (it's cleared by bumping into it, see clearRubble())
  */
 export function isWallBlocking(
   grid: TileInstance[][],
@@ -29,29 +33,13 @@ export function isWallBlocking(
   const fromTile = grid[from.row][from.col];
   const toTile = grid[to.row][to.col];
 
-  if (!fromTile || !toTile) {
+  // A void cell is the edge of the grid, there's no wall to bump into
+  if (!fromTile || !toTile || isVoid(toTile)) {
     return false;
   }
 
-  const fromEdges = getTileEdges(fromTile.type, fromTile.orientation);
-  const toEdges = getTileEdges(toTile.type, toTile.orientation);
-
-  // Check if there's a wall (no opening on both sides)
-  if (dRow === -1 && dCol === 0) {
-    // Moving north
-    return !fromEdges.north || !toEdges.south;
-  } else if (dRow === 1 && dCol === 0) {
-    // Moving south
-    return !fromEdges.south || !toEdges.north;
-  } else if (dRow === 0 && dCol === -1) {
-    // Moving west
-    return !fromEdges.west || !toEdges.east;
-  } else if (dRow === 0 && dCol === 1) {
-    // Moving east
-    return !fromEdges.east || !toEdges.west;
-  }
-
-  return false;
+  // A wall is a missing opening on either side, a one-way gate seen from its exit or a locked door
+  return !getConnectivity(grid).canStep(from, getWallDirection(from, to)!) || isBlockedByFeature(toTile);
 }
 
 /**
@@ -137,6 +125,15 @@ export function openWall(
 
   if (!fromTile || !toTile) return false;
 
+  // Fixed tiles cannot be broken through, and a pit has no walls left to break
+  if (fromTile.fixed || toTile.fixed || isPit(fromTile) || isPit(toTile)) return false;
+
+  // There's nothing behind the wall of a void cell
+  if (isVoid(fromTile) || isVoid(toTile)) return false;
+
+  // Gates, bridges and doors are built to last (doors open with a key, see unlockDoor())
+  if (isSpecialTile(fromTile.type) || isSpecialTile(toTile.type)) return false;
+
   // Calculate opposite direction for the "to" tile
   const oppositeDir = ((wallDir + 2) % 4) as Direction;
 
@@ -148,17 +145,40 @@ export function openWall(
     return false;
   }
 
-  // Update grid with new tile types and orientations, preserving decay
+  // Update grid with new tile types and orientations, preserving decay and surface features
   grid[from.row][from.col] = {
+    ...fromTile,
     type: fromUpgrade.type,
     orientation: fromUpgrade.orientation,
-    decay: fromTile.decay,
   };
   grid[to.row][to.col] = {
+    ...toTile,
     type: toUpgrade.type,
     orientation: toUpgrade.orientation,
-    decay: toTile.decay,
   };
+  updateConnectivity(grid, [from, to]);
+
+  return true;
+}
+
+/**
+ * Unlocks a locked door next to a position, turning it into a Straight that opens towards it
+ * Modifies the grid in place (decay and fixed are kept)
+ * @returns false if there's no locked door at `to`
+ */
+export function unlockDoor(
+  grid: TileInstance[][],
+  from: GridPosition,
+  to: GridPosition
+): boolean {
+  const wallDir = getWallDirection(from, to);
+  const door = grid[to.row]?.[to.col];
+
+  if (wallDir === null || !door || door.type !== TileType.LockedDoor) return false;
+
+  door.type = TileType.Straight;
+  door.orientation = (wallDir % 2) as Orientation;  // Straight is N-S at 0, E-W at 1
+  updateConnectivity(grid, [to]);
 
   return true;
 }
@@ -12,7 +12,7 @@ import { AwaitingActionState } from "./phases/AwaitingActionState";
  * is called by the game loop after entering this state.
  *
  * **Lifecycle:**
- * - Entered from: PlayerTurnState via startEnemyTurn() (after player completes move)
+ * - Entered from: PlayerTurnState or RivalTurnState via startEnemyTurn() (after player completes move)
  * - Exits to: PlayerTurnState via startPlayerTurn() (after all enemies move)
  *
  * **Responsibilities:**
@@ -95,6 +95,15 @@ export class EnemyTurnState implements TurnState {
     return true;
   }
 
+  /**
+   * Check if this is the rival's turn
+   *
+   * @returns Always false for EnemyTurnState
+   */
+  isRivalTurn(): boolean {
+    return false;
+  }
+
   /**
    * Transition to player turn
    *
@@ -131,4 +140,14 @@ export class EnemyTurnState implements TurnState {
   startEnemyTurn(_context: StateContext): TurnState {
     return this;
   }
+
+  /**
+   * Transition to the rival's turn (no-op, the rival played before the enemies)
+   *
+   * @param _context - State context (unused)
+   * @returns this (stays in enemy turn)
+   */
+  startRivalTurn(_context: StateContext): TurnState {
+    return this;
+  }
 }
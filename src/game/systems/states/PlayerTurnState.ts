@@ -2,6 +2,7 @@ import type { TurnState, PlayerPhaseState, StateContext } from "./interfaces";
 import type { PlotPosition } from "../../types";
 import { TurnOwner } from "../../types";
 import { EnemyTurnState } from "./EnemyTurnState";
+import { RivalTurnState } from "./RivalTurnState";
 import { AwaitingActionState } from "./phases/AwaitingActionState";
 
 /**
@@ -14,7 +15,7 @@ import { AwaitingActionState } from "./phases/AwaitingActionState";
  *
  * **Lifecycle:**
  * - Entered from: EnemyTurnState via startPlayerTurn()
- * - Exits to: EnemyTurnState via startEnemyTurn()
+ * - Exits to: EnemyTurnState via startEnemyTurn(), or RivalTurnState via startRivalTurn()
  *
  * **Current Phase Management:**
  * - Maintains reference to current PlayerPhaseState
@@ -138,6 +139,15 @@ export class PlayerTurnState implements TurnState {
     return false;
   }
 
+  /**
+   * Check if this is the rival's turn
+   *
+   * @returns Always false for PlayerTurnState
+   */
+  isRivalTurn(): boolean {
+    return false;
+  }
+
   /**
    * Transition to player turn (creates fresh turn)
    *
@@ -170,6 +180,19 @@ export class PlayerTurnState implements TurnState {
     return new EnemyTurnState();
   }
 
+  /**
+   * Transition to the rival's turn
+   *
+   * @param _context - State context (unused for transition)
+   * @returns New RivalTurnState instance
+   *
+   * @remarks
+   * Called after the player's action on levels with a rival, which plays before the enemies.
+   */
+  startRivalTurn(_context: StateContext): TurnState {
+    return new RivalTurnState();
+  }
+
   /**
    * Transition to a new player phase
    *
@@ -252,6 +275,31 @@ export class PlayerTurnState implements TurnState {
     this._currentPhase.rotateTile(context);
   }
 
+  /**
+   * Delegate: Make a hand tile the active tile
+   *
+   * @param context - State context with dependencies
+   * @param index - Index into `context.state.hand`
+   *
+   * @remarks
+   * Delegates to current phase (no phase transition for choosing a tile).
+   */
+  selectHandTile(context: StateContext, index: number): void {
+    this._currentPhase.selectHandTile(context, index);
+  }
+
+  /**
+   * Delegate: Swap the active tile with the hold slot
+   *
+   * @param context - State context with dependencies
+   *
+   * @remarks
+   * Delegates to current phase (no phase transition for holding a tile).
+   */
+  holdTile(context: StateContext): void {
+    this._currentPhase.holdTile(context);
+  }
+
   /**
    * Delegate: Execute the tile push into the grid
    *
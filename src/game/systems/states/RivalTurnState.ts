@@ -0,0 +1,125 @@
+import type { TurnState, StateContext } from "./interfaces";
+import { TurnOwner } from "../../types";
+import { PlayerTurnState } from "./PlayerTurnState";
+import { EnemyTurnState } from "./EnemyTurnState";
+import { AwaitingActionState } from "./phases/AwaitingActionState";
+
+/**
+ * RivalTurnState - Represents the rival mason's turn (no player input)
+ *
+ * @description
+ * Simple state that marks turnOwner as Rival. The rival's push, rotation or
+ * move is planned and played externally (see Rival and executeRivalTurn()),
+ * like the enemies' moves are for EnemyTurnState.
+ *
+ * **Lifecycle:**
+ * - Entered from: PlayerTurnState via startRivalTurn() (after the player's action)
+ * - Exits to: EnemyTurnState via startEnemyTurn() (after the rival's action)
+ *
+ * **Responsibilities:**
+ * - Set turnOwner flag to Rival
+ * - Trigger render with the rival turn UI
+ * - Provide transition on to the enemy turn
+ *
+ * **State-Specific Data:**
+ * - None (completely stateless)
+ *
+ * **Valid Transitions:**
+ * - startEnemyTurn() → EnemyTurnState (after the rival's action)
+ * - startPlayerTurn() → PlayerTurnState (if the enemy turn is skipped)
+ *
+ * @example
+ * ```typescript
+ * const rivalTurn = new RivalTurnState();
+ * rivalTurn.onEnter(context);
+ * // Rival plays externally...
+ * const enemyTurn = rivalTurn.startEnemyTurn(context);
+ * ```
+ */
+export class RivalTurnState implements TurnState {
+  readonly name = "RivalTurn";
+
+  /**
+   * Called when entering the rival's turn
+   *
+   * @param context - State context with dependencies
+   *
+   * @remarks
+   * **Side Effects:**
+   * - Sets `context.state.turnOwner = TurnOwner.Rival`
+   * - Calls `context.onStateChange()` to trigger render
+   */
+  onEnter(context: StateContext): void {
+    context.state.turnOwner = TurnOwner.Rival;
+    context.onStateChange();
+  }
+
+  /**
+   * Called when exiting the rival's turn
+   *
+   * @param _context - State context (unused)
+   *
+   * @remarks
+   * No cleanup needed for the rival's turn.
+   */
+  onExit(_context: StateContext): void {
+    // No cleanup needed
+  }
+
+  /**
+   * Check if this is a player turn
+   *
+   * @returns Always false for RivalTurnState
+   */
+  isPlayerTurn(): boolean {
+    return false;
+  }
+
+  /**
+   * Check if this is an enemy turn
+   *
+   * @returns Always false for RivalTurnState
+   */
+  isEnemyTurn(): boolean {
+    return false;
+  }
+
+  /**
+   * Check if this is the rival's turn
+   *
+   * @returns Always true for RivalTurnState
+   */
+  isRivalTurn(): boolean {
+    return true;
+  }
+
+  /**
+   * Transition to player turn
+   *
+   * @param _context - State context (unused for transition)
+   * @returns New PlayerTurnState instance with AwaitingActionState
+   */
+  startPlayerTurn(_context: StateContext): TurnState {
+    return new PlayerTurnState(new AwaitingActionState());
+  }
+
+  /**
+   * Transition to enemy turn
+   *
+   * @param _context - State context (unused for transition)
+   * @returns New EnemyTurnState instance
+   */
+  startEnemyTurn(_context: StateContext): TurnState {
+    return new EnemyTurnState();
+  }
+
+  /**
+   * Transition to the rival's turn (no-op, already in the rival's turn)
+   *
+   * @param _context - State context (unused)
+   * @returns this (stays in the rival's turn)
+   */
+  startRivalTurn(_context: StateContext): TurnState {
+    return this;
+  }
+}
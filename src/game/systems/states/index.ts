@@ -9,6 +9,7 @@
  *
  * **Level 1: Turn Ownership (TurnState)**
  * - PlayerTurnState: Manages player turn and delegates to PlayerPhaseState
+ * - RivalTurnState: Simple state for the rival mason's turn
  * - EnemyTurnState: Simple state for enemy turn
  *
  * **Level 2: Player Phases (PlayerPhaseState)**
@@ -40,6 +41,7 @@
  * @see {@link interfaces.ts} for core interfaces (StateContext, TurnState, PlayerPhaseState)
  * @see {@link PlayerTurnState} for player turn coordinator
  * @see {@link EnemyTurnState} for enemy turn state
+ * @see {@link RivalTurnState} for rival turn state
  */
 
 // Core interfaces
@@ -48,6 +50,7 @@ export type { StateContext, TurnState, PlayerPhaseState } from "./interfaces";
 // Turn states
 export { PlayerTurnState } from "./PlayerTurnState";
 export { EnemyTurnState } from "./EnemyTurnState";
+export { RivalTurnState } from "./RivalTurnState";
 
 // Player phase states
 export { AwaitingActionState } from "./phases/AwaitingActionState";
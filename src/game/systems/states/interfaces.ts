@@ -47,9 +47,10 @@ export interface StateContext {
  * TurnState - Interface for top-level turn ownership states
  *
  * @description
- * Represents who owns the current turn (Player or Enemy). This is the top level
+ * Represents who owns the current turn (Player, Rival or Enemy). This is the top level
  * of the two-level state hierarchy. Implementations:
  * - PlayerTurnState: Manages player turn and delegates to PlayerPhaseState
+ * - RivalTurnState: Simple state for the rival mason's turn
  * - EnemyTurnState: Simple state for enemy turn
  *
  * **Lifecycle:**
@@ -58,7 +59,7 @@ export interface StateContext {
  *
  * **State Transitions:**
  * ```
- * PlayerTurnState ⟷ EnemyTurnState
+ * PlayerTurnState → RivalTurnState (if the level has a rival) → EnemyTurnState → PlayerTurnState
  * ```
  *
  * **Responsibilities:**
@@ -82,6 +83,7 @@ export interface StateContext {
  *
  *   isPlayerTurn(): boolean { return true; }
  *   isEnemyTurn(): boolean { return false; }
+ *   isRivalTurn(): boolean { return false; }
  *
  *   startEnemyTurn(context: StateContext): TurnState {
  *     return new EnemyTurnState();
@@ -134,6 +136,13 @@ export interface TurnState {
    */
   isEnemyTurn(): boolean;
 
+  /**
+   * Check if this is the rival's turn
+   *
+   * @returns true if this is RivalTurnState
+   */
+  isRivalTurn(): boolean;
+
   /**
    * Transition to player turn
    *
@@ -156,6 +165,17 @@ export interface TurnState {
    * Called after player completes their move to yield turn to enemies.
    */
   startEnemyTurn(context: StateContext): TurnState;
+
+  /**
+   * Transition to the rival's turn
+   *
+   * @param context - State context with dependencies
+   * @returns New RivalTurnState instance
+   *
+   * @remarks
+   * Called after the player's action on levels with a rival, before the enemies move.
+   */
+  startRivalTurn(context: StateContext): TurnState;
 }
 
 /**
@@ -310,6 +330,46 @@ export interface PlayerPhaseState {
    */
   rotateTile(context: StateContext): void;
 
+  /**
+   * Make a tile from the hand the active tile
+   *
+   * @param context - State context with dependencies
+   * @param index - Index into `context.state.hand`
+   *
+   * @remarks
+   * Swaps `context.state.currentTile` with `context.state.hand[index]`.
+   * Choosing a tile does not end the turn.
+   *
+   * **Side Effects:**
+   * - Updates `context.state.currentTile` and `context.state.hand`
+   * - Calls `context.onStateChange()`
+   *
+   * **Default Implementation:**
+   * TilePlacementState and AwaitingActionState handle this.
+   * Other states do nothing (no-op).
+   */
+  selectHandTile(context: StateContext, index: number): void;
+
+  /**
+   * Swap the active tile with the hold slot
+   *
+   * @param context - State context with dependencies
+   *
+   * @remarks
+   * If the hold slot is empty, the active tile is saved and the next hand tile
+   * becomes active (the hand is refilled from the deck).
+   *
+   * **Side Effects:**
+   * - Updates `context.state.currentTile`, `context.state.heldTile` and `context.state.hand`
+   * - May draw from `context.deck`
+   * - Calls `context.onStateChange()`
+   *
+   * **Default Implementation:**
+   * TilePlacementState and AwaitingActionState handle this.
+   * Other states do nothing (no-op).
+   */
+  holdTile(context: StateContext): void;
+
   /**
    * Execute the tile push into the grid
    *
@@ -324,7 +384,7 @@ export interface PlayerPhaseState {
    * - Calls `objectManager.handlePush()` to move objects
    * - Updates grid via `pushTileIntoGrid()`
    * - Discards ejected tile to deck
-   * - Auto-draws new tile into `context.state.currentTile`
+   * - Makes the next hand tile `context.state.currentTile` and refills the hand
    * - Clears `context.state.selectedPlot`
    * - Calls `context.onStateChange()`
    *
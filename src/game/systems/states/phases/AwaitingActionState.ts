@@ -2,6 +2,8 @@ import type { PlayerPhaseState, StateContext } from "../interfaces";
 import type { PlotPosition } from "../../../types";
 import { PlayerPhase } from "../../../types";
 import { rotateTile } from "../../../core/Tile";
+import { isPit } from "../../../core/Grid";
+import { selectHandTile, holdTile } from "../../Hand";
 import { TilePlacementState } from "./TilePlacementState";
 import { RotatingTileState } from "./RotatingTileState";
 
@@ -23,6 +25,7 @@ import { RotatingTileState } from "./RotatingTileState";
  * - Show player stats
  * - Wait for player input
  * - Allow tile rotation in hand
+ * - Allow choosing the active hand tile and using the hold slot
  * - Provide transitions to other phases
  *
  * **State-Specific Data:**
@@ -151,6 +154,44 @@ export class AwaitingActionState implements PlayerPhaseState {
     context.onStateChange();
   }
 
+  /**
+   * Make a hand tile the active tile
+   *
+   * @param context - State context with dependencies
+   * @param index - Index into `context.state.hand`
+   *
+   * @remarks
+   * Stays in AwaitingAction after the swap.
+   *
+   * **Side Effects:**
+   * - Swaps `context.state.currentTile` with `context.state.hand[index]`
+   * - Calls `context.onStateChange()`
+   */
+  selectHandTile(context: StateContext, index: number): void {
+    if (selectHandTile(context.state, index)) {
+      context.onStateChange();
+    }
+  }
+
+  /**
+   * Swap the active tile with the hold slot
+   *
+   * @param context - State context with dependencies
+   *
+   * @remarks
+   * Stays in AwaitingAction after the swap.
+   *
+   * **Side Effects:**
+   * - Updates `context.state.currentTile`, `context.state.heldTile` and `context.state.hand`
+   * - May draw from `context.deck` to refill the hand
+   * - Calls `context.onStateChange()`
+   */
+  holdTile(context: StateContext): void {
+    if (holdTile(context.state, context.deck)) {
+      context.onStateChange();
+    }
+  }
+
   /**
    * Execute push (no-op in AwaitingAction)
    *
@@ -223,6 +264,7 @@ export class AwaitingActionState implements PlayerPhaseState {
    *
    * **Preconditions:**
    * - Player must exist (objectManager.getPlayer() returns player)
+   * - Player's tile must not be fixed or a pit
    *
    * **Side Effects:**
    * - None (RotatingTileState.onEnter handles state changes)
@@ -233,6 +275,13 @@ export class AwaitingActionState implements PlayerPhaseState {
       return null;
     }
 
+    // Fixed tiles can't rotate, and a pit (under a flying player) has nothing to rotate
+    const { row, col } = player.gridPosition;
+    const tile = context.state.grid[row][col];
+    if (tile?.fixed || isPit(tile)) {
+      return null;
+    }
+
     return new RotatingTileState(player.gridPosition);
   }
 
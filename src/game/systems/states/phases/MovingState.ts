@@ -115,6 +115,26 @@ export class MovingState implements PlayerPhaseState {
     // Cannot rotate while moving
   }
 
+  /**
+   * Select hand tile (no-op in Moving)
+   *
+   * @remarks
+   * Cannot change tiles while moving.
+   */
+  selectHandTile(_context: StateContext, _index: number): void {
+    // Cannot change tiles while moving
+  }
+
+  /**
+   * Hold tile (no-op in Moving)
+   *
+   * @remarks
+   * Cannot change tiles while moving.
+   */
+  holdTile(_context: StateContext): void {
+    // Cannot change tiles while moving
+  }
+
   /**
    * Execute push (no-op in Moving)
    *
@@ -1,10 +1,10 @@
 import type { PlayerPhaseState, StateContext } from "../interfaces";
 import type { PlotPosition, GridPosition } from "../../../types";
-import { PlayerPhase } from "../../../types";
+import { PlayerPhase, DecayAction } from "../../../types";
 import { rotateTile } from "../../../core/Tile";
-import { applyRandomDecayToTile } from "../../../core/Grid";
+import { updateConnectivity } from "../../../core/Connectivity";
+import { applyDecay } from "../../DecayEngine";
 import { AwaitingActionState } from "./AwaitingActionState";
-import { DECAY_PROGRESSION, GRID_ROWS, GRID_COLS } from "../../../config";
 
 /**
  * RotatingTileState - Handles rotation of tile at player's position
@@ -160,6 +160,26 @@ export class RotatingTileState implements PlayerPhaseState {
     // In rotation mode, rotate grid tile not tile in hand
   }
 
+  /**
+   * Select hand tile (no-op in RotatingTile)
+   *
+   * @remarks
+   * In rotation mode, the hand is not used.
+   */
+  selectHandTile(_context: StateContext, _index: number): void {
+    // In rotation mode, the hand is not used
+  }
+
+  /**
+   * Hold tile (no-op in RotatingTile)
+   *
+   * @remarks
+   * In rotation mode, the hand is not used.
+   */
+  holdTile(_context: StateContext): void {
+    // In rotation mode, the hand is not used
+  }
+
   /**
    * Execute push (no-op in RotatingTile)
    *
@@ -247,6 +267,7 @@ export class RotatingTileState implements PlayerPhaseState {
       ...tile,
       orientation: rotateTile(tile.orientation),
     };
+    updateConnectivity(context.state.grid, [{ row, col }]);
 
     context.onStateChange();
   }
@@ -261,6 +282,7 @@ export class RotatingTileState implements PlayerPhaseState {
    * Keeps the rotation that was applied and exits rotation mode.
    *
    * **Side Effects:**
+   * - Rolls rotation decay via `applyDecay()` (queued in `context.state.decayEvents`)
    * - Calls `context.onStateChange()` (via onExit and AwaitingAction.onEnter)
    *
    * **Note:**
@@ -271,29 +293,12 @@ export class RotatingTileState implements PlayerPhaseState {
       return new AwaitingActionState();
     }
 
-    const { row, col } = context.state.rotatingTilePosition;
-
-    // Apply decay to all surrounding tiles (north, south, east, west)
-    // Each gets a random decay increase from 0 to ON_TILE_ROTATION
-    const neighbors = [
-      { row: row - 1, col }, // North
-      { row: row + 1, col }, // South
-      { row, col: col + 1 }, // East
-      { row, col: col - 1 }, // West
-    ];
-
-    for (const neighbor of neighbors) {
-      // Check if neighbor is within grid bounds
-      if (neighbor.row >= 0 && neighbor.row < GRID_ROWS && neighbor.col >= 0 && neighbor.col < GRID_COLS) {
-        applyRandomDecayToTile(
-          context.state.grid,
-          neighbor.row,
-          neighbor.col,
-          DECAY_PROGRESSION.ON_TILE_ROTATION,
-          context.objectManager
-        );
-      }
-    }
+    // Roll rotation decay for the rotated tile and its neighbours
+    // (the rotated tile itself is least likely to decay)
+    applyDecay(context.state, {
+      action: DecayAction.Rotate,
+      at: [context.state.rotatingTilePosition],
+    }, context.objectManager);
 
     context.onStateChange();
 
@@ -331,6 +336,7 @@ export class RotatingTileState implements PlayerPhaseState {
       ...context.state.grid[row][col],
       orientation: context.state.originalTileOrientation,
     };
+    updateConnectivity(context.state.grid, [{ row, col }]);
 
     context.onStateChange();
 
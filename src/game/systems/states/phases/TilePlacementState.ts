@@ -1,10 +1,12 @@
 import type { PlayerPhaseState, StateContext } from "../interfaces";
 import type { PlotPosition } from "../../../types";
-import { PlayerPhase } from "../../../types";
+import { PlayerPhase, DecayAction } from "../../../types";
 import { rotateTile } from "../../../core/Tile";
-import { pushTileIntoGrid, increaseDecayInPushedLine } from "../../../core/Grid";
+import { pushTileIntoGrid, isReversePush, getGridSize, getPushedTilePosition } from "../../../core/Grid";
+import { applyDecay } from "../../DecayEngine";
 import { AwaitingActionState } from "./AwaitingActionState";
-import { DECAY_PROGRESSION } from "../../../config";
+import { RULES } from "../../../config";
+import { selectHandTile, holdTile, advanceHand } from "../../Hand";
 
 /**
  * TilePlacementState - Handles tile placement/push operations
@@ -13,6 +15,7 @@ import { DECAY_PROGRESSION } from "../../../config";
  * Active when player is placing a tile into the grid. Manages:
  * - Plot selection
  * - Tile rotation (currentTile only, not grid tiles)
+ * - Choosing the active hand tile and using the hold slot
  * - Push execution
  * - Auto-draw new tile after push
  *
@@ -29,7 +32,8 @@ import { DECAY_PROGRESSION } from "../../../config";
  *
  * **State-Specific Data:**
  * - Uses `state.selectedPlot` to track which plot is selected
- * - Uses `state.currentTile` for tile being placed
+ * - Uses `state.currentTile` for tile being placed (the active hand tile)
+ * - Uses `state.hand` and `state.heldTile` for the other tiles the player can swap in
  *
  * **Interaction Flow:**
  * 1. Player clicks plot → selectedPlot set, preview shown
@@ -119,6 +123,7 @@ export class TilePlacementState implements PlayerPhaseState {
    * - First click: Store plot in `context.state.selectedPlot`, return null
    * - Second click on same plot: Execute push, return AwaitingActionState
    * - Click on different plot: Update selection, return null
+   * - Click on a plot that would undo the last push (RULES.FORBID_REVERSE_PUSH): ignored, return null
    *
    * **Side Effects:**
    * - Updates `context.state.selectedPlot`
@@ -126,6 +131,10 @@ export class TilePlacementState implements PlayerPhaseState {
    * - Calls `context.onStateChange()`
    */
   selectPlot(context: StateContext, plot: PlotPosition): PlayerPhaseState | null {
+    if (isReversePush(context.state.grid, plot, context.state.lastPushedPlot)) {
+      return null;
+    }
+
     // If this is the selected plot, execute push
     if (
       context.state.selectedPlot &&
@@ -170,6 +179,44 @@ export class TilePlacementState implements PlayerPhaseState {
     context.onStateChange();
   }
 
+  /**
+   * Make a hand tile the active tile
+   *
+   * @param context - State context with dependencies
+   * @param index - Index into `context.state.hand`
+   *
+   * @remarks
+   * Stays in TilePlacement after the swap.
+   *
+   * **Side Effects:**
+   * - Swaps `context.state.currentTile` with `context.state.hand[index]`
+   * - Calls `context.onStateChange()`
+   */
+  selectHandTile(context: StateContext, index: number): void {
+    if (selectHandTile(context.state, index)) {
+      context.onStateChange();
+    }
+  }
+
+  /**
+   * Swap the active tile with the hold slot
+   *
+   * @param context - State context with dependencies
+   *
+   * @remarks
+   * Stays in TilePlacement after the swap.
+   *
+   * **Side Effects:**
+   * - Updates `context.state.currentTile`, `context.state.heldTile` and `context.state.hand`
+   * - May draw from `context.deck` to refill the hand
+   * - Calls `context.onStateChange()`
+   */
+  holdTile(context: StateContext): void {
+    if (holdTile(context.state, context.deck)) {
+      context.onStateChange();
+    }
+  }
+
   /**
    * Execute the tile push into the grid
    *
@@ -181,10 +228,14 @@ export class TilePlacementState implements PlayerPhaseState {
    * Auto-draws a new tile after successful push.
    *
    * **Side Effects:**
-   * - Calls `objectManager.handlePush()` to move objects
-   * - Updates grid via `pushTileIntoGrid()`
-   * - Discards ejected tile to deck
-   * - Auto-draws new tile into `context.state.currentTile`
+   * - Calls `objectManager.handlePush()` to move objects (grounded objects pushed into a pit
+   *   are destroyed, except the player)
+   * - Updates grid via `pushTileIntoGrid()` (a pit in the line stops the push and gets filled)
+   * - Rolls push decay via `applyDecay()` (queued in `context.state.decayEvents`)
+   * - Discards ejected tile to deck and makes the next hand tile `context.state.currentTile`
+   *   (refilling the hand from the deck), or keeps the ejected tile as `currentTile`
+   *   if RULES.EJECTED_TILE_BECOMES_CURRENT is on
+   * - Records the plot in `context.state.lastPushedPlot`
    * - Clears `context.state.selectedPlot`
    * - Calls `context.onStateChange()`
    *
@@ -198,7 +249,7 @@ export class TilePlacementState implements PlayerPhaseState {
     }
 
     // Move objects affected by the push
-    context.objectManager.handlePush(context.state.selectedPlot);
+    context.objectManager.handlePush(context.state.selectedPlot, context.state.grid);
 
     // Push tile into grid and get ejected tile
     const { newGrid, ejectedTile } = pushTileIntoGrid(
@@ -207,25 +258,29 @@ export class TilePlacementState implements PlayerPhaseState {
       context.state.currentTile
     );
 
-    // Update grid and discard ejected tile
-    context.deck.discard(ejectedTile);
+    // Update grid
     context.state.grid = newGrid;
 
-    // Increase decay on all tiles in the pushed row/column (except in boss room)
-    // Each tile gets a random decay increase from 0 to ON_TILE_PLACEMENT
-    if (!context.state.isBossRoom) {
-      increaseDecayInPushedLine(
-        context.state.grid,
-        context.state.selectedPlot,
-        DECAY_PROGRESSION.ON_TILE_PLACEMENT,
-        context.objectManager
-      );
-    }
+    // Roll push decay for the pushed row/column (the pushed-in tile is least likely to decay)
+    const { rows, cols } = getGridSize(context.state.grid);
+    applyDecay(context.state, {
+      action: DecayAction.Push,
+      at: [getPushedTilePosition(context.state.selectedPlot, rows, cols)],
+      plot: context.state.selectedPlot,
+    }, context.objectManager);
 
+    context.state.lastPushedPlot = context.state.selectedPlot;
     context.state.selectedPlot = null;
 
-    // Auto-draw new tile for continuous placement
-    context.state.currentTile = context.deck.draw();
+    // The ejected tile is either recycled into the hand (board game rule) or discarded
+    // in favour of the next hand tile for continuous placement. A push that fills a pit
+    // ejects nothing, so the next hand tile is used.
+    if (RULES.EJECTED_TILE_BECOMES_CURRENT && ejectedTile) {
+      context.state.currentTile = ejectedTile;
+    } else {
+      if (ejectedTile) context.deck.discard(ejectedTile);
+      advanceHand(context.state, context.deck);
+    }
 
     // Trigger render
     context.onStateChange();
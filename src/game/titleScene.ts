@@ -10,6 +10,7 @@ interface MenuItem {
 const menuItems: MenuItem[] = [
   { label: "Start Game", action: "start" },
   { label: "Tutorial", action: "tutorial" },
+  { label: "Level Editor", action: "editor" },
   { label: "Credits", action: "credits" },
 ];
 
@@ -123,6 +124,8 @@ export function createTitleScene(): void {
         k.go("intro");
       } else if (action === "tutorial") {
         k.go("tutorial");
+      } else if (action === "editor") {
+        k.go("editor");
       } else if (action === "credits") {
         k.go("credits");
       }
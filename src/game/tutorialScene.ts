@@ -3,7 +3,7 @@ import { loadAssets, loadEnemyDatabase, enemyDatabase, loadItemDatabase, itemDat
 import { TurnManager } from "./systems/TurnManager";
 import { CursorManager } from "./systems/CursorManager";
 import { TileType, type TileInstance, type Orientation, type GridPosition, PlayerPhase, Direction } from "./types";
-import { TILE_SIZE, GRID_OFFSET_X, GRID_OFFSET_Y, GRID_ROWS, GRID_COLS } from "./config";
+import { TILE_SIZE, GRID_OFFSET_X, GRID_ROWS, GRID_COLS, getGridOffsetY } from "./config";
 import {
   drawGridWithOverlay,
   drawDecayOverlay,
@@ -16,11 +16,12 @@ import {
   drawMapObjects,
   clearMapObjects,
 } from "./render/MapObjectRenderer";
-import { findReachableTiles } from "./systems/Pathfinding";
+import { findReachableTiles, getCostProfile } from "./systems/Pathfinding";
 import { getPlotPositions } from "./core/Grid";
 import type { PlotPosition } from "./types";
 import { screenToGrid } from "./systems/PositionUtils";
-import { isWallBlocking, openWall } from "./systems/WallBump";
+import { isWallBlocking, openWall, getWallDirection } from "./systems/WallBump";
+import { getConnectivity } from "./core/Connectivity";
 import { executeCombat } from "./systems/Combat";
 import { spawnScrollingText } from "./systems/ScrollingCombatText";
 import { equipItemFromInventory, applyEquipmentBonuses } from "./systems/EquipmentManager";
@@ -28,6 +29,9 @@ import { resetGlobalLevel } from "./mainScene";
 
 const TOTAL_PHASES = 8;
 
+// Tutorial grids are always the default size
+const GRID_OFFSET_Y = getGridOffsetY(GRID_ROWS);
+
 interface TutorialPhase {
   instruction: string;
   setupGrid: () => TileInstance[][];
@@ -382,6 +386,7 @@ export function createTutorialScene(): void {
       state.grid = phase.setupGrid();
       state.isInStartLevelSequence = false;
       state.isBossRoom = true; // Disable decay mechanics
+      state.handSize = 1; // The tutorial only teaches the single tile in hand
 
       // Setup objects for this phase
       phase.setupObjects(turnManager);
@@ -513,7 +518,7 @@ export function createTutorialScene(): void {
       // Draw reachable tiles
       if (player && state.playerPhase !== PlayerPhase.TilePlacement) {
         const moves = turnManager.getObjectManager().getAvailableMoves(player);
-        const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], true);
+        const reachable = findReachableTiles(state.grid, player.gridPosition, moves, [], player.flying, getCostProfile(player));
 
         for (const tile of reachable) {
           if (tile.path.length <= 1) continue; // Skip current position
@@ -755,7 +760,7 @@ export function createTutorialScene(): void {
           }
         } else {
           // Plot is selected - check for rotate or push
-          const gridPos = screenToGrid(pos.x, pos.y);
+          const gridPos = screenToGrid(pos.x, pos.y, state.grid);
 
           // Check if clicking on the current tile at the plot (to rotate)
           const currentTileObjs = k.get("currentTile");
@@ -821,7 +826,7 @@ export function createTutorialScene(): void {
 
       // Handle rotation mode
       if (state.playerPhase === PlayerPhase.RotatingTile) {
-        const gridPos = screenToGrid(pos.x, pos.y);
+        const gridPos = screenToGrid(pos.x, pos.y, state.grid);
         if (gridPos && player &&
             gridPos.row === player.gridPosition.row &&
             gridPos.col === player.gridPosition.col) {
@@ -838,7 +843,7 @@ export function createTutorialScene(): void {
       }
 
       // Check for grid clicks
-      const gridPos = screenToGrid(pos.x, pos.y);
+      const gridPos = screenToGrid(pos.x, pos.y, state.grid);
       if (!gridPos || !player) return;
 
       // Click on player = enter rotation mode (only phase 2, before first rotation)
@@ -916,7 +921,7 @@ export function createTutorialScene(): void {
       // Try to move
       const moves = turnManager.getObjectManager().getAvailableMoves(player);
       const enemyPositions = turnManager.getObjectManager().getEnemies().map(e => e.gridPosition);
-      const reachable = findReachableTiles(state.grid, player.gridPosition, moves, enemyPositions, true);
+      const reachable = findReachableTiles(state.grid, player.gridPosition, moves, enemyPositions, player.flying, getCostProfile(player));
       const target = reachable.find(
         (t) => t.position.row === gridPos.row && t.position.col === gridPos.col
       );
@@ -1071,9 +1076,8 @@ export function createTutorialScene(): void {
           if (newRow === player.gridPosition.row && newCol === player.gridPosition.col) continue;
 
           // Check tile connectivity
-          const fromTile = state.grid[enemy.gridPosition.row][enemy.gridPosition.col];
-          const toTile = state.grid[newRow][newCol];
-          if (!tilesConnect(fromTile, toTile, dir)) continue;
+          const direction = getWallDirection(enemy.gridPosition, { row: newRow, col: newCol })!;
+          if (!getConnectivity(state.grid).canStep(enemy.gridPosition, direction)) continue;
 
           const newDist = Math.abs(newRow - player.gridPosition.row) +
                          Math.abs(newCol - player.gridPosition.col);
@@ -1090,39 +1094,6 @@ export function createTutorialScene(): void {
       }
     }
 
-    // Check if two tiles connect in a given direction
-    function tilesConnect(from: TileInstance, to: TileInstance, dir: { row: number; col: number }): boolean {
-      const fromEdges = getTileEdges(from);
-      const toEdges = getTileEdges(to);
-
-      if (dir.row === -1) return fromEdges.north && toEdges.south;      // Moving north
-      if (dir.row === 1) return fromEdges.south && toEdges.north;       // Moving south
-      if (dir.col === -1) return fromEdges.west && toEdges.east;        // Moving west
-      if (dir.col === 1) return fromEdges.east && toEdges.west;         // Moving east
-      return false;
-    }
-
-    // Get the open edges of a tile based on type and orientation
-    function getTileEdges(tile: TileInstance): { north: boolean; east: boolean; south: boolean; west: boolean } {
-      const baseEdges: Record<string, boolean[]> = {
-        [TileType.CulDeSac]: [true, false, false, false],   // N
-        [TileType.Straight]: [true, false, true, false],    // N, S
-        [TileType.L]: [true, true, false, false],           // N, E
-        [TileType.T]: [true, true, false, true],            // N, E, W
-        [TileType.Cross]: [true, true, true, true],         // All
-      };
-
-      const edges = baseEdges[tile.type] || [false, false, false, false];
-      // Rotate edges based on orientation (clockwise)
-      const rotated = [...edges];
-      for (let i = 0; i < tile.orientation; i++) {
-        const last = rotated.pop()!;
-        rotated.unshift(last);
-      }
-
-      return { north: rotated[0], east: rotated[1], south: rotated[2], west: rotated[3] };
-    }
-
     // Check if phase is complete
     function checkPhaseComplete(): void {
       const phase = phases[tutorialState.currentPhase - 1];
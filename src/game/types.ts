@@ -4,6 +4,9 @@ export const TileType = {
   L: "L",
   T: "T",
   Cross: "Cross",
+  OneWay: "OneWay",  // Gate that lets movers through from one side only
+  Bridge: "Bridge",  // The N-S and E-W paths cross without connecting
+  LockedDoor: "LockedDoor",  // Closed until opened with a key, then a Straight
 } as const;
 
 export type TileType = (typeof TileType)[keyof typeof TileType];
@@ -30,8 +33,34 @@ export interface TileInstance {
   type: TileType;
   orientation: Orientation;
   decay: number;  // Decay level: 0 = no decay, higher values = worse condition
+  fixed?: boolean;  // True for hand-authored fixed tiles (never decay, rotate, break or get pushed)
+  collapsed?: boolean;  // True once decay reached MAX_DECAY: the cell is a pit that only flyers can cross
+  feature?: SurfaceFeature;  // Something lying on the tile, pushed along with it
+  padId?: number;  // Teleport pads with the same id are linked
+  void?: boolean;  // True for cells that don't exist (masked grid shapes): never walked, drawn, decayed or pushed
 }
 
+export const GridShape = {
+  Rectangle: "Rectangle",  // Every cell exists
+  Cross: "Cross",  // The four corners are cut away
+  Ring: "Ring",  // A hole in the middle
+  Pillar: "Pillar",  // A single missing cell in the middle
+} as const;
+
+export type GridShape = (typeof GridShape)[keyof typeof GridShape];
+
+export const SurfaceFeature = {
+  Water: "Water",  // Shallow water, costs extra movement to wade into
+  Spikes: "Spikes",  // Hurts grounded mobs stepping onto it
+  Rubble: "Rubble",  // Blocks grounded mobs until the player clears it
+  Teleport: "Teleport",  // Sends whoever ends a move on it to the linked pad
+} as const;
+
+export type SurfaceFeature = (typeof SurfaceFeature)[keyof typeof SurfaceFeature];
+
+// Exact number of tiles of each type in a deck
+export type DeckComposition = Partial<Record<TileType, number>>;
+
 export interface GridPosition {
   row: number;
   col: number;
@@ -45,6 +74,7 @@ export interface PlotPosition {
 
 export const TurnOwner = {
   Player: "Player",
+  Rival: "Rival",
   Enemy: "Enemy",
 } as const;
 
@@ -59,9 +89,86 @@ export const PlayerPhase = {
 
 export type PlayerPhase = (typeof PlayerPhase)[keyof typeof PlayerPhase];
 
+export const WinConditionType = {
+  ReachExit: "ReachExit",  // Player must step on the exit (always implied by an exit)
+  DefeatAllEnemies: "DefeatAllEnemies",
+  CollectItem: "CollectItem",  // Player must carry the given item
+} as const;
+
+export type WinConditionType = (typeof WinConditionType)[keyof typeof WinConditionType];
+
+export interface WinCondition {
+  type: WinConditionType;
+  itemId?: string;  // Item to collect for CollectItem
+}
+
+export const DecayAction = {
+  Push: "Push",            // Player (or a saboteur enemy) pushed a tile into the grid
+  Rotate: "Rotate",        // Player (or a saboteur enemy) rotated the tile they stand on
+  WallBump: "WallBump",    // Player bumped into a wall
+  Explosion: "Explosion",  // A bomb went off
+  EnemyStep: "EnemyStep",  // An enemy walked onto a tile
+  Idle: "Idle",            // Player skipped their turn
+  Spread: "Spread",        // Critical neighbours weakened a tile in the structural pass
+  Hint: "Hint",            // Player asked for a route hint
+} as const;
+
+export type DecayAction = (typeof DecayAction)[keyof typeof DecayAction];
+
+export const DecayArea = {
+  Target: "Target",          // Only the tiles the action hit
+  Neighbours: "Neighbours",  // The hit tiles and their four neighbours
+  Line: "Line",              // The whole pushed row or column
+  Radius: "Radius",          // Every tile within `radius` steps of the hit tiles
+  Random: "Random",          // `count` random tiles anywhere on the grid
+} as const;
+
+export type DecayArea = (typeof DecayArea)[keyof typeof DecayArea];
+
+/**
+ * How much decay an action causes, and where
+ * Amount tables map a decay increase to its weight (include 0 for "no decay")
+ */
+export interface DecayProfile {
+  area: DecayArea;
+  amounts: Record<number, number>;  // Weight of each decay increase for tiles in the area
+  hitAmounts?: Record<number, number>;  // Weights for the hit tiles themselves, defaults to amounts
+  radius?: number;  // Steps from the hit tiles for DecayArea.Radius
+  count?: number;  // Tiles picked for DecayArea.Random
+}
+
+/**
+ * A single tile that decayed, for the renderer to animate
+ */
+export interface DecayEvent {
+  position: GridPosition;
+  from: number;
+  to: number;
+  action: DecayAction;
+}
+
+/**
+ * Tile and decay tables of a depth or biome (see public/biomes.json)
+ * Decay levels still range from 0 to DECAY_PROGRESSION.MAX_DECAY (one sprite frame each)
+ */
+export interface BiomeTables {
+  id: string;
+  name: string;
+  tileWeights: Record<TileType, number>;  // Weight of each tile type in random decks
+  decayWeights: Record<number, number>;  // Weight of each starting decay level of generated tiles
+  decayProfiles: Record<DecayAction, DecayProfile>;  // Decay caused by each action
+  fallChance: Record<number, number>;  // Chance of falling through a tile by decay level
+  featureChance: number;  // Chance that a tile of a generated level gets a surface feature
+  featureWeights: Record<SurfaceFeature, number>;  // Weight of each surface feature
+  shapeWeights: Record<GridShape, number>;  // Weight of each grid shape of generated levels
+}
+
 export interface GameState {
   grid: TileInstance[][];
-  currentTile: TileInstance | null;
+  currentTile: TileInstance | null;  // Active hand tile (the one that gets pushed)
+  hand: TileInstance[];  // Other tiles in hand, the player can swap one with currentTile
+  heldTile: TileInstance | null;  // Tile saved in the hold slot for later
+  handSize: number;  // Tiles in hand including currentTile (set per level)
   selectedPlot: PlotPosition | null;
   turnOwner: TurnOwner;
   playerPhase: PlayerPhase;
@@ -78,18 +185,74 @@ export interface GameState {
   equipment: (ItemInstance | null)[];  // Player equipment - 5 slots: [0=Head, 1=LeftHand, 2=RightHand, 3=Legs, 4=Torso]
   buffs: Buff[];  // Active buffs on the player
   isBossRoom: boolean;  // True if in boss room (no decay applied)
+  winConditions: WinCondition[];  // Conditions that must hold before the exit opens (empty for procedural levels)
+  par: number | null;  // Fewest player actions (pushes, rotations, one-tile moves) needed to reach the exit (null if unknown)
+  lastPushedPlot: PlotPosition | null;  // Plot of the most recent push (for RULES.FORBID_REVERSE_PUSH)
+  biome: BiomeTables;  // Tile and decay tables of this level
+  decayEvents: DecayEvent[];  // Decay applied since the last render, waiting to be animated
+  floor: FloorState | null;  // Boards of a multi-room floor (null for a single board)
+  hint: RoutePlan | null;  // Route shown as a hint until the player acts
+  hintsUsed: number;  // Hints asked for on this level
+}
+
+/**
+ * A fixed tile on the edge of a board that leads to a doorway of another board
+ */
+export interface Doorway {
+  position: GridPosition;  // Doorway tile on this board
+  side: Direction;  // Edge of the board the doorway is on
+  toBoard: number;  // Index of the board it leads to
+  toPosition: GridPosition;  // Doorway tile the player arrives on
 }
 
+/**
+ * One pushable board of a floor
+ */
+export interface Board {
+  grid: TileInstance[][];  // Tiles of the board (GameState.grid is the live grid of the current board)
+  doorways: Doorway[];
+  objects: MapObject[];  // Objects left on the board while the player is on another one
+  followers: { enemy: MapObject; at: GridPosition }[];  // Enemies waiting to step out of a doorway
+}
+
+/**
+ * Boards of a floor, linked by doorways
+ * Only the board the player is on plays, the others wait until the player comes back.
+ */
+export interface FloorState {
+  boards: Board[];
+  current: number;  // Index of the board the player is on
+}
+
+/**
+ * One turn of a route plan
+ * Pushed and rotated tiles are given as they end up (orientation applied).
+ */
+export type PlanStep =
+  | { type: "move"; to: GridPosition; path: GridPosition[] }
+  | { type: "push"; plot: PlotPosition; tile: TileInstance }
+  | { type: "rotate"; at: GridPosition; tile: TileInstance };
+
+export interface RoutePlan {
+  steps: PlanStep[];  // One step per turn, in order
+  goal: GridPosition;  // Where the goal is once the plan is done
+}
+
+// A push or rotation taken by an enemy instead of moving (see EnemyTactics.findTileAction())
+export type TileAction = Extract<PlanStep, { type: "push" | "rotate" }>;
+
 export const ObjectType = {
   Player: "Player",
   Enemy: "Enemy",
   Item: "Item",
   Exit: "Exit",
   Bomb: "Bomb",
+  Rival: "Rival",
 } as const;
 
 export type ObjectType = (typeof ObjectType)[keyof typeof ObjectType];
 
+// An enemy's role, its moves come from its behavior rules (see BehaviorRule)
 export const AIType = {
   Hunter: "Hunter",
   Ranged: "Ranged",
@@ -97,10 +260,87 @@ export const AIType = {
   Teleporter: "Teleporter",
   Summoner: "Summoner",
   King: "King",
+  Saboteur: "Saboteur",
 } as const;
 
 export type AIType = (typeof AIType)[keyof typeof AIType];
 
+// What an enemy can do with its turn, the actions its behavior rules pick from
+export const BehaviorAction = {
+  Hunt: "Hunt",  // Follow the true path towards the player
+  RangedAttack: "RangedAttack",  // Shoot the player, needs line of sight
+  Heal: "Heal",  // Heal a wounded ally, needs line of sight to one
+  Kite: "Kite",  // Move to a tile in line of sight of the player at the rule's range, out of the player's reach
+  Teleport: "Teleport",  // Jump onto a free tile next to the player
+  Summon: "Summon",  // Call one of the rule's summons onto a random free tile
+  TileAction: "TileAction",  // Push or rotate a tile to cut the player off, if that sets them back enough
+  Wait: "Wait",  // Stay put
+} as const;
+
+export type BehaviorAction = (typeof BehaviorAction)[keyof typeof BehaviorAction];
+
+// What a behavior rule can require before it's taken
+export const BehaviorCondition = {
+  PlayerInSight: "PlayerInSight",  // Straight line of sight to the player
+  PlayerInReach: "PlayerInReach",  // The enemy can get to the player this turn
+  PlayerAdjacent: "PlayerAdjacent",  // The player stands on a neighbouring tile
+  Wounded: "Wounded",  // Below full HP
+} as const;
+
+export type BehaviorCondition = (typeof BehaviorCondition)[keyof typeof BehaviorCondition];
+
+// How a Summon rule brings its enemy in
+export const SpawnStyle = {
+  Summon: "Summon",  // A purple pulse on the summoner
+  Boss: "Boss",  // A golden pulse, and the summoned enemy counts as a boss's (see MapObject.spawnedByKing)
+} as const;
+
+export type SpawnStyle = (typeof SpawnStyle)[keyof typeof SpawnStyle];
+
+/**
+ * One rule of an enemy's behavior (declared in enemies.json)
+ * An enemy takes the first rule, in order, that is due, whose conditions hold and whose
+ * action can be taken; with none it stays put.
+ */
+export interface BehaviorRule {
+  action: BehaviorAction;
+  if?: BehaviorCondition[];  // Conditions that must all hold
+  unless?: BehaviorCondition[];  // Conditions none of which may hold
+  every?: number;  // Due once this many of the enemy's turns have passed since spawning or since it was last taken
+  firstTurns?: number;  // Also due on each of the enemy's first this many turns
+  chance?: number;  // Probability (0.0 - 1.0) that the rule is tried when it's due, defaults to 1
+  summons?: string[];  // Enemy ids to pick from (Summon only)
+  spawnStyle?: SpawnStyle;  // How the summons are brought in (Summon only), defaults to Summon
+  range?: number;  // Preferred distance to the player (Kite only), defaults to KITE.PREFERRED_RANGE
+}
+
+/**
+ * What an enemy remembers between turns for its behavior rules
+ */
+export interface BehaviorState {
+  turns: number;  // Turns the enemy has taken
+  lastTaken: Record<number, number>;  // Turn each rule (by index) was last taken on
+}
+
+// How well a rival mason plans its race to the exit (settings in RIVAL_DIFFICULTIES)
+export const RivalDifficulty = {
+  Easy: "Easy",
+  Normal: "Normal",
+  Hard: "Hard",
+} as const;
+
+export type RivalDifficulty = (typeof RivalDifficulty)[keyof typeof RivalDifficulty];
+
+// How a mob weighs risk when it picks a path (weights in COST_PROFILES)
+export const CostProfile = {
+  Player: "Player",  // Takes any risk, prefers the safer of equally long routes
+  Cautious: "Cautious",  // Strongly penalises decay and harmful features, never risks a likely fall
+  Brute: "Brute",  // Barely minds decay or spikes
+  Flyer: "Flyer",  // Ignores the floor
+} as const;
+
+export type CostProfile = (typeof CostProfile)[keyof typeof CostProfile];
+
 export interface Stats {
   hp: number;
   atk: number;
@@ -174,6 +414,7 @@ export interface MapObject {
   baseStats?: Stats;  // Base stats before equipment bonuses
   currentHP?: number;
   flying: boolean;  // True if entity is flying (immune to ground hazards)
+  costProfile?: CostProfile;  // How the mob weighs risky tiles when pathfinding (see getCostProfile())
   tier?: number;  // Enemy tier (only for enemies)
   dropChance?: number;  // Item drop probability on death (only for enemies)
   remainingCharges?: number;  // Remaining charges (only for items with charges)
@@ -181,9 +422,10 @@ export interface MapObject {
   onExit?: MapObjectCallback;
   aiType?: AIType;
   projectile?: string;  // Projectile sprite name for ranged enemies (default: "arrow")
-  teleportCounter?: number;  // Counter for teleporter enemies - teleports when reaching threshold
-  summonCounter?: number;  // Counter for summoner enemies - summons skeleton when reaching threshold
-  kingSpawnCounter?: number;  // Counter for king enemy - spawns random enemy when reaching threshold
+  behavior?: BehaviorRule[];  // Rules the enemy picks its moves by (only for enemies)
+  behaviorState?: BehaviorState;  // Turn count and rule timings (only for enemies)
+  heldTile?: TileInstance;  // Tile an enemy with a TileAction rule pushes next
   bombTurnsRemaining?: number;  // Turns until bomb explodes (only for bombs): 5 = fuse_long, 3 = fuse_short, 1 = shake, 0 = explode
-  spawnedByKing?: boolean;  // True if this enemy was spawned by the king boss
+  spawnedByKing?: boolean;  // True if this enemy was spawned by a boss (a Summon rule with the Boss spawn style)
+  riseAnim?: boolean;  // True if the enemy plays its "rise" animation when summoned (only for enemies)
 }
@@ -47,6 +47,12 @@ export const k = kaplay({
     },
     debug: {
       keyboard: ["p"],
+    },
+    deck: {
+      keyboard: ["v"],
+    },
+    hint: {
+      keyboard: ["g"],
     }
   },
   global: false,
@@ -4,6 +4,8 @@ import { createMainScene } from "./game/mainScene";
 import { createCreditsScene } from "./game/creditsScene";
 import { createTutorialScene } from "./game/tutorialScene";
 import { createIntroScene } from "./game/introScene";
+import { createEditorScene } from "./game/editorScene";
+import { createDeckScene } from "./game/deckScene";
 import { k } from "./kaplayCtx";
 
 // Create all scenes
@@ -12,6 +14,8 @@ createMainScene();
 createCreditsScene();
 createTutorialScene();
 createIntroScene();
+createEditorScene();
+createDeckScene();
 
 // Start with the title screen
 k.go("title");